@@ -10,6 +10,19 @@ const __dirname = path.dirname(__filename);
 const PROJECT_ROOT = path.resolve(__dirname, '..');
 const LOG_FILE = path.join(PROJECT_ROOT, '.assistant.log');
 const EXPORT_DIR = path.join(PROJECT_ROOT, 'export');
+const MAX_LOG_BYTES = 10 * 1024 * 1024;
+// High-resolution PNG captures are far larger than log entries. Keep EXPORT_MAX_BYTES in
+// src/app/frameExport.ts in step: the app downloads anything bigger instead of uploading it.
+const MAX_EXPORT_BYTES = 128 * 1024 * 1024;
+// The app is served by Vite or dev/static-server.mjs on another port, so uploads are cross-origin.
+// Only those loopback dev origins are let in: any other page could otherwise read or delete the
+// log and fill export/ with uploads.
+const DEV_ORIGIN_PATTERN = /^http:\/\/(127\.0\.0\.1|localhost)(:\d+)?$/;
+const CORS_HEADERS = {
+  'Access-Control-Allow-Methods': 'GET, POST, DELETE, OPTIONS',
+  'Access-Control-Allow-Headers': 'Content-Type',
+  Vary: 'Origin',
+};
 
 const server = http.createServer(async (req, res) => {
   try {
@@ -20,6 +33,22 @@ const server = http.createServer(async (req, res) => {
 
     const url = new URL(req.url, `http://${req.headers.host || '127.0.0.1'}`);
 
+    // Same-origin and non-browser requests send no Origin; a foreign one never reaches a route,
+    // since simple GETs and POSTs skip the preflight.
+    const origin = req.headers.origin;
+    if (origin) {
+      if (!DEV_ORIGIN_PATTERN.test(origin)) {
+        send(res, 403, 'Forbidden origin');
+        return;
+      }
+      res.setHeader('Access-Control-Allow-Origin', origin);
+    }
+
+    if (req.method === 'OPTIONS') {
+      send(res, 204);
+      return;
+    }
+
     if (url.pathname === '/log') {
       await handleLogRoute(req, res, url);
       return;
@@ -85,7 +114,7 @@ async function handleLogGet(res, url) {
 }
 
 async function handleLogPost(req, res) {
-  const body = await collectBody(req);
+  const body = await collectBody(req, MAX_LOG_BYTES);
 
   if (!body.length) {
     send(res, 400, 'Missing request body');
@@ -131,7 +160,7 @@ async function handleExportRoute(req, res, url) {
     return;
   }
 
-  const body = await collectBody(req);
+  const body = await collectBody(req, MAX_EXPORT_BYTES);
 
   await fs.mkdir(EXPORT_DIR, { recursive: true });
   const filePath = path.join(EXPORT_DIR, safeName);
@@ -141,7 +170,7 @@ async function handleExportRoute(req, res, url) {
 }
 
 function send(res, statusCode, message = '', headers = {}) {
-  const finalHeaders = { ...headers };
+  const finalHeaders = { ...CORS_HEADERS, ...headers };
 
   if (!finalHeaders['Content-Type'] && message) {
     finalHeaders['Content-Type'] = 'text/plain; charset=utf-8';
@@ -151,7 +180,7 @@ function send(res, statusCode, message = '', headers = {}) {
   res.end(message);
 }
 
-function collectBody(req) {
+function collectBody(req, maxBytes) {
   return new Promise((resolve, reject) => {
     const chunks = [];
     let totalLength = 0;
@@ -160,8 +189,8 @@ function collectBody(req) {
       chunks.push(chunk);
       totalLength += chunk.length;
 
-      // Abort unusually large payloads (>10MB)
-      if (totalLength > 10 * 1024 * 1024) {
+      // Abort unusually large payloads
+      if (totalLength > maxBytes) {
         reject(new Error('Payload too large'));
         req.destroy();
       }
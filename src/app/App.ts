@@ -13,14 +13,16 @@ import {
   type Twirl8Mesh,
   type Twirl8Program,
   type Twirl8OutlineProgram,
+  type HighlightMesh,
+  type HighlightProgram,
+  type GhostTrailBuffer,
+  type GhostTrailProgram,
 } from '../engine/Assets';
-import { buildAllSegments, type SimulationSegmentDefinition } from '../segments';
-import { AXIS_COLORS, registerAxisDoubleClickTarget } from '../engine/assets/axisAsset';
-import {
-  TWIRLING_AXIS_BASE_LENGTH,
-  TWIRLING_AXIS_BASE_RADIUS,
-  TWIRLING_AXIS_BALL_SCALE,
-} from '../engine/assets/twirlingAxisAsset';
+import { buildAllSegments, type SegmentSettings, type SimulationSegmentDefinition } from '../segments';
+import { getAssetDefinition, instantiateAsset, nextAssetInstanceId } from '../assets/registry';
+import { Commands } from '../dsl/commands';
+import { Timeline, type AnimatableProperty } from '../dsl/timeline';
+import { registerAxisDoubleClickTarget } from '../engine/assets/axisAsset';
 import {
   type BaseColor,
   type SphereObjectDefinition,
@@ -28,11 +30,57 @@ import {
   type TwirlingAxisObjectDefinition,
   type RgpXYObjectDefinition,
   type DexelObjectDefinition,
-  type Twirl8ObjectDefinition,
-  type SimObjectDefinition,
 } from '../engine/assets/simTypes';
-import { CameraController } from './camera';
+import { CameraController, type CameraBookmark, type CameraState } from './camera';
+import { CameraPath, type CameraFollowTarget } from './cameraPath';
+import {
+  encodePng,
+  flipPixelRows,
+  formatFrameName,
+  sanitizeExportName,
+  uploadExport,
+  type RecordOptions,
+} from './frameExport';
+import {
+  VIEW_PANES,
+  getPaneRect,
+  getPaneViewport,
+  type ProjectionMode,
+  type ViewLayout,
+  type ViewPaneId,
+} from './viewLayout';
+import { TWIRL_MESH_HALF_HEIGHT, createPickRay, pickNearest, type PickCandidate } from './picking';
+import { PLAYBACK_RATE_PRESETS, Time, type TimeStep } from '../engine/Time';
+import {
+  SCENE_FILE_FORMAT,
+  SCENE_FILE_VERSION,
+  migrateSceneDocument,
+  type SceneDocument,
+} from './sceneFile';
 import { initLogging, log } from './log/db';
+import type { GhostBatches, GhostTrailStyle } from '../sim/GhostTrails';
+import { VideoRecorder, formatBurnIn } from './videoRecorder';
+import {
+  BASE_COLOR_RGB,
+  DEFAULT_SHELL_SIZE,
+  DEFAULT_TWIRLING_AXIS_SCRIPT,
+  RGP_SPHERE_OPACITY,
+  Simulation,
+  computePlaneRotation,
+  computeTwirl8ModelMatrix,
+  computeTwirlingAxisMatrices,
+  getRgpRingRadius,
+  getTwirl8Pulse,
+  parseRotationScript,
+  type DexelObject,
+  type RgpRingState,
+  type RgpXYObject,
+  type SimObject,
+  type SphereObject,
+  type Twirl8Object,
+  type TwirlObject,
+  type TwirlingAxisObject,
+} from '../sim/World';
 import {
   clamp,
   mat3FromMat4,
@@ -41,16 +89,13 @@ import {
   mat4FromYRotation,
   mat4FromZRotation,
   mat4Identity,
-  mat4LookAt,
-  mat4Perspective,
   mat4Multiply,
   mat4Scale,
   mat4ScaleUniform,
   normalizeVec3,
+  type Vec3,
 } from './math3d';
 
-const MAX_GHOST_PARTICLES = 4000;
-const DEFAULT_TWIRLING_AXIS_SCRIPT = '+X90 -Y90 +Z90 -X90 +Y90 -Z90';
 const SCRIPT_PRESETS: Array<{ label: string; script: string }> = [
   { label: 'Default (+X90 -Y90 +Z90 ...)', script: DEFAULT_TWIRLING_AXIS_SCRIPT },
   { label: 'Gentle Spiral (+X45 +Y45 ...)', script: '+X45 +Y45 +Z45 -X45 -Y45 -Z45' },
@@ -60,217 +105,21 @@ const SCRIPT_PRESETS: Array<{ label: string; script: string }> = [
   { label: 'Variable Sweep (+X30 ...)', script: '+X30 +Y60 +Z90 -X120 -Y60 -Z30' },
 ];
 
-const RGP_SPHERE_COLOR = new Float32Array([0.42, 0.68, 0.93]);
-const RGP_SPHERE_OPACITY = 0.12;
-
-const RGP_PRIMARY_CONFIG = {
-  shellScale: 1,
-  speedPerTick: 1,
-  direction: 1 as 1 | -1,
-  plane: 'GB' as const,
-  baseColor: 'white' as BaseColor,
-  shadingIntensity: 0.35,
-  opacity: 1,
-  beltHalfAngle: 0.18,
-  pulseSpeed: 0.75,
-  initialRotationY: Math.PI / 6,
-  initialPulsePhase: 0,
-  initialPulseScale: 0,
-  invertPulse: false,
-  visible: true,
-};
-
-const RGP_SECONDARY_CONFIG = {
-  shellScale: 1,
-  speedPerTick: 1,
-  direction: 1 as 1 | -1,
-  plane: 'YG' as const,
-  baseColor: 'red' as BaseColor,
-  shadingIntensity: 0.45,
-  opacity: 1,
-  beltHalfAngle: 0.22,
-  pulseSpeed: 0.75,
-  initialRotationY: Math.PI / 6,
-  initialPulsePhase: 0.5,
-  initialPulseScale: 0,
-  invertPulse: false,
-  visible: true,
-};
-
-const DEXEL_PRIMARY_RATIO = 1;
-const DEXEL_SECONDARY_RATIO = 0.9;
-
 const DEG_TO_RAD = Math.PI / 180;
-const RAD_TO_DEG = 180 / Math.PI;
+// Pointer travel (px) beyond which a press counts as an orbit/pan drag rather than a click.
+const CLICK_DRAG_TOLERANCE = 4;
+const DEFAULT_BACKGROUND_COLOR: [number, number, number] = [0.03, 0.05, 0.09];
+const SELECTION_HIGHLIGHT_COLOR = new Float32Array([1.0, 0.82, 0.25, 1.0]);
+const HOVER_HIGHLIGHT_COLOR = new Float32Array([0.7, 0.85, 1.0, 0.6]);
+// Each outline is traced at several scales so the 1px GL lines read as a thicker band.
+const HIGHLIGHT_OUTLINE_SCALES = [1.018, 1.009, 1.0];
+// Bookmarks are recalled through the keymap's nine bookmark slots (Shift+1–9 by default), so each
+// segment keeps at most nine.
+const CAMERA_BOOKMARK_SLOTS = 9;
+const CAMERA_FLIGHT_DURATION_MS = 650;
 
 initLogging();
 
-interface RotationStep {
-  axis: 'x' | 'y' | 'z';
-  direction: 1 | -1;
-  angleDeg: number;
-}
-
-interface BaseSimObject {
-  id: string;
-  rotationY: number;
-  speedPerTick: number;
-  direction: 1 | -1;
-  plane: 'YG' | 'GB' | 'YB';
-  visible: boolean;
-  shadingIntensity: number;
-  opacity: number;
-}
-
-interface SphereObject extends BaseSimObject {
-  type: 'sphere';
-  mesh: SphereMesh;
-  shellSize: number;
-  baseColor: BaseColor;
-}
-
-interface TwirlObject extends BaseSimObject {
-  type: 'twirl';
-  mesh: TwirlMesh;
-  shellSize: number;
-  baseColor: BaseColor;
-  beltHalfAngle: number;
-  pulseSpeed: number;
-  pulsePhase: number;
-  pulseScale: number;
-}
-
-interface TwirlingAxisObject {
-  type: 'twirling-axis';
-  id: string;
-  mesh: TwirlingAxisMesh;
-  rotationX: number;
-  rotationY: number;
-  rotationZ: number;
-  speedPerTick: number;
-  direction: 1 | -1;
-  visible: boolean;
-  size: number;
-  opacity: number;
-  rotationScript: RotationStep[];
-  rotationScriptSource: string;
-  scriptIndex: number;
-  beatAccumulator: number;
-  currentDirection: 1 | -1;
-}
-
-interface RgpRingConfig {
-  shellScale: number;
-  speedPerTick: number;
-  direction: 1 | -1;
-  plane: 'YG' | 'GB' | 'YB';
-  baseColor: BaseColor;
-  shadingIntensity: number;
-  opacity: number;
-  beltHalfAngle: number;
-  pulseSpeed: number;
-  initialRotationY: number;
-  initialPulsePhase: number;
-  initialPulseScale: number;
-  invertPulse: boolean;
-  visible: boolean;
-}
-
-interface RgpRingState {
-  rotationY: number;
-  speedPerTick: number;
-  direction: 1 | -1;
-  plane: 'YG' | 'GB' | 'YB';
-  shellScale: number;
-  baseColor: BaseColor;
-  shadingIntensity: number;
-  opacity: number;
-  beltHalfAngle: number;
-  pulseSpeed: number;
-  pulsePhase: number;
-  pulseScale: number;
-  invertPulse: boolean;
-  visible: boolean;
-  contracted: boolean;
-}
-
-interface RgpXYObject {
-  type: 'rgpXY';
-  id: string;
-  mesh: TwirlMesh;
-  size: number;
-  visible: boolean;
-  speedPerTick: number;
-  direction: 1 | -1;
-  primary: RgpRingState;
-  secondary: RgpRingState;
-  sphereColor: Float32Array;
-  sphereOpacity: number;
-  sphereVisible: boolean;
-  primaryTwirl: Twirl8Object | null;
-  secondaryTwirl: Twirl8Object | null;
-}
-
-interface DexelObject {
-  type: 'dexel';
-  id: string;
-  mesh: TwirlMesh;
-  anchorId: string | null;
-  axis: 'x' | 'y' | 'z';
-  sign: 1 | -1;
-  size: number;
-  speedPerTick: number;
-  direction: 1 | -1;
-  visible: boolean;
-  position: Float32Array;
-  primary: RgpRingState;
-  secondary: RgpRingState;
-  primarySpeedRatio: number;
-  secondarySpeedRatio: number;
-}
-
-interface Dexel {
-  axis: 'x' | 'y' | 'z';
-  sign: 1 | -1;
-  position: Float32Array;
-  mesh: TwirlMesh;
-  size: number;
-  primary: RgpRingState;
-  secondary: RgpRingState;
-  sourceId: string;
-}
-
-interface Twirl8Object {
-  type: 'twirl8';
-  id: string;
-  axis: 'x' | 'y' | 'z';
-  radius: number;
-  color: BaseColor;
-  backColor: BaseColor;
-  opacity: number;
-  visible: boolean;
-  size: number;
-  width: number;
-  lobeAngle: number;
-  lobeOrientation: 1 | -1;
-  wasCollapsed: boolean;
-  rotationY: number;
-  speedPerTick: number;
-  direction: 1 | -1;
-  invertPulse: boolean;
-  linkedRingState: RgpRingState | null;
-  linkedRingType: 'primary' | 'secondary' | null;
-}
-
-type SimObject = SphereObject | TwirlObject | TwirlingAxisObject | RgpXYObject | DexelObject | Twirl8Object;
-
-interface GhostParticle {
-  position: Float32Array;
-  color: Float32Array;
-  radius: number;
-  opacity: number;
-}
-
 type SimObjectUpdatePayload = Partial<{
   speedPerTick: number;
   direction: 1 | -1;
@@ -282,22 +131,41 @@ type SimObjectUpdatePayload = Partial<{
   opacity: number;
   size: number;
   beltHalfAngle: number;
-  pulseSpeed: number;
+  pulsesPerRevolution: number;
   sphereOpacity: number;
+  latticeDepth: number;
+  latticeBudget: number;
+  autoGrowBeats: number;
+  primarySpeedRatio: number;
+  secondarySpeedRatio: number;
   twirl8Size: number;
   twirl8Width: number;
   twirl8AngleDeg: number;
 }>;
 
+type SimObjectMovePayload = Partial<{
+  axis: 'x' | 'y' | 'z';
+  sign: 1 | -1;
+  anchorId: string | null;
+  rotationXDeg: number;
+  rotationYDeg: number;
+  rotationZDeg: number;
+}>;
+
 interface StoredDisplaySettings {
   axisVisibility: Record<'x' | 'y' | 'z', boolean>;
   showSecondaryAxes: boolean;
   axisOpacity: number;
   axisRadiusScale: number;
+  viewLayout: ViewLayout;
+  projection: ProjectionMode;
+  ghostTrailStyle: GhostTrailStyle;
+  ghostLifetimeBeats: number;
 }
 
 export class App {
   private static readonly DISPLAY_SETTINGS_STORAGE_KEY = 'nettysimulation.displaySettings.v1';
+  private static readonly CAMERA_BOOKMARKS_STORAGE_KEY = 'nettysimulation.cameraBookmarks.v1';
 
   private canvas: HTMLCanvasElement | null = null;
   private gl: WebGLRenderingContext | null = null;
@@ -310,6 +178,13 @@ export class App {
   private twirl8Program: Twirl8Program | null = null;
   private twirl8OutlineProgram: Twirl8OutlineProgram | null = null;
   private twirl8Mesh: Twirl8Mesh | null = null;
+  private highlightProgram: HighlightProgram | null = null;
+  private highlightMesh: HighlightMesh | null = null;
+  private ghostTrailProgram: GhostTrailProgram | null = null;
+  private ghostTrailBuffer: GhostTrailBuffer | null = null;
+  private ghostTrailStyle: GhostTrailStyle = 'balls';
+  private ghostBatches: GhostBatches | null = null;
+  private paneViewportHeight = 1;
   private axes: AxisSet | null = null;
   private rotatedAxes: AxisSet | null = null;
   private axisVisibility: Record<'x' | 'y' | 'z', boolean> = { x: true, y: true, z: true };
@@ -317,32 +192,22 @@ export class App {
   private axisOpacitySlider = 1;
   private axisRadiusScale = 1;
   private sphereSegments = { lat: 48, lon: 48 };
-  private shadingIntensity = 0.4;
-  private ghostParticles: GhostParticle[] = [];
-  private dexels: Dexel[] = [];
-  private dexelLastSign: Record<'x' | 'y' | 'z', 1 | -1> = { x: 1, y: 1, z: 1 };
 
   private readonly camera = new CameraController();
+  private readonly paneCameras: Record<ViewPaneId, CameraController>;
+  private readonly paneElements = new Map<ViewPaneId, HTMLDivElement>();
+  // View and projection each pane was last drawn with, for picking inside that pane.
+  private readonly paneMatrices = new Map<ViewPaneId, { view: Float32Array; projection: Float32Array }>();
+  private viewLayout: ViewLayout = 'single';
+  private recording: { cancelled: boolean } | null = null;
+  private videoRecorder: VideoRecorder | null = null;
+  private backgroundColor: [number, number, number] = DEFAULT_BACKGROUND_COLOR;
   private readonly identityModelMatrix = mat4Identity();
   private readonly identityNormalMatrix = mat3Identity();
   private readonly originVector = new Float32Array([0, 0, 0]);
-  private readonly alignYAxisToZMatrix = mat4FromXRotation(-Math.PI / 2);
-  private readonly alignYAxisToXMatrix = mat4FromZRotation(-Math.PI / 2);
   private readonly rotatedAxisModelMatrix: Float32Array;
   private readonly rotatedAxisNormalMatrix: Float32Array;
-  private readonly defaultShellSize = 32;
-  private readonly baseColorVectors: Record<BaseColor, Float32Array> = {
-    crimson: new Float32Array([0.86, 0.19, 0.29]),
-    red: new Float32Array([0.95, 0.2, 0.23]),
-    amber: new Float32Array([1.0, 0.75, 0.27]),
-    gold: new Float32Array([0.98, 0.86, 0.29]),
-    lime: new Float32Array([0.54, 0.86, 0.27]),
-    teal: new Float32Array([0.1, 0.65, 0.64]),
-    azure: new Float32Array([0.2, 0.55, 0.96]),
-    violet: new Float32Array([0.55, 0.34, 0.84]),
-    magenta: new Float32Array([0.78, 0.16, 0.76]),
-    white: new Float32Array([1.0, 1.0, 1.0]),
-  };
+  private readonly baseColorVectors = BASE_COLOR_RGB;
   private viewMatrix = mat4Identity();
   private projectionMatrix = mat4Identity();
 
@@ -351,14 +216,20 @@ export class App {
   private animationHandle = 0;
   private lastRenderTime = 0;
 
-  private simRunning = false;
-  private simSpeed = 30;
-  private readonly rotationPerBeat = Math.PI / 90;
-  private readonly simObjects: SimObject[] = [];
+  private readonly time = new Time({ beatsPerSecond: 30 });
+  private interpolationSnapshot = new Map<object, number[]>();
+  private readonly world = new Simulation();
   private selectedObjectId: string | null = null;
+  private hoveredObjectId: string | null = null;
   private readonly segmentDefinitions: SimulationSegmentDefinition[] = buildAllSegments();
   private selectedSegmentId: string | null = null;
+  private cameraBookmarks: Record<string, CameraBookmark[]> = {};
   private readonly simListeners = new Set<() => void>();
+  private readonly timeline = new Timeline({
+    setProperty: (targetId, property, value) => this.applyAnimatedProperty(targetId, property, value),
+  });
+  private readonly cameraPath = new CameraPath();
+  private readonly commands = new Commands(this);
   private axisDoubleClickCleanup: (() => void) | null = null;
 
   constructor() {
@@ -366,44 +237,24 @@ export class App {
     const rotateX = mat4FromXRotation(Math.PI / 4);
     this.rotatedAxisModelMatrix = mat4Multiply(rotateX, rotateY);
     this.rotatedAxisNormalMatrix = mat3FromMat4(this.rotatedAxisModelMatrix);
+    this.paneCameras = {
+      free: this.camera,
+      top: this.createAxisPaneCamera('top'),
+      front: this.createAxisPaneCamera('front'),
+      side: this.createAxisPaneCamera('side'),
+    };
     this.restoreDisplaySettings();
+    this.restoreCameraBookmarks();
+    this.time.onTick((step) => this.simulateTick(step));
   }
 
-  private buildTwirl8ModelMatrix(axis: 'x' | 'y' | 'z', radius: number, spin: number): Float32Array {
-    const norm = Math.max(0, radius / this.defaultShellSize);
-    let rotation = this.identityModelMatrix;
-    switch (axis) {
-      case 'x':
-        rotation = mat4FromYRotation(-Math.PI / 2);
-        break;
-      case 'y':
-        rotation = mat4FromXRotation(Math.PI / 2);
-        break;
-      case 'z':
-        rotation = this.identityModelMatrix;
-        break;
-    }
-    const scale = mat4Scale(norm, norm, norm);
-    const oriented = mat4Multiply(rotation, scale);
-
-    if (Math.abs(spin) < 1e-6) {
-      return oriented;
-    }
-
-    let axialRotation = this.identityModelMatrix;
-    switch (axis) {
-      case 'x':
-        axialRotation = mat4FromXRotation(spin);
-        break;
-      case 'y':
-        axialRotation = mat4FromYRotation(spin);
-        break;
-      case 'z':
-        axialRotation = mat4FromZRotation(spin);
-        break;
-    }
-
-    return mat4Multiply(axialRotation, oriented);
+  private createAxisPaneCamera(id: ViewPaneId): CameraController {
+    const camera = new CameraController();
+    const orientation = VIEW_PANES.find((pane) => pane.id === id)?.orientation;
+    camera.setState({ ...orientation, distance: 4 });
+    camera.setProjection('orthographic');
+    camera.setOrbitEnabled(false);
+    return camera;
   }
 
   mount(host: HTMLElement): void {
@@ -415,6 +266,20 @@ export class App {
     const canvas = document.createElement('canvas');
     container.appendChild(canvas);
 
+    this.paneElements.clear();
+    for (const pane of VIEW_PANES) {
+      const element = document.createElement('div');
+      element.className = 'scene-pane';
+      element.dataset.pane = pane.id;
+      const label = document.createElement('span');
+      label.className = 'scene-pane__label';
+      label.textContent = pane.label;
+      element.appendChild(label);
+      container.appendChild(element);
+      this.paneElements.set(pane.id, element);
+    }
+    this.applyViewLayout();
+
     host.innerHTML = '';
     host.appendChild(container);
 
@@ -428,8 +293,12 @@ export class App {
     const twirlProgram = Assets.createTwirlProgram(gl);
     const twirl8Program = Assets.createTwirl8Program(gl);
     const twirl8OutlineProgram = Assets.createTwirl8OutlineProgram(gl);
+    const highlightProgram = Assets.createHighlightProgram(gl);
+    const ghostTrailProgram = Assets.createGhostTrailProgram(gl);
+    const ghostTrailBuffer = Assets.createGhostTrailBuffer(gl);
     const sphere = Assets.createSphereMesh(gl, this.sphereSegments.lat, this.sphereSegments.lon);
     const twirl8 = Assets.createTwirl8Mesh(gl);
+    const highlight = Assets.createHighlightMesh(gl);
     const twirl = Assets.createTwirlMesh(
       gl,
       Math.max(32, this.sphereSegments.lon * 4),
@@ -451,8 +320,12 @@ export class App {
     this.twirlProgram = twirlProgram;
     this.twirl8Program = twirl8Program;
     this.twirl8OutlineProgram = twirl8OutlineProgram;
+    this.highlightProgram = highlightProgram;
+    this.ghostTrailProgram = ghostTrailProgram;
+    this.ghostTrailBuffer = ghostTrailBuffer;
     this.sphereMesh = sphere;
     this.twirl8Mesh = twirl8;
+    this.highlightMesh = highlight;
     this.twirlMesh = twirl;
     this.axes = axes;
     this.rotatedAxes = rotatedAxes;
@@ -463,7 +336,7 @@ export class App {
       getProjectionMatrix: () => this.projectionMatrix,
       getAxisVisibility: () => this.axisVisibility,
       onAxisSnap: ({ axis, label }) => {
-        if (this.selectedSegmentId !== 'RGP_Pray') {
+        if (!this.getSelectedSegmentSettings().snapToAxis) {
           return;
         }
         this.camera.lookAtAxis(axis);
@@ -473,14 +346,14 @@ export class App {
 
     const hashSegment = window.location.hash.match(/#segment=(.+)$/)?.[1] ?? null;
     const defaultSegment = hashSegment
-      ? this.segmentDefinitions.find((segment) => segment.id === hashSegment) ?? null
+      ? this.segmentDefinitions.find((segment) => segment.id === hashSegment && !segment.error) ?? null
       : null;
     if (defaultSegment) {
-      this.loadSegment(defaultSegment.id);
+      this.loadSegment(defaultSegment.id, true);
     } else if (this.segmentDefinitions[0]) {
-      this.loadSegment(this.segmentDefinitions[0].id);
+      this.loadSegment(this.segmentDefinitions[0].id, true);
     } else {
-      this.simObjects.length = 0;
+      this.world.objects.length = 0;
       this.selectedSegmentId = null;
       this.selectedObjectId = null;
       this.notifySimChange();
@@ -494,14 +367,23 @@ export class App {
     });
     this.resizeObserver.observe(container);
 
-    this.cleanupCallbacks.push(this.camera.attach(container));
+    for (const [paneId, element] of this.paneElements) {
+      this.cleanupCallbacks.push(this.paneCameras[paneId].attach(element));
+      this.cleanupCallbacks.push(this.attachPointerPicking(element, paneId));
+    }
 
     this.lastRenderTime = performance.now();
     const renderLoop = (now: number) => {
       const deltaSeconds = (now - this.lastRenderTime) / 1000;
       this.lastRenderTime = now;
-      const beats = this.simRunning ? this.simSpeed * deltaSeconds : 0;
-      this.render(beats, deltaSeconds);
+      this.time.advance(deltaSeconds);
+      this.camera.updatePath(
+        this.time.getBeat() + this.time.getAlpha() * this.time.getBeatsPerTick(),
+        (target) => this.resolveCameraFollow(target),
+      );
+      this.camera.update(now);
+      this.renderInterpolated(this.time.getAlpha());
+      this.videoRecorder?.drawFrame(now);
       this.animationHandle = requestAnimationFrame(renderLoop);
     };
 
@@ -517,6 +399,9 @@ export class App {
     this.cleanupCallbacks.forEach((cleanup) => cleanup());
     this.cleanupCallbacks = [];
 
+    void this.videoRecorder?.stop().catch(() => undefined);
+    this.videoRecorder = null;
+
     if (this.axisDoubleClickCleanup) {
       this.axisDoubleClickCleanup();
       this.axisDoubleClickCleanup = null;
@@ -541,6 +426,10 @@ export class App {
       Assets.disposeTwirl8Mesh(this.gl, this.twirl8Mesh);
     }
 
+    if (this.gl && this.highlightMesh) {
+      Assets.disposeHighlightMesh(this.gl, this.highlightMesh);
+    }
+
     if (this.gl && this.axes) {
       Assets.disposeAxisSet(this.gl, this.axes);
     }
@@ -567,6 +456,15 @@ export class App {
     if (this.gl && this.twirl8OutlineProgram) {
       Assets.disposeTwirl8OutlineProgram(this.gl, this.twirl8OutlineProgram);
     }
+    if (this.gl && this.highlightProgram) {
+      Assets.disposeHighlightProgram(this.gl, this.highlightProgram);
+    }
+    if (this.gl && this.ghostTrailProgram) {
+      Assets.disposeGhostTrailProgram(this.gl, this.ghostTrailProgram);
+    }
+    if (this.gl && this.ghostTrailBuffer) {
+      Assets.disposeGhostTrailBuffer(this.gl, this.ghostTrailBuffer);
+    }
 
     this.canvas = null;
     this.gl = null;
@@ -575,18 +473,18 @@ export class App {
     this.twirlProgram = null;
     this.twirl8Program = null;
     this.twirl8OutlineProgram = null;
+    this.highlightProgram = null;
+    this.ghostTrailProgram = null;
+    this.ghostTrailBuffer = null;
     this.sphereMesh = null;
     this.twirlMesh = null;
     this.twirl8Mesh = null;
+    this.highlightMesh = null;
     this.twirlingAxisMesh = null;
     this.axes = null;
     this.rotatedAxes = null;
-    this.ghostParticles = [];
-    this.dexels = [];
-    this.dexelLastSign = { x: 1, y: 1, z: 1 };
-    this.simObjects.length = 0;
-    const rgpById = new Map<string, RgpXYObject>();
-    this.simRunning = false;
+    this.world.clear();
+    this.time.pause();
     this.selectedObjectId = null;
     this.selectedSegmentId = null;
     this.notifySimChange();
@@ -603,10 +501,147 @@ export class App {
     }
 
     gl.viewport(0, 0, width, height);
-    this.projectionMatrix = mat4Perspective((50 * Math.PI) / 180, width / height, 0.1, 100);
   }
 
-  private render(beats: number, deltaSeconds: number): void {
+  // Positions the pane overlays that receive pointer input; render() draws into the same rects.
+  private applyViewLayout(): void {
+    for (const pane of VIEW_PANES) {
+      const element = this.paneElements.get(pane.id);
+      if (!element) {
+        continue;
+      }
+      const rect = getPaneRect(pane, this.viewLayout);
+      element.hidden = rect === null;
+      element.classList.toggle('is-labelled', this.viewLayout === 'quad');
+      if (pane.id === 'free') {
+        const label = element.querySelector('.scene-pane__label');
+        if (label) {
+          label.textContent = this.camera.getProjection() === 'orthographic' ? 'Free · Orthographic' : pane.label;
+        }
+      }
+      if (rect) {
+        Object.assign(element.style, {
+          left: `${rect.x * 100}%`,
+          top: `${rect.y * 100}%`,
+          width: `${rect.width * 100}%`,
+          height: `${rect.height * 100}%`,
+        });
+      }
+    }
+  }
+
+  private simulateTick(step: TimeStep): void {
+    this.captureInterpolationSnapshot();
+    const objectCount = this.world.objects.length;
+    this.world.step(step.beats);
+    // Auto-growing lattices add dexels mid-run; the object lists need to hear about them.
+    if (this.world.objects.length !== objectCount) {
+      this.notifySimChange();
+    }
+    this.timeline.update(step.beat);
+  }
+
+  private captureInterpolationSnapshot(): void {
+    this.interpolationSnapshot = new Map();
+    for (const simObject of this.world.objects) {
+      this.interpolationSnapshot.set(simObject, this.readRotations(simObject));
+    }
+  }
+
+  private readRotations(target: SimObject): number[] {
+    if ('primary' in target) {
+      return [target.primary.rotationY, target.secondary.rotationY];
+    }
+    if (target.type === 'twirling-axis') {
+      return [target.rotationX, target.rotationY, target.rotationZ];
+    }
+    return [target.rotationY];
+  }
+
+  private writeRotations(target: SimObject, values: number[]): void {
+    if ('primary' in target) {
+      [target.primary.rotationY, target.secondary.rotationY] = values;
+    } else if (target.type === 'twirling-axis') {
+      [target.rotationX, target.rotationY, target.rotationZ] = values;
+    } else {
+      [target.rotationY] = values;
+    }
+  }
+
+  // Draws the state between the previous and current tick, then puts the simulated values back.
+  private renderInterpolated(alpha: number): void {
+    if (alpha <= 0 || alpha >= 1 || this.interpolationSnapshot.size === 0) {
+      this.render();
+      return;
+    }
+
+    const restore: Array<[SimObject, number[]]> = [];
+    for (const target of this.world.objects) {
+      const previous = this.interpolationSnapshot.get(target);
+      if (!previous) {
+        continue;
+      }
+      const current = this.readRotations(target);
+      restore.push([target, current]);
+      this.writeRotations(
+        target,
+        current.map((value, index) => previous[index] + (value - previous[index]) * alpha),
+      );
+    }
+
+    try {
+      this.render();
+    } finally {
+      for (const [target, values] of restore) {
+        this.writeRotations(target, values);
+      }
+    }
+  }
+
+  // Draws every pane into the bound framebuffer, which is the canvas unless a capture is running.
+  private render(width = this.canvas?.width ?? 0, height = this.canvas?.height ?? 0): void {
+    const gl = this.gl;
+    const canvas = this.canvas;
+    if (!gl || !canvas) {
+      return;
+    }
+
+    // Every pane draws the same trail, so it is packed and uploaded once per frame.
+    this.ghostBatches = null;
+    if (this.ghostTrailBuffer && this.world.ghostParticles.length > 0) {
+      this.ghostBatches = this.world.ghostTrails.buildBatches(this.ghostTrailStyle);
+      Assets.uploadGhostTrailVertices(gl, this.ghostTrailBuffer, this.ghostBatches.vertices);
+    }
+
+    gl.enable(gl.SCISSOR_TEST);
+    this.paneMatrices.clear();
+    for (const pane of VIEW_PANES) {
+      const rect = getPaneRect(pane, this.viewLayout);
+      if (!rect) {
+        continue;
+      }
+      const viewport = getPaneViewport(rect, width, height);
+      gl.viewport(viewport.x, viewport.y, viewport.width, viewport.height);
+      gl.scissor(viewport.x, viewport.y, viewport.width, viewport.height);
+      this.paneViewportHeight = viewport.height;
+
+      const camera = this.paneCameras[pane.id];
+      this.viewMatrix = camera.getViewMatrix();
+      this.projectionMatrix = camera.getProjectionMatrix(viewport.width / viewport.height);
+      this.paneMatrices.set(pane.id, { view: this.viewMatrix, projection: this.projectionMatrix });
+      this.renderPane(camera);
+    }
+    gl.disable(gl.SCISSOR_TEST);
+
+    // Leave the free pane's matrices current for the axis double-click hit test.
+    const free = this.paneMatrices.get('free');
+    if (free) {
+      this.viewMatrix = free.view;
+      this.projectionMatrix = free.projection;
+    }
+  }
+
+  private renderPane(camera: CameraController): void {
     // Abort rendering when core WebGL resources are not yet initialized.
     if (
       !this.gl ||
@@ -624,6 +659,8 @@ export class App {
     const sphereProgram = this.sphereProgram;
     const axisProgram = this.axisProgram;
     const twirlProgram = this.twirlProgram;
+    const sphereMesh = this.sphereMesh;
+    const twirlMesh = this.twirlMesh;
 
     // Ensure fragments respect depth buffering (z-order).
     gl.enable(gl.DEPTH_TEST);
@@ -631,13 +668,13 @@ export class App {
     gl.enable(gl.CULL_FACE);
     // Cull the back-facing triangles specifically.
     gl.cullFace(gl.BACK);
-    // Set the dark background color for each frame.
-    gl.clearColor(0.03, 0.05, 0.09, 1);
+    // Set the segment's background color (dark by default) for each frame.
+    const [red, green, blue] = this.backgroundColor;
+    gl.clearColor(red, green, blue, 1);
     // Reset color and depth buffers.
     gl.clear(gl.COLOR_BUFFER_BIT | gl.DEPTH_BUFFER_BIT);
 
-    const target = this.camera.getTarget();
-    const position = this.camera.getPosition();
+    const position = camera.getPosition();
     const clipRadius = 1.02;
     const cameraDistanceFromCenter = Math.hypot(position[0], position[1], position[2]);
     const anyAxisVisible = this.axisVisibility.x || this.axisVisibility.y || this.axisVisibility.z;
@@ -646,9 +683,6 @@ export class App {
     const shouldRenderAxes = shouldRenderPrimaryAxes || shouldRenderSecondaryAxes;
     const clipEnabled = shouldRenderAxes && cameraDistanceFromCenter > clipRadius + 0.05;
 
-    // Build the camera view transform.
-    this.viewMatrix = mat4LookAt(position, target, [0, 1, 0]);
-
     const sharedUniforms = {
       viewMatrix: this.viewMatrix,
       projectionMatrix: this.projectionMatrix,
@@ -667,93 +701,36 @@ export class App {
     const dexelQueue: DexelObject[] = [];
     const twirl8Queue: Twirl8Object[] = [];
 
-    for (const simObject of this.simObjects) {
+    for (const simObject of this.world.objects) {
       if (!simObject.visible) {
         continue;
       }
 
-      if (simObject.type === 'twirling-axis') {
-        if (beats > 0) {
-          this.advanceTwirlingAxis(simObject, beats);
-        }
-        twirlingAxisQueue.push(simObject);
-        continue;
-      }
-
-      if (simObject.type === 'dexel') {
-        dexelQueue.push(simObject);
-        continue;
-      }
-
-      if (simObject.type === 'twirl8') {
-        if (beats > 0) {
-          simObject.rotationY += beats * this.rotationPerBeat * simObject.speedPerTick * simObject.direction;
-        }
-        twirl8Queue.push(simObject);
-        continue;
-      }
-
-      if (simObject.type === 'rgpXY') {
-        if (beats > 0) {
-          const rotationDeltaPrimary = beats * this.rotationPerBeat * simObject.primary.speedPerTick * simObject.primary.direction;
-          const rotationDeltaSecondary = beats * this.rotationPerBeat * simObject.secondary.speedPerTick * simObject.secondary.direction;
-          simObject.primary.rotationY += rotationDeltaPrimary;
-          simObject.secondary.rotationY += rotationDeltaSecondary;
-        }
-
-        if (this.simRunning) {
-          this.updateRgpPulse(simObject.primary, deltaSeconds);
-          this.updateRgpPulse(simObject.secondary, deltaSeconds);
-        }
-        if (simObject.primaryTwirl) {
-          simObject.primaryTwirl.linkedRingState = simObject.primary;
-          simObject.primaryTwirl.linkedRingType = 'primary';
-        }
-        if (simObject.secondaryTwirl) {
-          simObject.secondaryTwirl.linkedRingState = simObject.secondary;
-          simObject.secondaryTwirl.linkedRingType = 'secondary';
-        }
-
-        rgpQueue.push(simObject);
-        continue;
-      }
-
-      if (beats > 0) {
-        simObject.rotationY += beats * this.rotationPerBeat * simObject.speedPerTick * simObject.direction;
-      }
-
-      if (this.simRunning && simObject.type === 'twirl') {
-        simObject.pulsePhase = (simObject.pulsePhase + deltaSeconds * simObject.pulseSpeed * 0.25) % 1;
-        const triangle = simObject.pulsePhase < 0.5 ? simObject.pulsePhase * 2 : (1 - (simObject.pulsePhase - 0.5) * 2);
-        const baseTriangle = simObject.id === 'white-ring' ? 1 - triangle : triangle;
-        simObject.pulseScale = 0.25 + 0.75 * clamp(baseTriangle, 0, 1);
-      }
-      if (simObject.type === 'twirl') {
-        twirlQueue.push(simObject);
-      } else {
-        sphereQueue.push(simObject);
-      }
-    }
-
-    if (beats > 0) {
-      const rotationStep = beats * this.rotationPerBeat;
-      if (this.dexels.length > 0) {
-        for (const dexel of this.dexels) {
-          dexel.primary.rotationY += rotationStep * dexel.primary.speedPerTick * dexel.primary.direction;
-          dexel.secondary.rotationY += rotationStep * dexel.secondary.speedPerTick * dexel.secondary.direction;
-        }
-      }
-      if (dexelQueue.length > 0) {
-        for (const dexel of dexelQueue) {
-          dexel.primary.rotationY += rotationStep * dexel.primary.speedPerTick * dexel.direction;
-          dexel.secondary.rotationY += rotationStep * dexel.secondary.speedPerTick * dexel.direction;
-        }
+      switch (simObject.type) {
+        case 'twirling-axis':
+          twirlingAxisQueue.push(simObject);
+          break;
+        case 'dexel':
+          dexelQueue.push(simObject);
+          break;
+        case 'twirl8':
+          twirl8Queue.push(simObject);
+          break;
+        case 'rgpXY':
+          rgpQueue.push(simObject);
+          break;
+        case 'twirl':
+          twirlQueue.push(simObject);
+          break;
+        default:
+          sphereQueue.push(simObject);
+          break;
       }
     }
 
     for (const sphereObject of sphereQueue) {
       const { modelMatrix, normalMatrix } = this.computeModelMatrices(sphereObject);
-      Assets.drawSphere(gl, sphereProgram, sphereObject.mesh, {
+      Assets.drawSphere(gl, sphereProgram, sphereMesh, {
         modelMatrix,
         normalMatrix,
         shadingIntensity: sphereObject.shadingIntensity,
@@ -769,7 +746,7 @@ export class App {
     }
 
     const patternRepeats = Math.max(1, this.sphereSegments.lon / 2);
-    const hasTwirlContent = twirlQueue.length > 0 || rgpQueue.length > 0 || this.dexels.length > 0 || dexelQueue.length > 0;
+    const hasTwirlContent = twirlQueue.length > 0 || rgpQueue.length > 0 || dexelQueue.length > 0;
 
     if (hasTwirlContent) {
       const sortedTwirlQueue = [...twirlQueue].sort((a, b) => b.shellSize - a.shellSize);
@@ -781,7 +758,7 @@ export class App {
 
       for (const twirlObject of sortedTwirlQueue) {
         const { modelMatrix, normalMatrix } = this.computeModelMatrices(twirlObject);
-        Assets.drawTwirl(gl, twirlProgram, twirlObject.mesh, {
+        Assets.drawTwirl(gl, twirlProgram, twirlMesh, {
           modelMatrix,
           normalMatrix,
           baseColor: this.getBaseColorVector(twirlObject.baseColor, twirlObject.opacity),
@@ -799,16 +776,14 @@ export class App {
       }
 
       for (const rgpObject of rgpQueue) {
-        this.drawRgpRing(gl, twirlProgram, rgpObject.mesh, rgpObject.size, rgpObject.secondary, patternRepeats);
-        this.drawRgpRing(gl, twirlProgram, rgpObject.mesh, rgpObject.size, rgpObject.primary, patternRepeats);
+        this.drawRgpRing(gl, twirlProgram, twirlMesh, rgpObject.size, rgpObject.secondary, patternRepeats);
+        this.drawRgpRing(gl, twirlProgram, twirlMesh, rgpObject.size, rgpObject.primary, patternRepeats);
       }
 
       if (dexelQueue.length > 0) {
-        this.drawDexelCollection(gl, twirlProgram, patternRepeats, dexelQueue);
+        this.drawDexelCollection(gl, twirlProgram, twirlMesh, patternRepeats, dexelQueue);
       }
 
-      this.drawDexelCollection(gl, twirlProgram, patternRepeats, this.dexels);
-
       gl.disable(gl.BLEND);
 
       // Restore sphere program for axis rendering.
@@ -816,7 +791,9 @@ export class App {
       Assets.setSphereSharedUniforms(gl, sphereProgram, sharedUniforms);
     }
 
-    this.drawGhostParticles(gl, sphereProgram);
+    this.drawGhostTrails(gl);
+    Assets.useSphereProgram(gl, sphereProgram);
+    Assets.setSphereSharedUniforms(gl, sphereProgram, sharedUniforms);
 
     if (twirl8Queue.length > 0 && this.twirl8Program && this.twirl8OutlineProgram && this.twirl8Mesh) {
       Assets.useTwirl8Program(gl, this.twirl8Program);
@@ -836,34 +813,14 @@ export class App {
       }> = [];
 
       for (const ring of twirl8Queue) {
-        const linkedPulse = ring.linkedRingState ? clamp(ring.linkedRingState.pulseScale, 0, 1) : null;
-        const normalizedRotation = ((ring.rotationY / (Math.PI * 2)) % 1 + 1) % 1;
-        const rotationPulse =
-          normalizedRotation < 0.5
-            ? normalizedRotation * 2
-            : (1 - normalizedRotation) * 2;
-        let basePulse = linkedPulse ?? rotationPulse;
-        if (ring.invertPulse) {
-          basePulse = 1 - basePulse;
-        }
-
+        const basePulse = getTwirl8Pulse(ring);
         const radiusFactor = basePulse;
         const widthFactor = basePulse;
 
-        const collapsedThreshold = 0.05;
-        if (radiusFactor <= collapsedThreshold) {
-          if (!ring.wasCollapsed) {
-            ring.lobeOrientation = ring.lobeOrientation === 1 ? -1 : 1;
-            ring.wasCollapsed = true;
-          }
-        } else if (ring.wasCollapsed) {
-          ring.wasCollapsed = false;
-        }
-
         const dynamicLobeAngle = ring.lobeAngle * ring.lobeOrientation;
 
         const effectiveRadius = Math.max(0, ring.radius * radiusFactor);
-        const modelMatrix = this.buildTwirl8ModelMatrix(ring.axis, effectiveRadius, ring.rotationY);
+        const modelMatrix = computeTwirl8ModelMatrix(ring.axis, effectiveRadius, ring.rotationY);
         const colorVec = this.getBaseColorVector(ring.color, ring.opacity);
         const backColorVec = this.getBaseColorVector(ring.backColor, ring.opacity);
         const sizeValue = Math.max(0, ring.size * widthFactor);
@@ -920,9 +877,9 @@ export class App {
       gl.blendFunc(gl.SRC_ALPHA, gl.ONE_MINUS_SRC_ALPHA);
 
       for (const axisObject of twirlingAxisQueue) {
-        const { modelMatrix, normalMatrix } = this.computeTwirlingAxisMatrices(axisObject);
+        const { modelMatrix, normalMatrix } = computeTwirlingAxisMatrices(axisObject);
         const axisOpacity = clamp(this.getAxisOpacityAlpha() * axisObject.opacity, 0, 1);
-        Assets.drawTwirlingAxis(gl, axisProgram, axisObject.mesh, {
+        Assets.drawTwirlingAxis(gl, axisProgram, this.ensureTwirlingAxisMesh(), {
           modelMatrix,
           normalMatrix,
           clipEnabled: false,
@@ -964,242 +921,214 @@ export class App {
       Assets.useSphereProgram(gl, sphereProgram);
       Assets.setSphereSharedUniforms(gl, sphereProgram, sharedUniforms);
     }
+
+    this.drawHighlights(gl);
+    Assets.useSphereProgram(gl, sphereProgram);
+    Assets.setSphereSharedUniforms(gl, sphereProgram, sharedUniforms);
   }
 
-  private loadSegment(segmentId: string): void {
-    const segment = this.segmentDefinitions.find((definition) => definition.id === segmentId);
-    if (!segment) {
-      return;
+  // Outlines the selected and hovered objects on top of everything else, so the active ring stays
+  // visible even when other rings overlap it.
+  private drawHighlights(gl: WebGLRenderingContext): void {
+    const highlighted: Array<[SimObject, Float32Array]> = [];
+    const selected = this.getSelectedSimObject();
+    if (selected?.visible) {
+      highlighted.push([selected, SELECTION_HIGHLIGHT_COLOR]);
     }
-
-    this.selectedSegmentId = segmentId;
-    const lockCamera = segment.id === 'RGP_Pray';
-    this.camera.setLockToOrigin(lockCamera);
-
-    if (!this.gl) {
+    const hovered = this.hoveredObjectId ? this.world.findObject(this.hoveredObjectId) : null;
+    if (hovered?.visible && hovered !== selected) {
+      highlighted.push([hovered, HOVER_HIGHLIGHT_COLOR]);
+    }
+    if (highlighted.length === 0 || !this.highlightProgram || !this.highlightMesh) {
       return;
     }
 
-    this.ghostParticles = [];
-
-    this.simObjects.length = 0;
-    const rgpById = new Map<string, RgpXYObject>();
-    for (const objectDef of segment.objects) {
-      if (objectDef.type === 'twirl') {
-        const mesh = this.ensureTwirlMesh();
-        const initialPhase = clamp(objectDef.initialPulsePhase ?? 0, 0, 1);
-        const phaseTriangle =
-          initialPhase < 0.5 ? initialPhase * 2 : 1 - (initialPhase - 0.5) * 2;
-        const initialTriangle =
-          objectDef.id === 'white-ring' ? 1 - phaseTriangle : phaseTriangle;
-        const initialScale =
-          objectDef.initialPulseScale ??
-          (0.25 + 0.75 * clamp(initialTriangle, 0, 1));
-        this.simObjects.push({
-          type: 'twirl',
-          id: objectDef.id,
-          mesh,
-          rotationY: objectDef.initialRotationY ?? 0,
-          speedPerTick: objectDef.speedPerTick,
-          direction: objectDef.direction,
-          plane: objectDef.plane,
-          shellSize: objectDef.shellSize ?? this.defaultShellSize,
-          baseColor: objectDef.baseColor ?? 'azure',
-          visible: objectDef.visible ?? true,
-          shadingIntensity: clamp(objectDef.shadingIntensity ?? this.shadingIntensity, 0, 1),
-          opacity: clamp(objectDef.opacity ?? 1, 0, 1),
-          beltHalfAngle: Math.max(0.01, objectDef.beltHalfAngle),
-          pulseSpeed: Math.max(0, objectDef.pulseSpeed),
-          pulsePhase: initialPhase,
-          pulseScale: initialScale,
-        });
-      } else if (objectDef.type === 'rgpXY') {
-        const mesh = this.ensureTwirlMesh();
-        const primary = this.createRgpRingState(RGP_PRIMARY_CONFIG);
-        const secondary = this.createRgpRingState(RGP_SECONDARY_CONFIG);
-        primary.visible = objectDef.primaryVisible ?? true;
-        secondary.visible = objectDef.secondaryVisible ?? true;
-        const rgpObject: RgpXYObject = {
-          type: 'rgpXY',
-          id: objectDef.id,
-          mesh,
-          size: Math.max(0.1, objectDef.size),
-          visible: objectDef.visible ?? true,
-          speedPerTick: 1,
-          direction: 1,
-          primary,
-          secondary,
-          sphereColor: new Float32Array(RGP_SPHERE_COLOR),
-          sphereOpacity: RGP_SPHERE_OPACITY,
-          sphereVisible: objectDef.sphereVisible ?? true,
-          primaryTwirl: null,
-          secondaryTwirl: null,
-        };
-        this.simObjects.push(rgpObject);
-        rgpById.set(rgpObject.id, rgpObject);
-      } else if (objectDef.type === 'dexel') {
-        const mesh = this.ensureTwirlMesh();
-        const baseSpeed = objectDef.speedPerTick ?? 1;
-        const direction = objectDef.direction ?? 1;
-        const primarySpeedRatio = objectDef.primarySpeedRatio ?? DEXEL_PRIMARY_RATIO;
-        const secondarySpeedRatio = objectDef.secondarySpeedRatio ?? DEXEL_SECONDARY_RATIO;
-
-        const primary = this.createRgpRingState({
-          ...RGP_PRIMARY_CONFIG,
-          speedPerTick: baseSpeed * primarySpeedRatio,
-          direction,
-          initialRotationY: 0,
-          initialPulsePhase: 0,
-          initialPulseScale: 1,
-          pulseSpeed: 0,
-          invertPulse: RGP_PRIMARY_CONFIG.invertPulse,
-        });
-        const secondary = this.createRgpRingState({
-          ...RGP_SECONDARY_CONFIG,
-          speedPerTick: baseSpeed * secondarySpeedRatio,
-          direction,
-          initialRotationY: 0,
-          initialPulsePhase: 0,
-          initialPulseScale: 1,
-          pulseSpeed: 0,
-          invertPulse: RGP_SECONDARY_CONFIG.invertPulse,
-        });
+    const program = this.highlightProgram;
+    const mesh = this.highlightMesh;
+    const shared = { viewMatrix: this.viewMatrix, projectionMatrix: this.projectionMatrix };
 
-        primary.pulseScale = 1;
-        primary.pulsePhase = 0;
-        primary.pulseSpeed = 0;
-        primary.rotationY = 0;
-        secondary.pulseScale = 1;
-        secondary.pulsePhase = 0;
-        secondary.pulseSpeed = 0;
-        secondary.rotationY = 0;
-
-        const dexelObject: DexelObject = {
-          type: 'dexel',
-          id: objectDef.id,
-          mesh,
-          anchorId: objectDef.anchorId ?? null,
-          axis: objectDef.axis,
-          sign: objectDef.sign,
-          size: Math.max(0.1, objectDef.size),
-          speedPerTick: Math.max(0.1, baseSpeed),
-          direction: direction >= 0 ? 1 : -1,
-          visible: objectDef.visible ?? false,
-          position: new Float32Array([0, 0, 0]),
-          primary,
-          secondary,
-          primarySpeedRatio,
-          secondarySpeedRatio,
-        };
-
-        this.syncDexelRingSpeeds(dexelObject);
-        this.simObjects.push(dexelObject);
-        this.updateDexelAssetPosition(dexelObject);
-      } else if (objectDef.type === 'twirl8') {
-        const def = objectDef as Twirl8ObjectDefinition;
-        const hasExplicitSize = typeof def.size === 'number' && Number.isFinite(def.size);
-        const rawSize = hasExplicitSize ? def.size : def.width;
-        const size = Math.max(0.1, rawSize ?? 1);
-        let lobeWidth: number;
-        if (hasExplicitSize) {
-          lobeWidth = Math.max(0.01, def.width ?? size);
-        } else {
-          lobeWidth = Math.max(0.01, size);
+    gl.disable(gl.DEPTH_TEST);
+    gl.enable(gl.BLEND);
+    gl.blendFunc(gl.SRC_ALPHA, gl.ONE_MINUS_SRC_ALPHA);
+    Assets.useHighlightProgram(gl, program);
+    Assets.setHighlightSharedUniforms(gl, program, shared);
+
+    const twirl8Targets: Array<[Twirl8Object, Float32Array]> = [];
+    for (const [simObject, color] of highlighted) {
+      switch (simObject.type) {
+        case 'sphere': {
+          const radius = Math.max(0.01, simObject.shellSize / DEFAULT_SHELL_SIZE);
+          for (const scale of HIGHLIGHT_OUTLINE_SCALES) {
+            Assets.drawHighlightCircle(gl, program, mesh, {
+              modelMatrix: this.buildSilhouetteMatrix(radius * scale),
+              color,
+            });
+          }
+          break;
         }
-        const lobeAngle = (def.lobeRotationDeg ?? 20) * DEG_TO_RAD;
-        const twirl8Object: Twirl8Object = {
-          type: 'twirl8',
-          id: def.id,
-          axis: def.axis,
-          radius: Math.max(0.01, def.radius),
-          color: def.color,
-          backColor: def.backColor ?? def.color,
-          opacity: clamp(def.opacity ?? 1, 0, 1),
-          visible: def.visible ?? true,
-          size,
-          width: lobeWidth,
-          lobeAngle,
-          lobeOrientation: 1,
-          wasCollapsed: false,
-          rotationY: (def.initialRotationDeg ?? 0) * DEG_TO_RAD,
-          speedPerTick: Math.max(0.1, def.speedPerTick ?? 1),
-          direction: def.direction ?? 1,
-          invertPulse: def.invertPulse ?? false,
-          linkedRingState: null,
-          linkedRingType: null,
-        };
-        this.simObjects.push(twirl8Object);
-
-        let targetRgp: RgpXYObject | null = null;
-        if (rgpById.size === 1) {
-          const iterator = rgpById.values().next();
-          targetRgp = iterator.value ?? null;
-        } else {
-          targetRgp = rgpById.get('rgp-xy') ?? rgpById.values().next().value ?? null;
+        case 'twirl': {
+          const { modelMatrix } = this.computeModelMatrices(simObject);
+          this.drawRimHighlights(gl, program, mesh, modelMatrix, color);
+          break;
         }
-        if (targetRgp) {
-          const idLower = twirl8Object.id.toLowerCase();
-          if (idLower.includes('k1')) {
-            targetRgp.primaryTwirl = twirl8Object;
-            twirl8Object.linkedRingState = targetRgp.primary;
-            twirl8Object.linkedRingType = 'primary';
-          } else if (idLower.includes('p2')) {
-            targetRgp.secondaryTwirl = twirl8Object;
-            twirl8Object.linkedRingState = targetRgp.secondary;
-            twirl8Object.linkedRingType = 'secondary';
+        case 'rgpXY':
+        case 'dexel':
+          for (const ring of [simObject.primary, simObject.secondary]) {
+            if (!ring.visible) {
+              continue;
+            }
+            const { modelMatrix } = this.buildTwirlMatrices(
+              ring.plane,
+              ring.rotationY,
+              Math.max(1, simObject.size * ring.shellScale),
+              ring.pulseScale,
+              ring.beltHalfAngle,
+            );
+            const placed =
+              simObject.type === 'dexel' ? mat4Multiply(this.translationMatrix(simObject.position), modelMatrix) : modelMatrix;
+            this.drawRimHighlights(gl, program, mesh, placed, color);
+          }
+          break;
+        case 'twirling-axis': {
+          const { modelMatrix } = computeTwirlingAxisMatrices(simObject);
+          // Stretch the cross a little so it reaches past the end balls.
+          for (const scale of HIGHLIGHT_OUTLINE_SCALES) {
+            Assets.drawHighlightCross(gl, program, mesh, {
+              modelMatrix: mat4Multiply(modelMatrix, mat4ScaleUniform(scale * 1.1)),
+              color,
+            });
           }
+          break;
         }
-      } else if (objectDef.type === 'twirling-axis') {
-        const mesh = this.ensureTwirlingAxisMesh();
-        const scriptSource = objectDef.rotationScript ?? DEFAULT_TWIRLING_AXIS_SCRIPT;
-        const { steps, normalized } = this.safeParseRotationScript(scriptSource);
-        this.simObjects.push({
-          type: 'twirling-axis',
-          id: objectDef.id,
-          mesh,
-          rotationX: objectDef.initialRotationX ?? 0,
-          rotationY: objectDef.initialRotationY ?? 0,
-          rotationZ: objectDef.initialRotationZ ?? 0,
-          speedPerTick: objectDef.speedPerTick,
-          direction: objectDef.direction,
-          visible: objectDef.visible ?? true,
-          size: Math.max(0.01, objectDef.size ?? 1),
-          opacity: clamp(objectDef.opacity ?? 1, 0, 1),
-          rotationScript: steps,
-          rotationScriptSource: normalized,
-          scriptIndex: 0,
-          beatAccumulator: 0,
-          currentDirection: objectDef.direction >= 0 ? 1 : -1,
-        });
-      } else {
-        const mesh = this.ensureSphereMesh();
-        this.simObjects.push({
-          type: 'sphere',
-          id: objectDef.id,
-          mesh,
-          rotationY: objectDef.initialRotationY ?? 0,
-          speedPerTick: objectDef.speedPerTick,
-          direction: objectDef.direction,
-          plane: objectDef.plane,
-          shellSize: objectDef.shellSize ?? this.defaultShellSize,
-          baseColor: objectDef.baseColor ?? 'azure',
-          visible: objectDef.visible ?? true,
-          shadingIntensity: clamp(objectDef.shadingIntensity ?? this.shadingIntensity, 0, 1),
-          opacity: clamp(objectDef.opacity ?? 1, 0, 1),
-        });
+        case 'twirl8':
+          twirl8Targets.push([simObject, color]);
+          break;
       }
     }
 
-    for (const simObject of this.simObjects) {
-      if (simObject.type === 'dexel') {
-        this.updateDexelAssetPosition(simObject);
+    if (twirl8Targets.length > 0 && this.twirl8OutlineProgram && this.twirl8Mesh) {
+      Assets.useTwirl8OutlineProgram(gl, this.twirl8OutlineProgram);
+      Assets.setTwirl8OutlineSharedUniforms(gl, this.twirl8OutlineProgram, shared);
+      for (const [ring, color] of twirl8Targets) {
+        const pulse = getTwirl8Pulse(ring);
+        const modelMatrix = computeTwirl8ModelMatrix(ring.axis, Math.max(0, ring.radius * pulse), ring.rotationY);
+        for (const scale of HIGHLIGHT_OUTLINE_SCALES) {
+          Assets.drawTwirl8Outline(gl, this.twirl8OutlineProgram, this.twirl8Mesh, {
+            modelMatrix,
+            color,
+            backColor: color,
+            size: Math.max(0, ring.size * pulse) * scale * 1.05,
+            lobeWidth: Math.max(0, ring.width * pulse) * scale * 1.05,
+            lobeRotation: ring.lobeAngle * ring.lobeOrientation,
+          });
+        }
       }
     }
 
+    gl.disable(gl.BLEND);
+    gl.enable(gl.DEPTH_TEST);
+  }
+
+  // Traces the top and bottom rims of a twirl-mesh band drawn with the given model matrix.
+  private drawRimHighlights(
+    gl: WebGLRenderingContext,
+    program: HighlightProgram,
+    mesh: HighlightMesh,
+    modelMatrix: Float32Array,
+    color: Float32Array,
+  ): void {
+    for (const rimHeight of [TWIRL_MESH_HALF_HEIGHT, -TWIRL_MESH_HALF_HEIGHT]) {
+      for (const scale of HIGHLIGHT_OUTLINE_SCALES) {
+        const rim = mat4Multiply(this.translationMatrix(new Float32Array([0, rimHeight, 0])), mat4Scale(scale, 1, scale));
+        Assets.drawHighlightCircle(gl, program, mesh, { modelMatrix: mat4Multiply(modelMatrix, rim), color });
+      }
+    }
+  }
+
+  // Unit circle (XZ plane) turned to face the camera, so it traces a sphere's silhouette.
+  private buildSilhouetteMatrix(radius: number): Float32Array {
+    const view = this.viewMatrix;
+    return new Float32Array([
+      view[0] * radius, view[4] * radius, view[8] * radius, 0,
+      view[2] * radius, view[6] * radius, view[10] * radius, 0,
+      view[1] * radius, view[5] * radius, view[9] * radius, 0,
+      0, 0, 0, 1,
+    ]);
+  }
+
+  // Settings are applied only when a segment is selected: resets and seeks rebuild the segment
+  // but keep the camera, speed and axes the user has since chosen.
+  private loadSegment(segmentId: string, applySettings: boolean): void {
+    const segment = this.segmentDefinitions.find((definition) => definition.id === segmentId);
+    if (!segment) {
+      return;
+    }
+    if (segment.error) {
+      log('dsl', `Segment ${segment.id} cannot be loaded: ${segment.error}`, { level: 'error' });
+      return;
+    }
+
+    this.selectedSegmentId = segmentId;
+    this.time.reset();
+    this.interpolationSnapshot.clear();
+    if (segment.script.length > 0) {
+      // Scripted segments own the timeline; re-running the script below rebuilds it.
+      this.timeline.clear();
+    } else {
+      this.timeline.rewind();
+    }
+    if (applySettings) {
+      this.applySegmentSettings(segment.settings);
+    }
+
+    this.world.load(segment.objects);
+    this.addSegmentGhosts(segment);
+    this.cameraPath.clear();
+    this.camera.stopPath();
+
     this.selectedObjectId = segment.objects[0]?.id ?? null;
+    if (segment.script.length > 0) {
+      this.commands.execute(segment.script, segment.source ?? segment.id);
+    }
     this.notifySimChange();
   }
 
+  private getSelectedSegmentSettings(): SegmentSettings {
+    const segment = this.segmentDefinitions.find((definition) => definition.id === this.selectedSegmentId);
+    return segment?.settings ?? {};
+  }
+
+  private applySegmentSettings(settings: SegmentSettings): void {
+    this.camera.setLockToOrigin(settings.cameraLock ?? false);
+    this.backgroundColor = settings.backgroundColor ?? DEFAULT_BACKGROUND_COLOR;
+    if (settings.camera) {
+      this.camera.setState(settings.camera);
+    }
+    if (settings.simSpeed !== undefined) {
+      this.time.setBeatsPerSecond(settings.simSpeed);
+    }
+    // A segment's axis choice lasts until the next load; it is not written to the display settings.
+    if (settings.axisVisibility) {
+      this.axisVisibility = { ...this.axisVisibility, ...settings.axisVisibility };
+    }
+  }
+
+  // Segment `ghosts` are persistent markers in the trail system: they never fade and survive
+  // "Clear Trails", but go away with the segment.
+  private addSegmentGhosts(segment: SimulationSegmentDefinition): void {
+    for (const ghost of segment.ghosts) {
+      this.world.ghostTrails.emit({
+        emitterId: ghost.id,
+        ownerId: ghost.id,
+        position: ghost.position,
+        color: ghost.color,
+        radius: ghost.radius,
+        opacity: ghost.opacity,
+        persistent: true,
+      });
+    }
+  }
+
   private ensureSphereMesh(): SphereMesh {
     if (!this.sphereMesh) {
       if (!this.gl) {
@@ -1234,7 +1163,6 @@ export class App {
     return this.twirlingAxisMesh;
   }
 
-
   private drawAxisSet(
     gl: WebGLRenderingContext,
     program: AxisProgram,
@@ -1272,57 +1200,106 @@ export class App {
   }
 
   startSimulation(): void {
-    if (!this.simRunning) {
-      this.simRunning = true;
+    // A recording steps the clock itself; free-running ticks would land between its frames.
+    if (!this.time.isRunning() && !this.recording) {
+      this.time.start();
       this.lastRenderTime = performance.now();
       this.notifySimChange();
     }
   }
 
   stopSimulation(): void {
-    if (this.simRunning) {
-      this.simRunning = false;
+    if (this.time.isRunning()) {
+      this.time.pause();
       this.notifySimChange();
     }
   }
 
+  stepSimulation(ticks = 1): void {
+    this.time.step(ticks);
+    this.interpolationSnapshot.clear();
+    this.notifySimChange();
+  }
+
+  stepSimulationBeats(beats = 1): void {
+    this.stepSimulation(Math.max(1, this.time.ticksForBeats(beats)));
+  }
+
+  // Rebuilds the segment and replays fixed ticks until the target beat, so every object type and
+  // scheduled event lands exactly where an uninterrupted run would have put it.
+  seekToBeat(beat: number): void {
+    const wasRunning = this.time.isRunning();
+    this.resetSimulation();
+    this.time.step(this.time.ticksForBeats(Math.max(0, beat)));
+    this.interpolationSnapshot.clear();
+    if (wasRunning) {
+      this.startSimulation();
+    }
+    this.notifySimChange();
+  }
+
+  setPlaybackRate(rate: number): void {
+    const previous = this.time.getPlaybackRate();
+    this.time.setPlaybackRate(rate);
+    if (this.time.getPlaybackRate() !== previous) {
+      this.notifySimChange();
+    }
+  }
+
+  getPlaybackRate(): number {
+    return this.time.getPlaybackRate();
+  }
+
+  /** Moves to the next faster (1) or slower (-1) entry of PLAYBACK_RATE_PRESETS. */
+  stepPlaybackRate(direction: 1 | -1): void {
+    const current = this.time.getPlaybackRate();
+    const candidates = direction > 0
+      ? PLAYBACK_RATE_PRESETS.filter((rate) => rate > current + 1e-9)
+      : PLAYBACK_RATE_PRESETS.filter((rate) => rate < current - 1e-9).reverse();
+    if (candidates.length > 0) {
+      this.setPlaybackRate(candidates[0]);
+    }
+  }
+
   resetSimulation(): void {
     const targetSegment = this.selectedSegmentId ?? this.segmentDefinitions[0]?.id ?? null;
     this.stopSimulation();
-    this.ghostParticles = [];
-    this.dexels = [];
-    this.dexelLastSign = { x: 1, y: 1, z: 1 };
+    this.world.clear();
     if (targetSegment) {
-      this.loadSegment(targetSegment);
+      this.loadSegment(targetSegment, false);
     } else {
-      this.simObjects.length = 0;
       this.selectedObjectId = null;
       this.notifySimChange();
     }
   }
 
   isSimulationRunning(): boolean {
-    return this.simRunning;
+    return this.time.isRunning();
   }
 
   setSimulationSpeed(speed: number): void {
-    const clamped = clamp(speed, 1, 60);
-    if (clamped !== this.simSpeed) {
-      this.simSpeed = clamped;
+    const previous = this.time.getBeatsPerSecond();
+    this.time.setBeatsPerSecond(speed);
+    if (this.time.getBeatsPerSecond() !== previous) {
       this.notifySimChange();
     }
   }
 
   getSimulationSpeed(): number {
-    return this.simSpeed;
+    return this.time.getBeatsPerSecond();
   }
 
   getSimObjects(): ReadonlyArray<SimObject> {
-    return [...this.simObjects];
+    return [...this.world.objects];
   }
 
-  getSimulationSegments(): ReadonlyArray<{ id: string; name: string }> {
-    return this.segmentDefinitions.map(({ id, name }) => ({ id, name }));
+  /** Dexels the RGP spawned, in the order they grew. */
+  getLatticeDexels(rgpId: string): ReadonlyArray<DexelObject> {
+    return this.world.getLatticeDexels(rgpId);
+  }
+
+  getSimulationSegments(): ReadonlyArray<{ id: string; name: string; error?: string }> {
+    return this.segmentDefinitions.map(({ id, name, error }) => ({ id, name, error }));
   }
 
   getSelectedSimulationSegmentId(): string | null {
@@ -1333,7 +1310,274 @@ export class App {
     if (this.selectedSegmentId === id) {
       return;
     }
-    this.loadSegment(id);
+    this.timeline.clear();
+    this.loadSegment(id, true);
+  }
+
+  getCameraBookmarks(): ReadonlyArray<CameraBookmark> {
+    return this.selectedSegmentId ? this.cameraBookmarks[this.selectedSegmentId] ?? [] : [];
+  }
+
+  /**
+   * Stores the current camera under `name` for the loaded segment. Passing a slot overwrites that
+   * bookmark (or appends when the slot is past the end); otherwise a bookmark with the same name
+   * is replaced before a new one is appended.
+   */
+  saveCameraBookmark(name: string, slot?: number): CameraBookmark | null {
+    const segmentId = this.selectedSegmentId;
+    if (!segmentId) {
+      return null;
+    }
+    const bookmarks = [...(this.cameraBookmarks[segmentId] ?? [])];
+    let index = slot ?? bookmarks.findIndex((bookmark) => bookmark.name === name.trim());
+    if (index < 0 || index >= bookmarks.length) {
+      index = bookmarks.length;
+    }
+    if (index >= CAMERA_BOOKMARK_SLOTS) {
+      log('camera', `Segment ${segmentId} already has ${CAMERA_BOOKMARK_SLOTS} camera bookmarks`);
+      return null;
+    }
+
+    const bookmark: CameraBookmark = {
+      name: name.trim() || `View ${index + 1}`,
+      camera: { ...this.camera.getState() },
+    };
+    bookmarks[index] = bookmark;
+    this.cameraBookmarks[segmentId] = bookmarks;
+    this.persistCameraBookmarks();
+    log('camera', `Saved camera bookmark ${index + 1} “${bookmark.name}” for ${segmentId}`);
+    this.notifySimChange();
+    return bookmark;
+  }
+
+  recallCameraBookmark(slot: number): boolean {
+    const bookmark = this.getCameraBookmarks()[slot];
+    if (!bookmark) {
+      return false;
+    }
+    this.camera.flyTo(bookmark.camera, CAMERA_FLIGHT_DURATION_MS);
+    log('camera', `Flying to camera bookmark ${slot + 1} “${bookmark.name}”`);
+    return true;
+  }
+
+  deleteCameraBookmark(slot: number): void {
+    const segmentId = this.selectedSegmentId;
+    const bookmarks = segmentId ? this.cameraBookmarks[segmentId] : undefined;
+    if (!segmentId || !bookmarks?.[slot]) {
+      return;
+    }
+    this.cameraBookmarks[segmentId] = bookmarks.filter((_, index) => index !== slot);
+    this.persistCameraBookmarks();
+    this.notifySimChange();
+  }
+
+  getCameraPath(): CameraPath {
+    return this.cameraPath;
+  }
+
+  hasCameraPath(): boolean {
+    return !this.cameraPath.isEmpty();
+  }
+
+  isCameraPathPlaying(): boolean {
+    return this.camera.isPlayingPath();
+  }
+
+  /** Lets the segment's camera path drive the view; pointer input or a bookmark hands it back. */
+  playCameraPath(): void {
+    if (this.cameraPath.isEmpty() || this.camera.isPlayingPath()) {
+      return;
+    }
+    this.camera.playPath(this.cameraPath);
+    this.notifySimChange();
+  }
+
+  stopCameraPath(): void {
+    if (!this.camera.isPlayingPath()) {
+      return;
+    }
+    this.camera.stopPath();
+    this.notifySimChange();
+  }
+
+  isRecording(): boolean {
+    return this.recording !== null;
+  }
+
+  /** Renders the current frame at `scale` × the canvas resolution and encodes it as a PNG. */
+  captureFrame(scale = 1): Promise<Blob> {
+    const frame = this.readFramePixels(scale);
+    return encodePng(flipPixelRows(frame.pixels, frame.width, frame.height), frame.width, frame.height);
+  }
+
+  /** Captures one PNG and uploads it to the dev export route; resolves with the file name. */
+  async captureSnapshot(scale = 1, name?: string): Promise<string> {
+    const fileName = `${sanitizeExportName(name ?? `${this.selectedSegmentId ?? 'scene'}-beat${Math.floor(this.time.getBeat())}`)}.png`;
+    const blob = await this.captureFrame(scale);
+    await uploadExport(fileName, blob);
+    log('capture', `Exported ${fileName} (${Math.round(blob.size / 1024)} KiB)`);
+    return fileName;
+  }
+
+  /**
+   * Pauses the simulation and exports one numbered PNG per fixed tick for the next `beats` beats,
+   * stepping the clock itself between frames so the sequence does not depend on the frame rate.
+   * Resolves with the number of frames written; cancelRecording() stops after the current frame.
+   */
+  async recordBeats(beats: number, options: RecordOptions = {}): Promise<number> {
+    if (this.recording) {
+      throw new Error('A recording is already in progress.');
+    }
+    if (!this.gl || !this.canvas) {
+      throw new Error('Cannot record before the viewport is mounted.');
+    }
+    const total = this.time.ticksForBeats(beats);
+    if (!(total > 0)) {
+      throw new Error(`Record length must be a positive number of beats, got ${beats}.`);
+    }
+
+    const prefix = options.name ?? `${this.selectedSegmentId ?? 'scene'}-beat${Math.floor(this.time.getBeat())}`;
+    const scale = options.scale ?? 1;
+    const recording = { cancelled: false };
+    this.stopSimulation();
+    this.recording = recording;
+    this.notifySimChange();
+    log('capture', `Recording ${total} frames (${beats} beats) as ${formatFrameName(prefix, 0, total)}…`);
+
+    let written = 0;
+    try {
+      while (written < total && !recording.cancelled) {
+        this.camera.updatePath(this.time.getBeat(), (target) => this.resolveCameraFollow(target));
+        const blob = await this.captureFrame(scale);
+        await uploadExport(formatFrameName(prefix, written, total), blob);
+        written += 1;
+        options.onProgress?.(written, total);
+        this.stepSimulation(1);
+      }
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      log('capture', `Recording stopped after ${written} frames: ${message}`, { level: 'error' });
+      throw error;
+    } finally {
+      this.recording = null;
+      this.notifySimChange();
+    }
+    log('capture', `${recording.cancelled ? 'Cancelled recording' : 'Recorded'} ${written} of ${total} frames`);
+    return written;
+  }
+
+  cancelRecording(): void {
+    if (this.recording) {
+      this.recording.cancelled = true;
+    }
+  }
+
+  isVideoRecording(): boolean {
+    return this.videoRecorder !== null;
+  }
+
+  /** Starts a WebM recording of the viewport at `frameRate`, optionally burning in segment and beat. */
+  startVideoRecording(options: { frameRate: number; burnIn: boolean }): void {
+    if (this.videoRecorder) {
+      return;
+    }
+    if (!this.canvas) {
+      throw new Error('Cannot record before the viewport is mounted.');
+    }
+    this.videoRecorder = new VideoRecorder(this.canvas, {
+      frameRate: options.frameRate,
+      getBurnIn: options.burnIn
+        ? () => {
+            const segment = this.segmentDefinitions.find((candidate) => candidate.id === this.selectedSegmentId);
+            return formatBurnIn(segment?.name ?? null, this.time.getBeat());
+          }
+        : undefined,
+    });
+    this.videoRecorder.start();
+    log('capture', `Started ${options.frameRate} fps WebM recording`);
+    this.notifySimChange();
+  }
+
+  /** Stops the WebM recording and resolves with the video file. */
+  async stopVideoRecording(): Promise<Blob> {
+    const recorder = this.videoRecorder;
+    if (!recorder) {
+      throw new Error('No video recording in progress.');
+    }
+    this.videoRecorder = null;
+    this.notifySimChange();
+    const blob = await recorder.stop();
+    log('capture', `Stopped WebM recording (${Math.round(blob.size / 1024)} KiB)`);
+    return blob;
+  }
+
+  // Draws into an offscreen framebuffer instead of enabling preserveDrawingBuffer, so captures can
+  // exceed the canvas resolution and normal frames keep the faster swap behaviour.
+  private readFramePixels(scale: number): { pixels: Uint8Array; width: number; height: number } {
+    const gl = this.gl;
+    const canvas = this.canvas;
+    if (!gl || !canvas) {
+      throw new Error('Cannot capture before the viewport is mounted.');
+    }
+    const limit = Math.min(
+      gl.getParameter(gl.MAX_RENDERBUFFER_SIZE) as number,
+      gl.getParameter(gl.MAX_TEXTURE_SIZE) as number,
+      ...(gl.getParameter(gl.MAX_VIEWPORT_DIMS) as Int32Array),
+    );
+    const factor = Math.min(Math.max(scale, 0.1), limit / canvas.width, limit / canvas.height);
+    const width = Math.max(1, Math.floor(canvas.width * factor));
+    const height = Math.max(1, Math.floor(canvas.height * factor));
+
+    const texture = gl.createTexture();
+    const depth = gl.createRenderbuffer();
+    const framebuffer = gl.createFramebuffer();
+    if (!texture || !depth || !framebuffer) {
+      throw new Error('Failed to allocate capture framebuffer.');
+    }
+    try {
+      gl.bindTexture(gl.TEXTURE_2D, texture);
+      gl.texImage2D(gl.TEXTURE_2D, 0, gl.RGBA, width, height, 0, gl.RGBA, gl.UNSIGNED_BYTE, null);
+      gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_MIN_FILTER, gl.LINEAR);
+      gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_WRAP_S, gl.CLAMP_TO_EDGE);
+      gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_WRAP_T, gl.CLAMP_TO_EDGE);
+      gl.bindRenderbuffer(gl.RENDERBUFFER, depth);
+      gl.renderbufferStorage(gl.RENDERBUFFER, gl.DEPTH_COMPONENT16, width, height);
+      gl.bindFramebuffer(gl.FRAMEBUFFER, framebuffer);
+      gl.framebufferTexture2D(gl.FRAMEBUFFER, gl.COLOR_ATTACHMENT0, gl.TEXTURE_2D, texture, 0);
+      gl.framebufferRenderbuffer(gl.FRAMEBUFFER, gl.DEPTH_ATTACHMENT, gl.RENDERBUFFER, depth);
+      if (gl.checkFramebufferStatus(gl.FRAMEBUFFER) !== gl.FRAMEBUFFER_COMPLETE) {
+        throw new Error(`Capture framebuffer incomplete at ${width}×${height}.`);
+      }
+
+      this.render(width, height);
+      const pixels = new Uint8Array(width * height * 4);
+      gl.readPixels(0, 0, width, height, gl.RGBA, gl.UNSIGNED_BYTE, pixels);
+      return { pixels, width, height };
+    } finally {
+      gl.bindFramebuffer(gl.FRAMEBUFFER, null);
+      gl.bindRenderbuffer(gl.RENDERBUFFER, null);
+      gl.bindTexture(gl.TEXTURE_2D, null);
+      gl.deleteFramebuffer(framebuffer);
+      gl.deleteRenderbuffer(depth);
+      gl.deleteTexture(texture);
+      gl.viewport(0, 0, canvas.width, canvas.height);
+    }
+  }
+
+  getTimeline(): Timeline {
+    return this.timeline;
+  }
+
+  getTime(): Time {
+    return this.time;
+  }
+
+  getSimulationBeat(): number {
+    return this.time.getBeat();
+  }
+
+  getSimulationTick(): number {
+    return this.time.getTick();
   }
 
   onSimChange(listener: () => void): () => void {
@@ -1351,31 +1595,47 @@ export class App {
     this.notifySimChange();
   }
 
+  /** Casts a ray through the given client point and returns the nearest visible sim object it hits. */
+  pickSimObjectAt(clientX: number, clientY: number, bounds: DOMRect, paneId: ViewPaneId = 'free'): SimObject | null {
+    const matrices = this.paneMatrices.get(paneId);
+    if (!matrices) {
+      return null;
+    }
+    const ray = createPickRay(clientX, clientY, bounds, matrices.view, matrices.projection);
+    return ray ? pickNearest(ray, this.collectPickCandidates()) : null;
+  }
+
   getSelectedSimObject(): SimObject | null {
     if (!this.selectedObjectId) {
       return null;
     }
-    return this.simObjects.find((object) => object.id === this.selectedObjectId) ?? null;
+    return this.world.objects.find((object) => object.id === this.selectedObjectId) ?? null;
   }
 
   updateSelectedSimObject(update: SimObjectUpdatePayload): void {
-    const selected = this.getSelectedSimObject();
-    if (!selected) {
+    if (this.selectedObjectId) {
+      this.updateSimObject(this.selectedObjectId, update);
+    }
+  }
+
+  updateSimObject(id: string, update: SimObjectUpdatePayload): void {
+    const target = this.world.findObject(id);
+    if (!target) {
       return;
     }
 
     if (typeof update.speedPerTick === 'number' && Number.isFinite(update.speedPerTick)) {
       const nextSpeed = Math.max(0.1, update.speedPerTick);
-      switch (selected.type) {
+      switch (target.type) {
         case 'sphere':
         case 'twirl':
         case 'twirling-axis':
         case 'twirl8':
-          selected.speedPerTick = nextSpeed;
+          target.speedPerTick = nextSpeed;
           break;
         case 'dexel':
-          selected.speedPerTick = nextSpeed;
-          this.syncDexelRingSpeeds(selected);
+          target.speedPerTick = nextSpeed;
+          this.world.syncDexelRingSpeeds(target);
           break;
         default:
           break;
@@ -1384,17 +1644,17 @@ export class App {
 
     if (update.direction !== undefined) {
       const nextDirection = update.direction >= 0 ? 1 : -1;
-      switch (selected.type) {
+      switch (target.type) {
         case 'sphere':
         case 'twirl':
         case 'twirling-axis':
         case 'twirl8':
-          selected.direction = nextDirection;
+          target.direction = nextDirection;
           break;
         case 'dexel':
-          selected.direction = nextDirection;
-          selected.primary.direction = nextDirection;
-          selected.secondary.direction = nextDirection;
+          target.direction = nextDirection;
+          target.primary.direction = nextDirection;
+          target.secondary.direction = nextDirection;
           break;
         default:
           break;
@@ -1402,91 +1662,113 @@ export class App {
     }
 
     if (typeof update.visible === 'boolean') {
-      selected.visible = update.visible;
-      if (!selected.visible && selected.type === 'twirling-axis') {
-        this.ghostParticles = [];
+      target.visible = update.visible;
+      if (!target.visible && target.type === 'twirling-axis') {
+        this.world.clearGhostParticles();
       }
     }
 
     if (typeof update.opacity === 'number' && Number.isFinite(update.opacity)) {
       const clampedOpacity = clamp(update.opacity, 0, 1);
-      switch (selected.type) {
+      switch (target.type) {
         case 'twirling-axis':
         case 'sphere':
         case 'twirl':
         case 'twirl8':
-          selected.opacity = clampedOpacity;
+          target.opacity = clampedOpacity;
           break;
         default:
           break;
       }
     }
 
-    if (selected.type === 'twirling-axis') {
+    if (target.type === 'twirling-axis') {
       if (typeof update.size === 'number' && Number.isFinite(update.size)) {
-        selected.size = Math.max(0.01, update.size);
+        target.size = Math.max(0.01, update.size);
       }
-    } else if (selected.type === 'rgpXY') {
+    } else if (target.type === 'rgpXY') {
       let sizeChanged = false;
       if (typeof update.size === 'number' && Number.isFinite(update.size)) {
         const nextSize = Math.max(0.1, update.size);
-        if (selected.size !== nextSize) {
-          selected.size = nextSize;
+        if (target.size !== nextSize) {
+          target.size = nextSize;
           sizeChanged = true;
         }
       }
       if (typeof update.sphereOpacity === 'number' && Number.isFinite(update.sphereOpacity)) {
-        selected.sphereOpacity = clamp(update.sphereOpacity, 0, 1);
+        target.sphereOpacity = clamp(update.sphereOpacity, 0, 1);
+      }
+      if (typeof update.latticeDepth === 'number' && Number.isFinite(update.latticeDepth)) {
+        target.latticeDepth = Math.max(1, Math.floor(update.latticeDepth));
+      }
+      if (typeof update.latticeBudget === 'number' && Number.isFinite(update.latticeBudget)) {
+        target.latticeBudget = Math.max(0, Math.floor(update.latticeBudget));
+      }
+      if (typeof update.autoGrowBeats === 'number' && Number.isFinite(update.autoGrowBeats)) {
+        target.autoGrowBeats = Math.max(0, update.autoGrowBeats);
+        target.growBeatAccumulator = 0;
       }
       if (sizeChanged) {
-        this.updateDexelAnchorsForRgp(selected);
+        this.world.updateDexelAnchorsForRgp(target);
+      }
+    } else if (target.type === 'dexel') {
+      let ratioChanged = false;
+      if (typeof update.primarySpeedRatio === 'number' && Number.isFinite(update.primarySpeedRatio)) {
+        target.primarySpeedRatio = Math.max(0, update.primarySpeedRatio);
+        ratioChanged = true;
+      }
+      if (typeof update.secondarySpeedRatio === 'number' && Number.isFinite(update.secondarySpeedRatio)) {
+        target.secondarySpeedRatio = Math.max(0, update.secondarySpeedRatio);
+        ratioChanged = true;
+      }
+      if (ratioChanged) {
+        this.world.syncDexelRingSpeeds(target);
       }
-    } else if (selected.type === 'dexel') {
       let sizeChanged = false;
       if (typeof update.size === 'number' && Number.isFinite(update.size)) {
         const nextSize = Math.max(0.1, update.size);
-        if (selected.size !== nextSize) {
-          selected.size = nextSize;
+        if (target.size !== nextSize) {
+          target.size = nextSize;
           sizeChanged = true;
         }
       }
       if (sizeChanged) {
-        this.updateDexelAssetPosition(selected);
+        this.world.updateDexelAssetPosition(target);
       }
-    } else if (selected.type === 'twirl8') {
+    } else if (target.type === 'twirl8') {
       if (typeof update.twirl8Size === 'number' && Number.isFinite(update.twirl8Size)) {
-        selected.size = Math.max(0.1, update.twirl8Size);
+        target.size = Math.max(0.1, update.twirl8Size);
       }
       if (typeof update.twirl8Width === 'number' && Number.isFinite(update.twirl8Width)) {
-        selected.width = Math.max(0.01, update.twirl8Width);
+        target.width = Math.max(0.01, update.twirl8Width);
       }
       if (typeof update.twirl8AngleDeg === 'number' && Number.isFinite(update.twirl8AngleDeg)) {
-        selected.lobeAngle = update.twirl8AngleDeg * DEG_TO_RAD;
+        target.lobeAngle = update.twirl8AngleDeg * DEG_TO_RAD;
       }
     } else {
       if (update.plane) {
-        selected.plane = update.plane;
+        target.plane = update.plane;
       }
 
       if (typeof update.shellSize === 'number' && Number.isFinite(update.shellSize)) {
-        selected.shellSize = Math.max(1, Math.floor(update.shellSize));
+        target.shellSize = Math.max(1, Math.floor(update.shellSize));
       }
 
       if (update.baseColor) {
-        selected.baseColor = update.baseColor;
+        target.baseColor = update.baseColor;
       }
 
       if (typeof update.shadingIntensity === 'number' && Number.isFinite(update.shadingIntensity)) {
-        selected.shadingIntensity = clamp(update.shadingIntensity, 0, 1);
+        target.shadingIntensity = clamp(update.shadingIntensity, 0, 1);
       }
 
-      if (selected.type === 'twirl') {
+      if (target.type === 'twirl') {
         if (typeof update.beltHalfAngle === 'number' && Number.isFinite(update.beltHalfAngle)) {
-          selected.beltHalfAngle = clamp(update.beltHalfAngle, 0.001, Math.PI / 2);
+          target.beltHalfAngle = clamp(update.beltHalfAngle, 0.001, Math.PI / 2);
         }
 
-        if (typeof update.pulseSpeed === 'number' && Number.isFinite(update.pulseSpeed)) {
-          selected.pulseSpeed = Math.max(0, update.pulseSpeed);
+        if (typeof update.pulsesPerRevolution === 'number' && Number.isFinite(update.pulsesPerRevolution)) {
+          target.pulsesPerRevolution = Math.max(0, update.pulsesPerRevolution);
         }
       }
     }
@@ -1499,7 +1781,7 @@ export class App {
     ring: 'primary' | 'secondary',
     updates: Partial<{ opacity: number; shadingIntensity: number; visible: boolean }>,
   ): void {
-    const target = this.simObjects.find((object) => object.id === objectId);
+    const target = this.world.objects.find((object) => object.id === objectId);
     if (!target || target.type !== 'rgpXY') {
       return;
     }
@@ -1531,21 +1813,402 @@ export class App {
     }
 
     if (changed) {
-      this.updateDexelAnchorsForRgp(target);
+      this.world.updateDexelAnchorsForRgp(target);
       this.notifySimChange();
     }
-  }
+  }
+
+  setRgpSphereVisible(objectId: string, visible: boolean): void {
+    const target = this.world.objects.find((object) => object.id === objectId);
+    if (!target || target.type !== 'rgpXY') {
+      return;
+    }
+    if (target.sphereVisible === visible) {
+      return;
+    }
+    target.sphereVisible = visible;
+    this.notifySimChange();
+  }
+
+  spawnAsset(assetId: string, instanceId: string, config: Record<string, unknown> = {}): string[] {
+    const { simObjects: definitions } = instantiateAsset(instanceId, assetId, config);
+    const spawned = this.world.spawn(definitions);
+    this.notifySimChange();
+    return spawned.map((simObject) => simObject.id);
+  }
+
+  /** Instantiates an asset under the first free `<assetId>-<n>` id and selects the first object it built. */
+  addAsset(assetId: string, config: Record<string, unknown> = {}): string[] {
+    const instanceId = nextAssetInstanceId(assetId, (id) => this.world.findObject(id) !== null);
+    const { simObjects: definitions } = instantiateAsset(instanceId, assetId, config);
+    const spawned = this.world.spawn(definitions);
+    this.selectedObjectId = spawned[0]?.id ?? this.selectedObjectId;
+    log('sim', `Added ${getAssetDefinition(assetId).label} as ${spawned.map((simObject) => simObject.id).join(', ')}`);
+    this.notifySimChange();
+    return spawned.map((simObject) => simObject.id);
+  }
+
+  /** Appends a copy of an object and selects it; returns the copy's id. */
+  duplicateSimObject(id: string): string | null {
+    const copy = this.world.duplicateObject(id);
+    if (!copy) {
+      return null;
+    }
+    this.selectedObjectId = copy.id;
+    log('sim', `Duplicated ${id} as ${copy.id}`);
+    this.notifySimChange();
+    return copy.id;
+  }
+
+  removeSimObject(id: string): boolean {
+    if (!this.world.removeObject(id)) {
+      return false;
+    }
+
+    // Removing an RGP also removes its spawned dexels, which may have held the selection.
+    if (this.selectedObjectId && !this.world.findObject(this.selectedObjectId)) {
+      this.selectedObjectId = this.world.objects[0]?.id ?? null;
+    }
+    this.notifySimChange();
+    return true;
+  }
+
+  /** Removes every dexel the RGP spawned; returns how many were removed. */
+  removeLatticeDexels(rgpId: string): number {
+    const removed = this.world.removeLatticeDexels(rgpId);
+    if (removed === 0) {
+      return 0;
+    }
+    if (this.selectedObjectId && !this.world.findObject(this.selectedObjectId)) {
+      this.selectedObjectId = rgpId;
+    }
+    log('sim', `Removed ${removed} dexel${removed === 1 ? '' : 's'} from ${rgpId}`);
+    this.notifySimChange();
+    return removed;
+  }
+
+  moveSimObject(id: string, update: SimObjectMovePayload): boolean {
+    const target = this.world.objects.find((object) => object.id === id);
+    if (!target) {
+      return false;
+    }
+
+    const toRadians = (value: number | undefined) =>
+      typeof value === 'number' && Number.isFinite(value) ? value * DEG_TO_RAD : null;
+    const rotationX = toRadians(update.rotationXDeg);
+    const rotationY = toRadians(update.rotationYDeg);
+    const rotationZ = toRadians(update.rotationZDeg);
+
+    switch (target.type) {
+      case 'dexel':
+        // An explicit placement takes a spawned dexel out of its lattice.
+        if (update.axis || update.sign !== undefined || update.anchorId !== undefined) {
+          target.lattice = null;
+        }
+        if (update.axis) {
+          target.axis = update.axis;
+        }
+        if (update.sign !== undefined) {
+          target.sign = update.sign >= 0 ? 1 : -1;
+        }
+        if (update.anchorId !== undefined) {
+          target.anchorId = update.anchorId;
+        }
+        this.world.updateDexelAssetPosition(target);
+        break;
+      case 'twirling-axis':
+        if (rotationX !== null) {
+          target.rotationX = rotationX;
+        }
+        if (rotationY !== null) {
+          target.rotationY = rotationY;
+        }
+        if (rotationZ !== null) {
+          target.rotationZ = rotationZ;
+        }
+        break;
+      case 'sphere':
+      case 'twirl':
+      case 'twirl8':
+        if (rotationY !== null) {
+          target.rotationY = rotationY;
+        }
+        break;
+      case 'rgpXY':
+        if (rotationY !== null) {
+          target.primary.rotationY = rotationY;
+          target.secondary.rotationY = rotationY;
+        }
+        break;
+      default:
+        break;
+    }
+
+    this.notifySimChange();
+    return true;
+  }
+
+  exportScene(): SceneDocument {
+    return {
+      format: SCENE_FILE_FORMAT,
+      version: SCENE_FILE_VERSION,
+      savedAt: new Date().toISOString(),
+      segmentId: this.selectedSegmentId,
+      selectedObjectId: this.selectedObjectId,
+      simulation: {
+        beat: this.time.getBeat(),
+        speed: this.time.getBeatsPerSecond(),
+      },
+      camera: { ...this.camera.getState() },
+      cameraBookmarks: this.getCameraBookmarks().map((bookmark) => ({
+        name: bookmark.name,
+        camera: { ...bookmark.camera },
+      })),
+      ...this.world.serialize(),
+    };
+  }
+
+  importScene(raw: unknown): void {
+    const scene = migrateSceneDocument(raw);
+
+    // Restore first: it throws without touching the world, and then nothing else has changed either.
+    this.world.restore(scene);
+    this.stopSimulation();
+    this.timeline.clear();
+    this.cameraPath.clear();
+
+    const segment = this.segmentDefinitions.find((definition) => definition.id === scene.segmentId) ?? null;
+    this.selectedSegmentId = segment ? segment.id : this.selectedSegmentId;
+    if (segment) {
+      this.addSegmentGhosts(segment);
+    }
+    // The scene carries its own camera, speed and axes; only the segment's lock and background apply.
+    const settings = this.getSelectedSegmentSettings();
+    this.camera.setLockToOrigin(settings.cameraLock ?? false);
+    this.backgroundColor = settings.backgroundColor ?? DEFAULT_BACKGROUND_COLOR;
+
+    this.time.setBeatsPerSecond(scene.simulation.speed);
+    this.time.reset(scene.simulation.beat);
+    this.interpolationSnapshot.clear();
+    this.camera.setState(scene.camera);
+    if (this.selectedSegmentId && scene.cameraBookmarks.length > 0) {
+      this.cameraBookmarks[this.selectedSegmentId] = scene.cameraBookmarks
+        .filter((bookmark) => this.isStoredCameraBookmark(bookmark))
+        .slice(0, CAMERA_BOOKMARK_SLOTS)
+        .map((bookmark) => ({ name: bookmark.name, camera: { ...bookmark.camera } }));
+      this.persistCameraBookmarks();
+    }
+    this.selectedObjectId = this.world.objects.some((object) => object.id === scene.selectedObjectId)
+      ? scene.selectedObjectId
+      : this.world.objects[0]?.id ?? null;
+    log('scene', `Imported scene with ${this.world.objects.length} objects (saved ${scene.savedAt})`);
+    this.notifySimChange();
+  }
+
+  private applyAnimatedProperty(targetId: string, property: AnimatableProperty, value: number): void {
+    const target = this.world.objects.find((object) => object.id === targetId);
+    if (!target || !Number.isFinite(value)) {
+      return;
+    }
+
+    switch (property) {
+      case 'opacity':
+        if (target.type === 'rgpXY') {
+          target.sphereOpacity = clamp(value, 0, 1);
+        } else if (target.type !== 'dexel') {
+          target.opacity = clamp(value, 0, 1);
+        }
+        break;
+      case 'shellSize':
+        if (target.type === 'sphere' || target.type === 'twirl') {
+          target.shellSize = Math.max(1, value);
+        }
+        break;
+      case 'pulsesPerRevolution':
+        if (target.type === 'twirl') {
+          target.pulsesPerRevolution = Math.max(0, value);
+        } else if (target.type === 'rgpXY') {
+          target.primary.pulsesPerRevolution = Math.max(0, value);
+          target.secondary.pulsesPerRevolution = Math.max(0, value);
+        }
+        break;
+      case 'twirl8AngleDeg':
+        if (target.type === 'twirl8') {
+          target.lobeAngle = value * DEG_TO_RAD;
+        }
+        break;
+      case 'speedPerTick':
+        if (target.type === 'dexel') {
+          target.speedPerTick = Math.max(0.1, value);
+          this.world.syncDexelRingSpeeds(target);
+        } else if (target.type !== 'rgpXY') {
+          target.speedPerTick = Math.max(0.1, value);
+        }
+        break;
+      case 'shadingIntensity':
+        if (target.type === 'sphere' || target.type === 'twirl') {
+          target.shadingIntensity = clamp(value, 0, 1);
+        } else if (target.type === 'rgpXY') {
+          target.primary.shadingIntensity = clamp(value, 0, 1);
+          target.secondary.shadingIntensity = clamp(value, 0, 1);
+        }
+        break;
+      case 'size':
+        if (target.type === 'twirling-axis') {
+          target.size = Math.max(0.01, value);
+        } else if (target.type === 'twirl8') {
+          target.size = Math.max(0.1, value);
+        } else if (target.type === 'rgpXY') {
+          target.size = Math.max(0.1, value);
+          this.world.updateDexelAnchorsForRgp(target);
+        } else if (target.type === 'dexel') {
+          target.size = Math.max(0.1, value);
+          this.world.updateDexelAssetPosition(target);
+        }
+        break;
+      default:
+        break;
+    }
+  }
+
+  private attachPointerPicking(container: HTMLDivElement, paneId: ViewPaneId): () => void {
+    let pressed: { pointerId: number; x: number; y: number } | null = null;
+
+    const setHovered = (id: string | null) => {
+      this.hoveredObjectId = id;
+      container.classList.toggle('is-hovering-object', id !== null);
+    };
+
+    const pointerDown = (event: PointerEvent) => {
+      pressed = event.button === 0 ? { pointerId: event.pointerId, x: event.clientX, y: event.clientY } : null;
+    };
+
+    const pointerMove = (event: PointerEvent) => {
+      // Skip hover picking while a button is held; the camera is orbiting or panning.
+      if (event.buttons !== 0) {
+        setHovered(null);
+        return;
+      }
+      const hovered = this.pickSimObjectAt(event.clientX, event.clientY, container.getBoundingClientRect(), paneId);
+      setHovered(hovered?.id ?? null);
+    };
+
+    const pointerLeave = () => {
+      setHovered(null);
+    };
+
+    const pointerUp = (event: PointerEvent) => {
+      const start = pressed;
+      pressed = null;
+      if (!start || start.pointerId !== event.pointerId || event.detail >= 2) {
+        return;
+      }
+      if (Math.hypot(event.clientX - start.x, event.clientY - start.y) > CLICK_DRAG_TOLERANCE) {
+        return;
+      }
+      const picked = this.pickSimObjectAt(event.clientX, event.clientY, container.getBoundingClientRect(), paneId);
+      if (picked) {
+        this.selectSimObject(picked.id);
+        log('camera', `Picked ${picked.id} (${picked.type}) in the viewport`);
+      }
+    };
+
+    container.addEventListener('pointerdown', pointerDown);
+    container.addEventListener('pointermove', pointerMove);
+    container.addEventListener('pointerup', pointerUp);
+    container.addEventListener('pointerleave', pointerLeave);
+    return () => {
+      container.removeEventListener('pointerdown', pointerDown);
+      container.removeEventListener('pointermove', pointerMove);
+      container.removeEventListener('pointerup', pointerUp);
+      container.removeEventListener('pointerleave', pointerLeave);
+      setHovered(null);
+    };
+  }
+
+  // Follow targets sit at the origin unless they are dexels, which carry their own position.
+  private resolveCameraFollow(target: CameraFollowTarget): Vec3 | null {
+    const object = this.world.objects.find((candidate) => candidate.id === target.targetId);
+    if (!object) {
+      return null;
+    }
+    if (target.dexel !== undefined) {
+      const dexel = this.world.getLatticeDexels(object.id)[target.dexel];
+      return dexel ? [dexel.position[0], dexel.position[1], dexel.position[2]] : null;
+    }
+    if (object.type === 'dexel') {
+      return [object.position[0], object.position[1], object.position[2]];
+    }
+    return [0, 0, 0];
+  }
+
+  // Mirrors the transforms render() draws with so a click lands on what is on screen. The
+  // translucent RGP shell is skipped; it encloses its rings and would swallow every click.
+  private collectPickCandidates(): PickCandidate<SimObject>[] {
+    const candidates: PickCandidate<SimObject>[] = [];
+    const ringCandidate = (
+      owner: SimObject,
+      size: number,
+      ring: RgpRingState,
+      position?: Float32Array,
+    ): PickCandidate<SimObject> => {
+      const { modelMatrix } = this.buildTwirlMatrices(
+        ring.plane,
+        ring.rotationY,
+        Math.max(1, size * ring.shellScale),
+        ring.pulseScale,
+        ring.beltHalfAngle,
+      );
+      return {
+        value: owner,
+        modelMatrix: position ? mat4Multiply(this.translationMatrix(position), modelMatrix) : modelMatrix,
+        shape: { kind: 'band', halfHeight: TWIRL_MESH_HALF_HEIGHT },
+      };
+    };
+
+    for (const simObject of this.world.objects) {
+      if (!simObject.visible) {
+        continue;
+      }
+
+      switch (simObject.type) {
+        case 'sphere':
+          candidates.push({ value: simObject, modelMatrix: this.computeModelMatrices(simObject).modelMatrix, shape: { kind: 'sphere' } });
+          break;
+        case 'twirl':
+          candidates.push({
+            value: simObject,
+            modelMatrix: this.computeModelMatrices(simObject).modelMatrix,
+            shape: { kind: 'band', halfHeight: TWIRL_MESH_HALF_HEIGHT },
+          });
+          break;
+        case 'rgpXY':
+        case 'dexel':
+          for (const ring of [simObject.primary, simObject.secondary]) {
+            if (ring.visible) {
+              candidates.push(ringCandidate(simObject, simObject.size, ring, simObject.type === 'dexel' ? simObject.position : undefined));
+            }
+          }
+          break;
+        case 'twirl8': {
+          const pulse = getTwirl8Pulse(simObject);
+          candidates.push({
+            value: simObject,
+            modelMatrix: computeTwirl8ModelMatrix(simObject.axis, Math.max(0, simObject.radius * pulse), simObject.rotationY),
+            shape: {
+              kind: 'figure8',
+              halfWidth: Math.max(0, simObject.size * pulse),
+              halfHeight: Math.max(0, simObject.width * pulse) / 2,
+            },
+          });
+          break;
+        }
+        default:
+          break;
+      }
+    }
 
-  setRgpSphereVisible(objectId: string, visible: boolean): void {
-    const target = this.simObjects.find((object) => object.id === objectId);
-    if (!target || target.type !== 'rgpXY') {
-      return;
-    }
-    if (target.sphereVisible === visible) {
-      return;
-    }
-    target.sphereVisible = visible;
-    this.notifySimChange();
+    return candidates;
   }
 
   private notifySimChange(): void {
@@ -1558,38 +2221,16 @@ export class App {
     modelMatrix: Float32Array;
     normalMatrix: Float32Array;
   } {
-    let rotationMatrix: Float32Array;
-    let alignmentMatrix: Float32Array;
-
-    switch (simObject.plane) {
-      case 'GB':
-        rotationMatrix = mat4FromYRotation(simObject.rotationY);
-        alignmentMatrix = this.identityModelMatrix;
-        break;
-      case 'YG':
-        rotationMatrix = mat4FromZRotation(simObject.rotationY);
-        alignmentMatrix = this.alignYAxisToZMatrix;
-        break;
-      case 'YB':
-        rotationMatrix = mat4FromXRotation(simObject.rotationY);
-        alignmentMatrix = this.alignYAxisToXMatrix;
-        break;
-      default:
-        rotationMatrix = mat4FromYRotation(simObject.rotationY);
-        alignmentMatrix = this.identityModelMatrix;
-        break;
-    }
-
-    const rotationAndAlignment = mat4Multiply(rotationMatrix, alignmentMatrix);
+    const rotationAndAlignment = computePlaneRotation(simObject.plane, simObject.rotationY);
 
     let modelMatrix: Float32Array;
     if (simObject.type === 'twirl') {
-      const radiusScale = Math.max(0.05, (simObject.shellSize / this.defaultShellSize) * simObject.pulseScale);
+      const radiusScale = Math.max(0.05, (simObject.shellSize / DEFAULT_SHELL_SIZE) * simObject.pulseScale);
       const heightScale = Math.max(0.01, Math.sin(simObject.beltHalfAngle));
       const scaleMatrix = mat4Scale(Math.max(radiusScale, 0.01), Math.max(heightScale, 0.005), Math.max(radiusScale, 0.01));
       modelMatrix = mat4Multiply(rotationAndAlignment, scaleMatrix);
     } else {
-      const scaleFactor = Math.max(0.01, simObject.shellSize / this.defaultShellSize);
+      const scaleFactor = Math.max(0.01, simObject.shellSize / DEFAULT_SHELL_SIZE);
       const scaleMatrix = mat4ScaleUniform(scaleFactor);
       modelMatrix = mat4Multiply(rotationAndAlignment, scaleMatrix);
     }
@@ -1600,30 +2241,6 @@ export class App {
     };
   }
 
-  private computeTwirlingAxisMatrices(
-    simObject: TwirlingAxisObject,
-  ): { modelMatrix: Float32Array; normalMatrix: Float32Array } {
-    let rotationMatrix = mat4Identity();
-    if (simObject.rotationY !== 0) {
-      rotationMatrix = mat4Multiply(rotationMatrix, mat4FromYRotation(simObject.rotationY));
-    }
-    if (simObject.rotationZ !== 0) {
-      rotationMatrix = mat4Multiply(rotationMatrix, mat4FromZRotation(simObject.rotationZ));
-    }
-    if (simObject.rotationX !== 0) {
-      rotationMatrix = mat4Multiply(rotationMatrix, mat4FromXRotation(simObject.rotationX));
-    }
-
-    const scaleFactor = Math.max(0.01, simObject.size);
-    const scaleMatrix = mat4ScaleUniform(scaleFactor);
-    const modelMatrix = mat4Multiply(rotationMatrix, scaleMatrix);
-
-    return {
-      modelMatrix,
-      normalMatrix: mat3FromMat4(rotationMatrix),
-    };
-  }
-
   private getPlaneNormal(plane: 'YG' | 'GB' | 'YB'): Float32Array {
     switch (plane) {
       case 'GB':
@@ -1676,128 +2293,14 @@ export class App {
     }
   }
 
-  private addGhostParticle(position: Float32Array, color: [number, number, number], radius: number, opacity: number): void {
-    this.ghostParticles.push({
-      position,
-      color: new Float32Array(color),
-      radius,
-      opacity,
-    });
-
-    if (this.ghostParticles.length > MAX_GHOST_PARTICLES) {
-      this.ghostParticles.splice(0, this.ghostParticles.length - MAX_GHOST_PARTICLES);
-    }
-  }
-
-  private parseRotationScript(source: string): { steps: RotationStep[]; normalized: string } {
-    const trimmed = source.trim();
-    if (!trimmed) {
-      throw new Error('Rotation script is empty');
-    }
-
-    const tokens = trimmed.split(/\s+/).filter(Boolean);
-    if (tokens.length === 0) {
-      throw new Error('Rotation script is empty');
-    }
-
-    const steps: RotationStep[] = [];
-    const normalizedTokens: string[] = [];
-
-    for (const token of tokens) {
-      const match = token.match(/^([+-])([XYZxyz])(\d+)$/);
-      if (!match) {
-        throw new Error(`Invalid token: ${token}`);
-      }
-      const [, sign, axisChar, angleStr] = match;
-      const angleDeg = Number.parseInt(angleStr, 10);
-      if (!Number.isFinite(angleDeg) || angleDeg <= 0) {
-        throw new Error(`Invalid angle in token: ${token}`);
-      }
-
-      const axis = axisChar.toLowerCase() as RotationStep['axis'];
-      const direction = sign === '+' ? 1 : -1;
-      steps.push({ axis, direction, angleDeg });
-      normalizedTokens.push(`${sign}${axisChar.toUpperCase()}${angleDeg}`);
-    }
-
-    return {
-      steps,
-      normalized: normalizedTokens.join(' '),
-    };
-  }
-
-  private safeParseRotationScript(source: string): { steps: RotationStep[]; normalized: string } {
-    try {
-      return this.parseRotationScript(source);
-    } catch (error) {
-      return this.parseRotationScript(DEFAULT_TWIRLING_AXIS_SCRIPT);
-    }
-  }
-
-  private advanceTwirlingAxis(simObject: TwirlingAxisObject, beats: number): void {
-    if (!this.simRunning || beats <= 0) {
-      return;
-    }
-
-    if (simObject.rotationScript.length === 0) {
-      return;
-    }
-
-    const speedMultiplier = Math.max(0.01, Math.abs(simObject.speedPerTick));
-    simObject.beatAccumulator += beats * speedMultiplier;
-    while (simObject.beatAccumulator >= 1) {
-      simObject.beatAccumulator -= 1;
-
-      const step = simObject.rotationScript[simObject.scriptIndex];
-      if (!step) {
-        break;
-      }
-
-      const angleRad = (step.angleDeg * Math.PI) / 180;
-      const rotationSign = (simObject.direction >= 0 ? 1 : -1) * (simObject.speedPerTick >= 0 ? 1 : -1) * simObject.currentDirection;
-      const delta = angleRad * step.direction * rotationSign;
-
-      switch (step.axis) {
-        case 'x':
-          simObject.rotationX += delta;
-          break;
-        case 'y':
-          simObject.rotationY += delta;
-          break;
-        case 'z':
-          simObject.rotationZ += delta;
-          break;
-      }
-
-      simObject.scriptIndex = (simObject.scriptIndex + 1) % simObject.rotationScript.length;
-      simObject.currentDirection = (simObject.currentDirection === 1 ? -1 : 1);
-
-      this.emitGhostParticlesFromAxis(simObject);
-    }
-  }
-
-  private emitGhostParticlesFromAxis(simObject: TwirlingAxisObject): void {
-    const halfLength = TWIRLING_AXIS_BASE_LENGTH / 2;
-    const { modelMatrix } = this.computeTwirlingAxisMatrices(simObject);
-    const sizeScale = Math.max(0.01, simObject.size);
-    const ballRadius = TWIRLING_AXIS_BASE_RADIUS * TWIRLING_AXIS_BALL_SCALE * sizeScale * 0.5;
-    const ghostOpacity = clamp(simObject.opacity * 0.7, 0.05, 1);
-
-    const xTip = this.transformPoint(modelMatrix, [halfLength, 0, 0]);
-    const yTip = this.transformPoint(modelMatrix, [0, halfLength, 0]);
-
-    this.addGhostParticle(xTip, AXIS_COLORS.x, ballRadius, ghostOpacity);
-    this.addGhostParticle(yTip, AXIS_COLORS.y, ballRadius, ghostOpacity);
-  }
-
   private drawRgpSphere(gl: WebGLRenderingContext, sphereProgram: SphereProgram, rgp: RgpXYObject): void {
     if (!rgp.sphereVisible) {
       return;
     }
 
     const mesh = this.ensureSphereMesh();
-    const primaryRadius = this.getRgpRingRadius(rgp.size, rgp.primary);
-    const secondaryRadius = this.getRgpRingRadius(rgp.size, rgp.secondary);
+    const primaryRadius = getRgpRingRadius(rgp.size, rgp.primary);
+    const secondaryRadius = getRgpRingRadius(rgp.size, rgp.secondary);
     const scaleFactor = Math.max(primaryRadius, secondaryRadius);
     const modelMatrix = mat4ScaleUniform(scaleFactor);
     const baseColor = new Float32Array([rgp.sphereColor[0], rgp.sphereColor[1], rgp.sphereColor[2], clamp(rgp.sphereOpacity, 0, 1)]);
@@ -1827,66 +2330,6 @@ export class App {
     }
   }
 
-  private createRgpRingState(config: RgpRingConfig): RgpRingState {
-    return {
-      rotationY: config.initialRotationY,
-      speedPerTick: config.speedPerTick,
-      direction: config.direction,
-      plane: config.plane,
-      shellScale: config.shellScale,
-      baseColor: config.baseColor,
-      shadingIntensity: config.shadingIntensity,
-      opacity: config.opacity,
-      beltHalfAngle: config.beltHalfAngle,
-      pulseSpeed: config.pulseSpeed,
-      pulsePhase: config.initialPulsePhase,
-      pulseScale: config.initialPulseScale,
-      invertPulse: config.invertPulse,
-      visible: config.visible,
-      contracted: config.initialPulseScale <= 0.02,
-    };
-  }
-
-  private cloneRgpRingState(source: RgpRingState): RgpRingState {
-    return {
-      rotationY: source.rotationY,
-      speedPerTick: source.speedPerTick,
-      direction: source.direction,
-      plane: source.plane,
-      shellScale: source.shellScale,
-      baseColor: source.baseColor,
-      shadingIntensity: source.shadingIntensity,
-      opacity: source.opacity,
-      beltHalfAngle: source.beltHalfAngle,
-      pulseSpeed: source.pulseSpeed,
-      pulsePhase: source.pulsePhase,
-      pulseScale: source.pulseScale,
-      invertPulse: source.invertPulse,
-      visible: source.visible,
-      contracted: source.contracted,
-    };
-  }
-
-  private updateRgpPulse(ring: RgpRingState, deltaSeconds: number): void {
-    if (ring.pulseSpeed <= 0) {
-      return;
-    }
-
-    ring.pulsePhase = (ring.pulsePhase + deltaSeconds * ring.pulseSpeed * 0.25) % 1;
-    const triangle = ring.pulsePhase < 0.5 ? ring.pulsePhase * 2 : 1 - (ring.pulsePhase - 0.5) * 2;
-    const baseTriangle = ring.invertPulse ? 1 - triangle : triangle;
-    const nextScale = Math.min(Math.max(baseTriangle, 0), 1);
-    ring.pulseScale = nextScale;
-
-    const isContracted = ring.pulseScale <= 0.02;
-    if (isContracted && !ring.contracted) {
-      ring.direction = ring.direction === 1 ? -1 : 1;
-      ring.contracted = true;
-    } else if (!isContracted && ring.contracted) {
-      ring.contracted = false;
-    }
-  }
-
   private drawRgpRing(
     gl: WebGLRenderingContext,
     twirlProgram: TwirlProgram,
@@ -1933,12 +2376,6 @@ export class App {
     });
   }
 
-  private getRgpRingRadius(size: number, ring: RgpRingState, pulseScaleOverride?: number): number {
-    const shellSize = Math.max(1, size * ring.shellScale);
-    const pulseScale = Math.max(pulseScaleOverride ?? ring.pulseScale, 0);
-    return Math.max(0, (shellSize / this.defaultShellSize) * pulseScale);
-  }
-
   private buildTwirlMatrices(
     plane: 'YG' | 'GB' | 'YB',
     rotationY: number,
@@ -1946,30 +2383,8 @@ export class App {
     pulseScale: number,
     beltHalfAngle: number,
   ): { modelMatrix: Float32Array; normalMatrix: Float32Array } {
-    let rotationMatrix: Float32Array;
-    let alignmentMatrix: Float32Array;
-
-    switch (plane) {
-      case 'GB':
-        rotationMatrix = mat4FromYRotation(rotationY);
-        alignmentMatrix = this.identityModelMatrix;
-        break;
-      case 'YG':
-        rotationMatrix = mat4FromZRotation(rotationY);
-        alignmentMatrix = this.alignYAxisToZMatrix;
-        break;
-      case 'YB':
-        rotationMatrix = mat4FromXRotation(rotationY);
-        alignmentMatrix = this.alignYAxisToXMatrix;
-        break;
-      default:
-        rotationMatrix = mat4FromYRotation(rotationY);
-        alignmentMatrix = this.identityModelMatrix;
-        break;
-    }
-
-    const rotationAndAlignment = mat4Multiply(rotationMatrix, alignmentMatrix);
-    const radiusScale = Math.max(0, (shellSize / this.defaultShellSize) * pulseScale);
+    const rotationAndAlignment = computePlaneRotation(plane, rotationY);
+    const radiusScale = Math.max(0, (shellSize / DEFAULT_SHELL_SIZE) * pulseScale);
     const heightScale = Math.max(0.01, Math.sin(beltHalfAngle));
     const scaleMatrix = mat4Scale(radiusScale, heightScale, radiusScale);
     const modelMatrix = mat4Multiply(rotationAndAlignment, scaleMatrix);
@@ -1980,50 +2395,29 @@ export class App {
     };
   }
 
-  private drawGhostParticles(gl: WebGLRenderingContext, sphereProgram: SphereProgram): void {
-    if (this.ghostParticles.length === 0) {
+  private drawGhostTrails(gl: WebGLRenderingContext): void {
+    const batches = this.ghostBatches;
+    const program = this.ghostTrailProgram;
+    const buffer = this.ghostTrailBuffer;
+    if (!batches || !program || !buffer) {
       return;
     }
 
-    const mesh = this.ensureSphereMesh();
-    const planeVector = new Float32Array([0, 0, 0]);
-
+    Assets.useGhostTrailProgram(gl, program, buffer);
+    Assets.setGhostTrailSharedUniforms(gl, program, {
+      viewMatrix: this.viewMatrix,
+      projectionMatrix: this.projectionMatrix,
+      viewportHeight: this.paneViewportHeight,
+    });
     gl.enable(gl.BLEND);
     gl.blendFunc(gl.SRC_ALPHA, gl.ONE_MINUS_SRC_ALPHA);
-
-    for (const ghost of this.ghostParticles) {
-      const modelMatrix = this.makeTranslationScaleMatrix(ghost.position, ghost.radius);
-      const baseColor = new Float32Array([ghost.color[0], ghost.color[1], ghost.color[2], ghost.opacity]);
-
-      Assets.drawSphere(gl, sphereProgram, mesh, {
-        modelMatrix,
-        normalMatrix: this.identityNormalMatrix,
-        shadingIntensity: 0,
-        planeVector,
-        baseColor,
-        vertexColorWeight: 0,
-        opacityIntensity: ghost.opacity,
-      });
-    }
-
+    // Faded particles must not hide what is behind them, so the trail never writes depth.
+    gl.depthMask(false);
+    Assets.drawGhostTrailStrips(gl, program, batches.strips);
+    Assets.drawGhostTrailPoints(gl, program, batches.points);
+    gl.depthMask(true);
     gl.disable(gl.BLEND);
-  }
-
-  private transformPoint(matrix: Float32Array, point: [number, number, number]): Float32Array {
-    const [x, y, z] = point;
-    const outX = matrix[0] * x + matrix[4] * y + matrix[8] * z + matrix[12];
-    const outY = matrix[1] * x + matrix[5] * y + matrix[9] * z + matrix[13];
-    const outZ = matrix[2] * x + matrix[6] * y + matrix[10] * z + matrix[14];
-    return new Float32Array([outX, outY, outZ]);
-  }
-
-  private makeTranslationScaleMatrix(position: Float32Array, scale: number): Float32Array {
-    const translation = mat4Identity();
-    translation[12] = position[0];
-    translation[13] = position[1];
-    translation[14] = position[2];
-    const scaleMatrix = mat4ScaleUniform(scale);
-    return mat4Multiply(translation, scaleMatrix);
+    Assets.releaseGhostTrailProgram(gl, program);
   }
 
   private translationMatrix(position: Float32Array): Float32Array {
@@ -2037,10 +2431,10 @@ export class App {
   private drawDexelCollection(
     gl: WebGLRenderingContext,
     twirlProgram: TwirlProgram,
+    mesh: TwirlMesh,
     patternRepeats: number,
     dexels: ReadonlyArray<{
       position: Float32Array;
-      mesh: TwirlMesh;
       size: number;
       primary: RgpRingState;
       secondary: RgpRingState;
@@ -2051,8 +2445,8 @@ export class App {
     }
 
     for (const dexel of dexels) {
-      this.drawRgpRing(gl, twirlProgram, dexel.mesh, dexel.size, dexel.secondary, patternRepeats, dexel.position);
-      this.drawRgpRing(gl, twirlProgram, dexel.mesh, dexel.size, dexel.primary, patternRepeats, dexel.position);
+      this.drawRgpRing(gl, twirlProgram, mesh, dexel.size, dexel.secondary, patternRepeats, dexel.position);
+      this.drawRgpRing(gl, twirlProgram, mesh, dexel.size, dexel.primary, patternRepeats, dexel.position);
     }
   }
 
@@ -2061,141 +2455,20 @@ export class App {
     if (!selected || selected.type !== 'rgpXY') {
       return;
     }
-    this.spawnDexelForRgp(selected);
-  }
-
-  private spawnDexelForRgp(rgp: RgpXYObject): void {
-    const dominant = rgp.primary.pulseScale >= rgp.secondary.pulseScale ? rgp.primary : rgp.secondary;
-    const axis = this.planeToAxis(dominant.plane);
-    const sign = this.dexelLastSign[axis];
-    const axisIndex = axis === 'x' ? 0 : axis === 'y' ? 1 : 2;
-
-    const existing = this.dexels.some((dexel) => dexel.axis === axis && dexel.sign === sign && dexel.sourceId === rgp.id);
-    if (existing) {
-      return;
-    }
-
-    this.dexelLastSign[axis] = sign === 1 ? -1 : 1;
-
-    const primary = this.cloneRgpRingState(rgp.primary);
-    const secondary = this.cloneRgpRingState(rgp.secondary);
-
-    primary.pulseScale = 1;
-    primary.pulsePhase = 0;
-    primary.pulseSpeed = 0;
-    secondary.pulseScale = 1;
-    secondary.pulsePhase = 0;
-    secondary.pulseSpeed = 0;
-
-    const maxRgpRadius = Math.max(
-      this.getRgpRingRadius(rgp.size, rgp.primary, 1),
-      this.getRgpRingRadius(rgp.size, rgp.secondary, 1),
-    );
-    const maxDexelRadius = Math.max(
-      this.getRgpRingRadius(rgp.size, primary, 1),
-      this.getRgpRingRadius(rgp.size, secondary, 1),
-    );
-    const distance = maxRgpRadius + maxDexelRadius;
-
-    const position = new Float32Array([0, 0, 0]);
-    position[axisIndex] = sign * distance;
-
-    this.dexels.push({
-      axis,
-      sign,
-      position,
-      mesh: rgp.mesh,
-      primary,
-      secondary,
-      size: rgp.size,
-      sourceId: rgp.id,
-    });
-
-    this.updateDexelAnchorsForRgp(rgp);
-    this.notifySimChange();
-  }
-
-  private updateDexelAnchorsForRgp(rgp: RgpXYObject): void {
-    if (this.dexels.length === 0) {
-      // Continue to update anchored assets if needed.
-    }
-
-    const maxRgpRadius = Math.max(
-      this.getRgpRingRadius(rgp.size, rgp.primary, 1),
-      this.getRgpRingRadius(rgp.size, rgp.secondary, 1),
-    );
-
-    for (const dexel of this.dexels) {
-      if (dexel.sourceId !== rgp.id) {
-        continue;
-      }
-
-      dexel.size = rgp.size;
-      const maxDexelRadius = Math.max(
-        this.getRgpRingRadius(dexel.size, dexel.primary, 1),
-        this.getRgpRingRadius(dexel.size, dexel.secondary, 1),
-      );
-      const distance = maxRgpRadius + maxDexelRadius;
-      const axisIndex = dexel.axis === 'x' ? 0 : dexel.axis === 'y' ? 1 : 2;
-      dexel.position[0] = 0;
-      dexel.position[1] = 0;
-      dexel.position[2] = 0;
-      dexel.position[axisIndex] = dexel.sign * distance;
-    }
-
-    for (const simObject of this.simObjects) {
-      if (simObject.type !== 'dexel' || simObject.anchorId !== rgp.id) {
-        continue;
-      }
-      this.updateDexelAssetPosition(simObject, rgp);
+    if (this.world.spawnDexel(selected)) {
+      this.notifySimChange();
     }
   }
 
-  private updateDexelAssetPosition(dexel: DexelObject, anchor?: RgpXYObject | null): void {
-    const anchorObject =
-      anchor ??
-      (dexel.anchorId ? this.simObjects.find((object): object is RgpXYObject => object.type === 'rgpXY' && object.id === dexel.anchorId) ?? null : null);
-
-    const maxDexelRadius = Math.max(
-      this.getRgpRingRadius(dexel.size, dexel.primary, 1),
-      this.getRgpRingRadius(dexel.size, dexel.secondary, 1),
-    );
-
-    let distance = maxDexelRadius;
-
-    if (anchorObject) {
-      const maxRgpRadius = Math.max(
-        this.getRgpRingRadius(anchorObject.size, anchorObject.primary, 1),
-        this.getRgpRingRadius(anchorObject.size, anchorObject.secondary, 1),
-      );
-      distance += maxRgpRadius;
+  growDexelLatticeForSelectedRgp(): void {
+    const selected = this.getSelectedSimObject();
+    if (!selected || selected.type !== 'rgpXY') {
+      return;
     }
-
-    const axisIndex = dexel.axis === 'x' ? 0 : dexel.axis === 'y' ? 1 : 2;
-    dexel.position[0] = 0;
-    dexel.position[1] = 0;
-    dexel.position[2] = 0;
-    dexel.position[axisIndex] = dexel.sign * distance;
-  }
-
-  private syncDexelRingSpeeds(dexel: DexelObject): void {
-    const baseSpeed = Math.max(0, dexel.speedPerTick);
-    dexel.primary.speedPerTick = baseSpeed * dexel.primarySpeedRatio;
-    dexel.secondary.speedPerTick = baseSpeed * dexel.secondarySpeedRatio;
-    dexel.primary.direction = dexel.direction;
-    dexel.secondary.direction = dexel.direction;
-  }
-
-  private planeToAxis(plane: 'YG' | 'GB' | 'YB'): 'x' | 'y' | 'z' {
-    switch (plane) {
-      case 'GB':
-        return 'y';
-      case 'YG':
-        return 'z';
-      case 'YB':
-        return 'x';
-      default:
-        return 'x';
+    const spawned = this.world.growDexelLattice(selected);
+    if (spawned > 0) {
+      log('sim', `Grew ${spawned} dexel${spawned === 1 ? '' : 's'} around ${selected.id}`);
+      this.notifySimChange();
     }
   }
 
@@ -2203,6 +2476,15 @@ export class App {
     return { ...this.axisVisibility };
   }
 
+  /** Turns the free camera to look down `axis` from its positive side, or from its negative side when `fromPositive` is false. */
+  lookAlongAxis(axis: 'x' | 'y' | 'z', fromPositive = true): void {
+    const sign = fromPositive ? -1 : 1;
+    const direction: [number, number, number] = [0, 0, 0];
+    direction['xyz'.indexOf(axis)] = sign;
+    this.camera.lookAtAxis(direction);
+    log('camera', `Look along ${sign < 0 ? '−' : '+'}${axis.toUpperCase()}`);
+  }
+
   isAxisVisible(axis: 'x' | 'y' | 'z'): boolean {
     return this.axisVisibility[axis];
   }
@@ -2255,13 +2537,13 @@ export class App {
     }
 
     try {
-      const { steps, normalized } = this.parseRotationScript(script);
+      const { steps, normalized } = parseRotationScript(script);
       selected.rotationScript = steps;
       selected.rotationScriptSource = normalized;
       selected.scriptIndex = 0;
       selected.beatAccumulator = 0;
       selected.currentDirection = 1;
-      this.ghostParticles = [];
+      this.world.clearGhostParticles();
       this.notifySimChange();
       return true;
     } catch (error) {
@@ -2302,6 +2584,18 @@ export class App {
       if (typeof parsed.axisRadiusScale === 'number' && Number.isFinite(parsed.axisRadiusScale)) {
         this.axisRadiusScale = Math.max(1, Math.floor(parsed.axisRadiusScale));
       }
+      if (parsed.viewLayout === 'single' || parsed.viewLayout === 'quad') {
+        this.viewLayout = parsed.viewLayout;
+      }
+      if (parsed.projection === 'perspective' || parsed.projection === 'orthographic') {
+        this.camera.setProjection(parsed.projection);
+      }
+      if (parsed.ghostTrailStyle === 'balls' || parsed.ghostTrailStyle === 'lines') {
+        this.ghostTrailStyle = parsed.ghostTrailStyle;
+      }
+      if (typeof parsed.ghostLifetimeBeats === 'number') {
+        this.world.ghostTrails.setLifetimeBeats(parsed.ghostLifetimeBeats);
+      }
     } catch {
       // Ignore malformed storage data.
     }
@@ -2316,6 +2610,10 @@ export class App {
       showSecondaryAxes: this.showSecondaryAxes,
       axisOpacity: this.axisOpacitySlider,
       axisRadiusScale: this.axisRadiusScale,
+      viewLayout: this.viewLayout,
+      projection: this.camera.getProjection(),
+      ghostTrailStyle: this.ghostTrailStyle,
+      ghostLifetimeBeats: this.world.ghostTrails.getLifetimeBeats(),
     };
     try {
       window.localStorage.setItem(App.DISPLAY_SETTINGS_STORAGE_KEY, JSON.stringify(payload));
@@ -2324,6 +2622,58 @@ export class App {
     }
   }
 
+  private restoreCameraBookmarks(): void {
+    if (typeof window === 'undefined') {
+      return;
+    }
+    try {
+      const stored = window.localStorage?.getItem(App.CAMERA_BOOKMARKS_STORAGE_KEY);
+      if (!stored) {
+        return;
+      }
+      const parsed = JSON.parse(stored) as Record<string, unknown> | null;
+      if (!parsed || typeof parsed !== 'object') {
+        return;
+      }
+      for (const [segmentId, bookmarks] of Object.entries(parsed)) {
+        if (!Array.isArray(bookmarks)) {
+          continue;
+        }
+        this.cameraBookmarks[segmentId] = bookmarks
+          .filter((bookmark): bookmark is CameraBookmark => this.isStoredCameraBookmark(bookmark))
+          .slice(0, CAMERA_BOOKMARK_SLOTS);
+      }
+    } catch {
+      // Ignore malformed storage data.
+    }
+  }
+
+  private isStoredCameraBookmark(value: unknown): value is CameraBookmark {
+    if (typeof value !== 'object' || value === null) {
+      return false;
+    }
+    const { name, camera } = value as { name?: unknown; camera?: Partial<CameraState> | null };
+    return (
+      typeof name === 'string' &&
+      typeof camera === 'object' &&
+      camera !== null &&
+      (['azimuth', 'elevation', 'distance', 'panX', 'panY', 'panZ'] as const).every((key) =>
+        Number.isFinite(camera[key]),
+      )
+    );
+  }
+
+  private persistCameraBookmarks(): void {
+    if (typeof window === 'undefined' || !window.localStorage) {
+      return;
+    }
+    try {
+      window.localStorage.setItem(App.CAMERA_BOOKMARKS_STORAGE_KEY, JSON.stringify(this.cameraBookmarks));
+    } catch {
+      // Swallow storage errors (quota exceeded, disabled storage, etc.).
+    }
+  }
+
   getTwirlingAxisScriptPresets(): ReadonlyArray<{ label: string; script: string }> {
     return SCRIPT_PRESETS;
   }
@@ -2336,6 +2686,68 @@ export class App {
     return this.axisOpacitySlider;
   }
 
+  getGhostTrailStyle(): GhostTrailStyle {
+    return this.ghostTrailStyle;
+  }
+
+  setGhostTrailStyle(style: GhostTrailStyle): void {
+    if (this.ghostTrailStyle === style) {
+      return;
+    }
+    this.ghostTrailStyle = style;
+    this.persistDisplaySettings();
+    this.notifySimChange();
+  }
+
+  /** Beats a trail particle takes to fade out; 0 keeps particles until the trail is cleared. */
+  getGhostLifetimeBeats(): number {
+    return this.world.ghostTrails.getLifetimeBeats();
+  }
+
+  setGhostLifetimeBeats(beats: number): void {
+    if (!Number.isFinite(beats) || beats < 0 || this.world.ghostTrails.getLifetimeBeats() === beats) {
+      return;
+    }
+    this.world.ghostTrails.setLifetimeBeats(beats);
+    this.persistDisplaySettings();
+    this.notifySimChange();
+  }
+
+  clearGhostTrails(): void {
+    this.world.clearGhostParticles();
+    this.notifySimChange();
+  }
+
+  getViewLayout(): ViewLayout {
+    return this.viewLayout;
+  }
+
+  setViewLayout(layout: ViewLayout): void {
+    if (this.viewLayout === layout) {
+      return;
+    }
+    this.viewLayout = layout;
+    this.hoveredObjectId = null;
+    this.applyViewLayout();
+    this.persistDisplaySettings();
+    this.notifySimChange();
+  }
+
+  /** Projection of the free (perspective-pane) camera; the axis-aligned panes are always orthographic. */
+  getProjectionMode(): ProjectionMode {
+    return this.camera.getProjection();
+  }
+
+  setProjectionMode(mode: ProjectionMode): void {
+    if (this.camera.getProjection() === mode) {
+      return;
+    }
+    this.camera.setProjection(mode);
+    this.applyViewLayout();
+    this.persistDisplaySettings();
+    this.notifySimChange();
+  }
+
   getSecondaryAxesVisible(): boolean {
     return this.showSecondaryAxes;
   }
@@ -2367,25 +2779,12 @@ export class App {
       const oldMesh = this.sphereMesh;
       const newMesh = Assets.createSphereMesh(this.gl, clampedLat, clampedLon);
       this.sphereMesh = newMesh;
-      for (const simObject of this.simObjects) {
-        if (simObject.type === 'sphere') {
-          simObject.mesh = newMesh;
-        }
-      }
       if (oldMesh) {
         Assets.disposeSphereMesh(this.gl, oldMesh);
       }
       const oldTwirl = this.twirlMesh;
       const newTwirl = Assets.createTwirlMesh(this.gl, Math.max(32, clampedLon * 4), clampedLon);
       this.twirlMesh = newTwirl;
-      for (const simObject of this.simObjects) {
-        if (simObject.type === 'twirl' || simObject.type === 'rgpXY' || simObject.type === 'dexel') {
-          simObject.mesh = newTwirl;
-        }
-      }
-      for (const dexel of this.dexels) {
-        dexel.mesh = newTwirl;
-      }
       if (oldTwirl) {
         Assets.disposeTwirlMesh(this.gl, oldTwirl);
       }
@@ -2399,7 +2798,7 @@ export class App {
     if (selected && (selected.type === 'sphere' || selected.type === 'twirl')) {
       return selected.shadingIntensity;
     }
-    return this.shadingIntensity;
+    return this.world.getDefaultShadingIntensity();
   }
 
   setShadingIntensity(intensity: number): void {
@@ -2411,8 +2810,8 @@ export class App {
       }
       selected.shadingIntensity = clamped;
       this.notifySimChange();
-    } else if (this.shadingIntensity !== clamped) {
-      this.shadingIntensity = clamped;
+    } else if (this.world.getDefaultShadingIntensity() !== clamped) {
+      this.world.setDefaultShadingIntensity(clamped);
       this.notifySimChange();
     }
   }
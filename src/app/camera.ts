@@ -4,11 +4,17 @@ import {
   clamp,
   crossVec3,
   lengthVec3,
+  mat4LookAt,
+  mat4Orthographic,
+  mat4Perspective,
   normalizeTuple,
   scaleVec3,
   sphericalToCartesian,
 } from './math3d';
 import { dispatchDoubleClick } from './doubleClickRegistry';
+import { applyEasing } from '../dsl/timeline';
+import type { CameraFollowResolver, CameraPath } from './cameraPath';
+import type { ProjectionMode } from './viewLayout';
 
 type DragMode = 'orbit' | 'pan' | null;
 
@@ -21,6 +27,18 @@ export interface CameraState {
   panZ: number;
 }
 
+export interface CameraBookmark {
+  name: string;
+  camera: CameraState;
+}
+
+interface CameraFlight {
+  from: CameraState;
+  to: CameraState;
+  startTime: number | null;
+  durationMs: number;
+}
+
 interface DragSnapshot {
   x: number;
   y: number;
@@ -32,6 +50,9 @@ interface DragSnapshot {
 }
 
 export class CameraController {
+  private static readonly FIELD_OF_VIEW = (50 * Math.PI) / 180;
+  // Orthographic depth range around the target; wide enough for the largest shells.
+  private static readonly ORTHOGRAPHIC_DEPTH = 100;
   private static readonly AXIS_SNAP_THRESHOLD = Math.cos((8 / 180) * Math.PI);
   private static readonly AXIS_VECTORS: ReadonlyArray<[number, number, number]> = [
     [1, 0, 0],
@@ -51,9 +72,13 @@ export class CameraController {
     panZ: 0,
   };
 
+  private flight: CameraFlight | null = null;
+  private path: { path: CameraPath; base: CameraState } | null = null;
   private dragMode: DragMode = null;
   private activePointerId: number | null = null;
   private lockToOrigin = false;
+  private orbitEnabled = true;
+  private projection: ProjectionMode = 'perspective';
   private dragStart: DragSnapshot = {
     x: 0,
     y: 0,
@@ -79,6 +104,48 @@ export class CameraController {
     }
   }
 
+  setOrbitEnabled(enabled: boolean): void {
+    this.orbitEnabled = enabled;
+  }
+
+  setProjection(mode: ProjectionMode): void {
+    if (this.projection === mode) {
+      return;
+    }
+    this.projection = mode;
+    this.onChange();
+  }
+
+  getProjection(): ProjectionMode {
+    return this.projection;
+  }
+
+  getViewMatrix(): Float32Array {
+    return mat4LookAt(this.getPosition(), this.getTarget(), [0, 1, 0]);
+  }
+
+  /**
+   * Orthographic views are sized so the target plane shows the same extent as the perspective
+   * frustum at the current distance, which keeps wheel zoom working the same way in both modes.
+   */
+  getProjectionMatrix(aspect: number): Float32Array {
+    const fov = CameraController.FIELD_OF_VIEW;
+    if (this.projection === 'perspective') {
+      return mat4Perspective(fov, aspect, 0.1, 100);
+    }
+    const halfHeight = this.state.distance * Math.tan(fov / 2);
+    const halfWidth = halfHeight * aspect;
+    const depth = CameraController.ORTHOGRAPHIC_DEPTH;
+    return mat4Orthographic(
+      -halfWidth,
+      halfWidth,
+      -halfHeight,
+      halfHeight,
+      this.state.distance - depth,
+      this.state.distance + depth,
+    );
+  }
+
   attach(container: HTMLDivElement): () => void {
     const pointerDown = (event: PointerEvent) => {
       if (event.button === 0 && event.detail >= 2 && this.lockToOrigin) {
@@ -100,6 +167,11 @@ export class CameraController {
         mode = 'pan';
       }
 
+      // Axis-aligned panes keep their direction, so a left drag pans them instead.
+      if (mode === 'orbit' && !this.orbitEnabled) {
+        mode = 'pan';
+      }
+
       if (this.lockToOrigin && mode === 'pan') {
         mode = null;
       }
@@ -131,6 +203,21 @@ export class CameraController {
         return;
       }
 
+      // A plain click (e.g. picking) leaves a flight or path running; the first drag takes over
+      // from wherever the animation had moved the camera.
+      if (this.flight || this.path) {
+        this.cancelFlight();
+        this.stopPath();
+        this.dragStart = {
+          ...this.dragStart,
+          azimuth: this.state.azimuth,
+          elevation: this.state.elevation,
+          panX: this.state.panX,
+          panY: this.state.panY,
+          panZ: this.state.panZ,
+        };
+      }
+
       const dx = event.clientX - this.dragStart.x;
       const dy = event.clientY - this.dragStart.y;
 
@@ -188,6 +275,8 @@ export class CameraController {
 
     const wheel = (event: WheelEvent) => {
       event.preventDefault();
+      this.cancelFlight();
+      this.stopPath();
       const zoomSensitivity = 0.0018;
       const nextDistance = this.state.distance + event.deltaY * zoomSensitivity;
       this.state.distance = clamp(nextDistance, 0.15, 192);
@@ -229,6 +318,103 @@ export class CameraController {
   	return this.state;
   }
 
+  setState(next: Partial<CameraState>): void {
+    this.cancelFlight();
+    this.stopPath();
+    this.applyState(next);
+  }
+
+  /**
+   * Starts an animated transition to `target`. The view direction is slerped on the unit sphere
+   * and distance and pan are eased, so the camera swings around the target instead of cutting
+   * through it. Call `update` once per frame to advance the flight.
+   */
+  flyTo(target: CameraState, durationMs = 650): void {
+    if (!(durationMs > 0)) {
+      this.setState(target);
+      return;
+    }
+    this.stopPath();
+    this.flight = {
+      from: { ...this.state },
+      to: { ...target },
+      startTime: null,
+      durationMs,
+    };
+  }
+
+  isFlying(): boolean {
+    return this.flight !== null;
+  }
+
+  cancelFlight(): void {
+    this.flight = null;
+  }
+
+  update(now: number): void {
+    const flight = this.flight;
+    if (!flight) {
+      return;
+    }
+    if (flight.startTime === null) {
+      flight.startTime = now;
+    }
+    const progress = Math.min(1, Math.max(0, (now - flight.startTime) / flight.durationMs));
+    this.applyState(interpolateCameraState(flight.from, flight.to, applyEasing('ease-in-out', progress)));
+    if (progress >= 1) {
+      this.flight = null;
+    }
+  }
+
+  /**
+   * Hands the camera to a scripted path. Fields the path leaves out keep the current view, and
+   * any pointer or wheel input (or a bookmark flight) takes the camera back.
+   */
+  playPath(path: CameraPath): void {
+    this.cancelFlight();
+    this.path = { path, base: { ...this.state } };
+  }
+
+  stopPath(): void {
+    this.path = null;
+  }
+
+  isPlayingPath(): boolean {
+    return this.path !== null;
+  }
+
+  updatePath(beat: number, resolveFollow?: CameraFollowResolver): void {
+    if (!this.path) {
+      return;
+    }
+    this.applyState(this.path.path.sample(beat, this.path.base, resolveFollow));
+  }
+
+  private applyState(next: Partial<CameraState>): void {
+    const clampLimit = Math.PI / 2 - 1e-4;
+    if (Number.isFinite(next.azimuth)) {
+      this.state.azimuth = this.normalizeAngle(next.azimuth!);
+    }
+    if (Number.isFinite(next.elevation)) {
+      this.state.elevation = clamp(next.elevation!, -clampLimit, clampLimit);
+    }
+    if (Number.isFinite(next.distance)) {
+      this.state.distance = clamp(next.distance!, 0.15, 192);
+    }
+    if (!this.lockToOrigin) {
+      if (Number.isFinite(next.panX)) {
+        this.state.panX = next.panX!;
+      }
+      if (Number.isFinite(next.panY)) {
+        this.state.panY = next.panY!;
+      }
+      if (Number.isFinite(next.panZ)) {
+        this.state.panZ = next.panZ!;
+      }
+    }
+    this.onChange();
+  }
+
   getTarget(): [number, number, number] {
     if (this.lockToOrigin) {
       return [0, 0, 0];
@@ -292,6 +478,8 @@ export class CameraController {
   }
 
   lookAtAxis(axis: [number, number, number]): void {
+    this.cancelFlight();
+    this.stopPath();
     const desiredElevationRaw = Math.asin(-axis[1]);
     const clampLimit = Math.PI / 2 - 1e-4;
     const desiredElevation = clamp(desiredElevationRaw, -clampLimit, clampLimit);
@@ -310,6 +498,44 @@ export class CameraController {
   }
 }
 
+/**
+ * Blends two camera states at `t` ∈ [0, 1]: the view direction travels along the great circle
+ * between the two orbit directions, while distance and pan are interpolated linearly.
+ */
+export function interpolateCameraState(from: CameraState, to: CameraState, t: number): CameraState {
+  const start = sphericalToCartesian(1, from.azimuth, from.elevation, [0, 0, 0]);
+  const end = sphericalToCartesian(1, to.azimuth, to.elevation, [0, 0, 0]);
+  const dot = clamp(start[0] * end[0] + start[1] * end[1] + start[2] * end[2], -1, 1);
+  const angle = Math.acos(dot);
+
+  let direction: [number, number, number];
+  if (angle < 1e-6) {
+    direction = end;
+  } else {
+    // Opposite directions have no unique great circle; swing over the pole-side axis instead.
+    let axis = crossVec3(start, end);
+    if (lengthVec3(axis) < 1e-6) {
+      axis = crossVec3(start, Math.abs(start[1]) < 0.9 ? [0, 1, 0] : [1, 0, 0]);
+    }
+    axis = normalizeTuple(axis);
+    const tangent = crossVec3(axis, start);
+    const theta = angle * t;
+    direction = addVec3(scaleVec3(start, Math.cos(theta)), scaleVec3(tangent, Math.sin(theta)));
+  }
+
+  const blend = (a: number, b: number) => a + (b - a) * t;
+  // Near the poles the azimuth is undefined; keep the starting one so the camera does not spin.
+  const horizontal = Math.hypot(direction[0], direction[2]);
+  return {
+    azimuth: horizontal < 1e-6 ? from.azimuth : Math.atan2(direction[0], direction[2]),
+    elevation: Math.asin(clamp(direction[1], -1, 1)),
+    distance: blend(from.distance, to.distance),
+    panX: blend(from.panX, to.panX),
+    panY: blend(from.panY, to.panY),
+    panZ: blend(from.panZ, to.panZ),
+  };
+}
+
 function getCameraPanBasis(azimuth: number, elevation: number): {
   right: [number, number, number];
   up: [number, number, number];
@@ -0,0 +1,142 @@
+// cameraPath.ts — beat-driven camera keyframes, orbits, and follow targets for scripted demos
+import { applyEasing, type Easing } from '../dsl/timeline';
+import { interpolateCameraState, type CameraState } from './camera';
+import type { Vec3 } from './math3d';
+
+export interface CameraKeyframe {
+  beat: number;
+  state: Partial<CameraState>;
+  easing: Easing;
+}
+
+/** Object the camera pans to track; `dexel` picks one of the dexels spawned by an RGP. */
+export interface CameraFollowTarget {
+  targetId: string;
+  dexel?: number;
+}
+
+interface OrbitSpan {
+  start: number;
+  degreesPerBeat: number;
+}
+
+export type CameraFollowResolver = (target: CameraFollowTarget) => Vec3 | null;
+
+/**
+ * A camera path is a pure function of the simulation beat, so seeking replays it exactly like the
+ * timeline: keyframes are blended in order, orbit spans add azimuth at their rate from their start
+ * beat until the next span begins, and a follow target overrides the pan each frame.
+ */
+export class CameraPath {
+  private keyframes: CameraKeyframe[] = [];
+  private orbits: OrbitSpan[] = [];
+  private follow: CameraFollowTarget | null = null;
+
+  addKeyframe(keyframe: { beat: number; state: Partial<CameraState>; easing?: Easing }): void {
+    if (!Number.isFinite(keyframe.beat)) {
+      throw new Error(`Camera keyframe beat must be finite, got ${keyframe.beat}.`);
+    }
+    const next: CameraKeyframe = { beat: keyframe.beat, state: { ...keyframe.state }, easing: keyframe.easing ?? 'linear' };
+    const existing = this.keyframes.findIndex((candidate) => candidate.beat === next.beat);
+    if (existing >= 0) {
+      this.keyframes[existing] = { ...next, state: { ...this.keyframes[existing].state, ...next.state } };
+    } else {
+      this.keyframes.push(next);
+      this.keyframes.sort((a, b) => a.beat - b.beat);
+    }
+  }
+
+  /** Orbits around the Y axis from `start` onward; a rate of 0 ends the previous orbit. */
+  setOrbit(degreesPerBeat: number, start: number): void {
+    this.orbits = this.orbits.filter((span) => span.start !== start);
+    this.orbits.push({ start, degreesPerBeat });
+    this.orbits.sort((a, b) => a.start - b.start);
+  }
+
+  setFollow(target: CameraFollowTarget | null): void {
+    this.follow = target ? { ...target } : null;
+  }
+
+  getFollow(): CameraFollowTarget | null {
+    return this.follow;
+  }
+
+  getKeyframes(): ReadonlyArray<CameraKeyframe> {
+    return this.keyframes;
+  }
+
+  isEmpty(): boolean {
+    return this.keyframes.length === 0 && this.orbits.length === 0 && this.follow === null;
+  }
+
+  clear(): void {
+    this.keyframes = [];
+    this.orbits = [];
+    this.follow = null;
+  }
+
+  /**
+   * Returns the camera at `beat`. Keyframe fields that are left out fall back to the previous
+   * keyframe, and ultimately to `base` (the camera when the path started playing).
+   */
+  sample(beat: number, base: CameraState, resolveFollow?: CameraFollowResolver): CameraState {
+    let state = this.sampleKeyframes(beat, base);
+
+    const orbitDegrees = this.getOrbitDegrees(beat);
+    if (orbitDegrees !== 0) {
+      state = { ...state, azimuth: state.azimuth + (orbitDegrees * Math.PI) / 180 };
+    }
+
+    const followed = this.follow && resolveFollow ? resolveFollow(this.follow) : null;
+    if (followed) {
+      state = { ...state, panX: followed[0], panY: followed[1], panZ: followed[2] };
+    }
+    return state;
+  }
+
+  private sampleKeyframes(beat: number, base: CameraState): CameraState {
+    if (this.keyframes.length === 0) {
+      return { ...base };
+    }
+
+    // Resolve each keyframe to a full state so partial keyframes inherit what came before.
+    const resolved: CameraState[] = [];
+    let previous = base;
+    for (const keyframe of this.keyframes) {
+      previous = { ...previous, ...keyframe.state };
+      resolved.push(previous);
+    }
+
+    if (beat <= this.keyframes[0].beat) {
+      return { ...resolved[0] };
+    }
+    const last = this.keyframes.length - 1;
+    if (beat >= this.keyframes[last].beat) {
+      return { ...resolved[last] };
+    }
+
+    for (let index = 0; index < last; index += 1) {
+      const from = this.keyframes[index];
+      const to = this.keyframes[index + 1];
+      if (beat >= from.beat && beat < to.beat) {
+        const span = to.beat - from.beat;
+        const progress = span > 0 ? (beat - from.beat) / span : 1;
+        return interpolateCameraState(resolved[index], resolved[index + 1], applyEasing(from.easing, progress));
+      }
+    }
+    return { ...resolved[last] };
+  }
+
+  private getOrbitDegrees(beat: number): number {
+    let degrees = 0;
+    for (let index = 0; index < this.orbits.length; index += 1) {
+      const span = this.orbits[index];
+      if (beat <= span.start) {
+        break;
+      }
+      const end = Math.min(beat, this.orbits[index + 1]?.start ?? Number.POSITIVE_INFINITY);
+      degrees += (end - span.start) * span.degreesPerBeat;
+    }
+    return degrees;
+  }
+}
@@ -0,0 +1,85 @@
+// frameExport.ts — PNG encoding and uploads to the dev error reporter's /export route
+
+/** `dev/error-reporter.mjs` writes every POST /export?name= body to `export/<name>`. */
+export const EXPORT_ENDPOINT = 'http://127.0.0.1:6060/export';
+
+/** Largest upload the reporter accepts; matches MAX_EXPORT_BYTES in dev/error-reporter.mjs. */
+export const EXPORT_MAX_BYTES = 128 * 1024 * 1024;
+
+export const CAPTURE_SCALES: ReadonlyArray<number> = [1, 2, 3, 4];
+
+export interface RecordOptions {
+  /** Resolution multiplier applied to the canvas size. */
+  scale?: number;
+  /** File prefix; frames are written as `<prefix>-00000.png`, `<prefix>-00001.png`, … */
+  name?: string;
+  onProgress?: (frame: number, total: number) => void;
+}
+
+/** Restricts names to what the reporter accepts and a shell handles without quoting. */
+export function sanitizeExportName(name: string): string {
+  const cleaned = name.trim().replace(/[^A-Za-z0-9._-]+/g, '-').replace(/\.{2,}/g, '.').replace(/^[-.]+|[-.]+$/g, '');
+  return cleaned || 'netty';
+}
+
+/** Zero-pads frame numbers (at least five digits) so the files sort in playback order. */
+export function formatFrameName(prefix: string, index: number, total: number): string {
+  const digits = Math.max(5, String(Math.max(0, total - 1)).length);
+  return `${sanitizeExportName(prefix)}-${String(index).padStart(digits, '0')}.png`;
+}
+
+/**
+ * WebGL reads pixels bottom row first; images are stored top row first. Alpha is forced opaque so
+ * translucent shells keep the colour they show on screen instead of punching holes in the PNG.
+ */
+export function flipPixelRows(pixels: Uint8Array, width: number, height: number): Uint8ClampedArray {
+  const rowBytes = width * 4;
+  const flipped = new Uint8ClampedArray(rowBytes * height);
+  for (let row = 0; row < height; row += 1) {
+    const source = (height - 1 - row) * rowBytes;
+    flipped.set(pixels.subarray(source, source + rowBytes), row * rowBytes);
+  }
+  for (let index = 3; index < flipped.length; index += 4) {
+    flipped[index] = 255;
+  }
+  return flipped;
+}
+
+export function encodePng(pixels: Uint8ClampedArray, width: number, height: number): Promise<Blob> {
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const context = canvas.getContext('2d');
+  if (!context) {
+    return Promise.reject(new Error('2D canvas context unavailable for PNG encoding.'));
+  }
+  const image = context.createImageData(width, height);
+  image.data.set(pixels);
+  context.putImageData(image, 0, 0);
+  return new Promise((resolve, reject) => {
+    canvas.toBlob((blob) => {
+      if (blob) {
+        resolve(blob);
+      } else {
+        reject(new Error('PNG encoding failed.'));
+      }
+    }, 'image/png');
+  });
+}
+
+export async function uploadExport(name: string, blob: Blob, endpoint = EXPORT_ENDPOINT): Promise<void> {
+  let response: Response;
+  try {
+    response = await fetch(`${endpoint}?name=${encodeURIComponent(name)}`, {
+      method: 'POST',
+      headers: { 'Content-Type': blob.type || 'application/octet-stream' },
+      body: blob,
+    });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    throw new Error(`Export server unreachable at ${endpoint} (is dev/error-reporter.mjs running?): ${message}`);
+  }
+  if (!response.ok) {
+    throw new Error(`Export of ${name} failed: ${response.status} ${await response.text()}`);
+  }
+}
@@ -0,0 +1,225 @@
+// keymap.ts — keyboard action table, default bindings, and user remapping persisted to localStorage
+
+export type KeyActionGroup = 'Playback' | 'Segments' | 'Camera' | 'Bookmarks' | 'Display' | 'Help';
+
+export interface KeyActionDefinition {
+  id: string;
+  label: string;
+  group: KeyActionGroup;
+  defaultKeys: ReadonlyArray<string>;
+}
+
+type KeymapStorage = Pick<Storage, 'getItem' | 'setItem' | 'removeItem'>;
+
+const STORAGE_KEY = 'nettysimulation.keymap.v1';
+const SLOTS = [1, 2, 3, 4, 5, 6, 7, 8, 9] as const;
+const MODIFIER_ORDER = ['Ctrl', 'Alt', 'Shift', 'Meta'] as const;
+
+/**
+ * Chords are written as modifiers followed by a `KeyboardEvent.code` (`Shift+KeyX`, `BracketLeft`),
+ * so bindings follow key positions rather than whatever character the keyboard layout produces.
+ */
+export const KEY_ACTIONS: ReadonlyArray<KeyActionDefinition> = [
+  { id: 'playPause', label: 'Play / pause', group: 'Playback', defaultKeys: ['Space'] },
+  { id: 'reset', label: 'Reset segment', group: 'Playback', defaultKeys: ['KeyR'] },
+  { id: 'stepBack', label: 'Step back one beat', group: 'Playback', defaultKeys: ['Comma'] },
+  { id: 'stepForward', label: 'Step forward one beat', group: 'Playback', defaultKeys: ['Period'] },
+  { id: 'slower', label: 'Slower playback', group: 'Playback', defaultKeys: ['BracketLeft'] },
+  { id: 'faster', label: 'Faster playback', group: 'Playback', defaultKeys: ['BracketRight'] },
+  ...SLOTS.map<KeyActionDefinition>((slot) => ({
+    id: `segment${slot}`,
+    label: `Load segment ${slot}`,
+    group: 'Segments',
+    defaultKeys: [`Digit${slot}`],
+  })),
+  { id: 'lookX', label: 'Look along −X (from +G)', group: 'Camera', defaultKeys: ['KeyX'] },
+  { id: 'lookNegX', label: 'Look along +X (from −G)', group: 'Camera', defaultKeys: ['Shift+KeyX'] },
+  { id: 'lookY', label: 'Look along −Y (from +Y)', group: 'Camera', defaultKeys: ['KeyY'] },
+  { id: 'lookNegY', label: 'Look along +Y (from −Y)', group: 'Camera', defaultKeys: ['Shift+KeyY'] },
+  { id: 'lookZ', label: 'Look along −Z (from +B)', group: 'Camera', defaultKeys: ['KeyZ'] },
+  { id: 'lookNegZ', label: 'Look along +Z (from −B)', group: 'Camera', defaultKeys: ['Shift+KeyZ'] },
+  { id: 'cameraPath', label: 'Play / stop the camera path', group: 'Camera', defaultKeys: ['KeyC'] },
+  ...SLOTS.map<KeyActionDefinition>((slot) => ({
+    id: `recallBookmark${slot}`,
+    label: `Fly to bookmark ${slot}`,
+    group: 'Bookmarks',
+    defaultKeys: [`Shift+Digit${slot}`],
+  })),
+  ...SLOTS.map<KeyActionDefinition>((slot) => ({
+    id: `saveBookmark${slot}`,
+    label: `Save view as bookmark ${slot}`,
+    group: 'Bookmarks',
+    defaultKeys: [`Alt+Digit${slot}`],
+  })),
+  { id: 'toggleAxisX', label: 'Show / hide X axis (G)', group: 'Display', defaultKeys: ['Alt+KeyX'] },
+  { id: 'toggleAxisY', label: 'Show / hide Y axis (Y)', group: 'Display', defaultKeys: ['Alt+KeyY'] },
+  { id: 'toggleAxisZ', label: 'Show / hide Z axis (B)', group: 'Display', defaultKeys: ['Alt+KeyZ'] },
+  { id: 'toggleQuadView', label: 'Four-pane view', group: 'Display', defaultKeys: ['KeyV'] },
+  { id: 'toggleProjection', label: 'Perspective / orthographic', group: 'Display', defaultKeys: ['KeyO'] },
+  { id: 'capture', label: 'Capture a PNG to export/', group: 'Display', defaultKeys: ['KeyP'] },
+  { id: 'toggleHelp', label: 'Show this help', group: 'Help', defaultKeys: ['Shift+Slash', 'KeyH'] },
+];
+
+/** Builds the chord for a key event, or null for a bare modifier press. */
+export function chordFromEvent(
+  event: Pick<KeyboardEvent, 'code' | 'ctrlKey' | 'altKey' | 'shiftKey' | 'metaKey'>,
+): string | null {
+  if (!event.code || /^(Control|Alt|Shift|Meta|OS)(Left|Right)?$/.test(event.code)) {
+    return null;
+  }
+  const held = { Ctrl: event.ctrlKey, Alt: event.altKey, Shift: event.shiftKey, Meta: event.metaKey };
+  return [...MODIFIER_ORDER.filter((modifier) => held[modifier]), event.code].join('+');
+}
+
+/** Human-readable form of a chord: `Shift+Digit1` → `Shift+1`, `BracketLeft` → `[`. */
+export function describeChord(chord: string): string {
+  return chord
+    .split('+')
+    .map((part) => KEY_NAMES[part] ?? part.replace(/^Key/, '').replace(/^Digit/, '').replace(/^Numpad/, 'Num '))
+    .join('+');
+}
+
+const KEY_NAMES: Record<string, string> = {
+  Space: 'Space',
+  Comma: ',',
+  Period: '.',
+  Slash: '/',
+  BracketLeft: '[',
+  BracketRight: ']',
+  Semicolon: ';',
+  Quote: "'",
+  Backquote: '`',
+  Minus: '-',
+  Equal: '=',
+  Backslash: '\\',
+  ArrowLeft: '←',
+  ArrowRight: '→',
+  ArrowUp: '↑',
+  ArrowDown: '↓',
+};
+
+export class Keymap {
+  private bindings = new Map<string, string[]>();
+  private readonly listeners = new Set<() => void>();
+
+  constructor(private readonly storage: KeymapStorage | null = getDefaultStorage()) {
+    this.resetBindings();
+    this.restore();
+  }
+
+  getActions(): ReadonlyArray<KeyActionDefinition> {
+    return KEY_ACTIONS;
+  }
+
+  getBindings(actionId: string): ReadonlyArray<string> {
+    return this.bindings.get(actionId) ?? [];
+  }
+
+  findAction(chord: string): string | null {
+    for (const [actionId, chords] of this.bindings) {
+      if (chords.includes(chord)) {
+        return actionId;
+      }
+    }
+    return null;
+  }
+
+  /** Binds `chord` to the action in place of its current keys, taking it away from any other action. */
+  rebind(actionId: string, chord: string): void {
+    if (!this.bindings.has(actionId)) {
+      throw new Error(`Unknown key action "${actionId}".`);
+    }
+    for (const [otherId, chords] of this.bindings) {
+      if (otherId !== actionId && chords.includes(chord)) {
+        this.bindings.set(otherId, chords.filter((candidate) => candidate !== chord));
+      }
+    }
+    this.bindings.set(actionId, [chord]);
+    this.persist();
+    this.emit();
+  }
+
+  resetToDefaults(): void {
+    this.resetBindings();
+    try {
+      this.storage?.removeItem(STORAGE_KEY);
+    } catch {
+      // Swallow storage errors (disabled storage, etc.).
+    }
+    this.emit();
+  }
+
+  isCustomized(actionId: string): boolean {
+    const defaults = KEY_ACTIONS.find((action) => action.id === actionId)?.defaultKeys ?? [];
+    const current = this.getBindings(actionId);
+    return current.length !== defaults.length || current.some((chord, index) => chord !== defaults[index]);
+  }
+
+  onChange(listener: () => void): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  private resetBindings(): void {
+    this.bindings = new Map(KEY_ACTIONS.map((action) => [action.id, [...action.defaultKeys]]));
+  }
+
+  // Only customised actions are stored, so new default bindings still reach existing users.
+  private persist(): void {
+    if (!this.storage) {
+      return;
+    }
+    const overrides: Record<string, string[]> = {};
+    for (const action of KEY_ACTIONS) {
+      if (this.isCustomized(action.id)) {
+        overrides[action.id] = [...this.getBindings(action.id)];
+      }
+    }
+    try {
+      this.storage.setItem(STORAGE_KEY, JSON.stringify(overrides));
+    } catch {
+      // Swallow storage errors (quota exceeded, disabled storage, etc.).
+    }
+  }
+
+  private restore(): void {
+    try {
+      const stored = this.storage?.getItem(STORAGE_KEY);
+      if (!stored) {
+        return;
+      }
+      const parsed = JSON.parse(stored) as Record<string, unknown> | null;
+      if (!parsed || typeof parsed !== 'object') {
+        return;
+      }
+      for (const [actionId, chords] of Object.entries(parsed)) {
+        if (!this.bindings.has(actionId) || !Array.isArray(chords)) {
+          continue;
+        }
+        const valid = chords.filter((chord): chord is string => typeof chord === 'string');
+        for (const [otherId, otherChords] of this.bindings) {
+          if (otherId !== actionId) {
+            this.bindings.set(otherId, otherChords.filter((chord) => !valid.includes(chord)));
+          }
+        }
+        this.bindings.set(actionId, valid);
+      }
+    } catch {
+      // Ignore malformed storage data.
+    }
+  }
+
+  private emit(): void {
+    this.listeners.forEach((listener) => listener());
+  }
+}
+
+function getDefaultStorage(): KeymapStorage | null {
+  try {
+    return typeof window === 'undefined' ? null : window.localStorage ?? null;
+  } catch {
+    return null;
+  }
+}
@@ -174,6 +174,85 @@ export function mat4Multiply(a: Float32Array, b: Float32Array): Float32Array {
   return out;
 }
 
+export function mat4Invert(m: Float32Array): Float32Array | null {
+  const a00 = m[0];
+  const a01 = m[1];
+  const a02 = m[2];
+  const a03 = m[3];
+  const a10 = m[4];
+  const a11 = m[5];
+  const a12 = m[6];
+  const a13 = m[7];
+  const a20 = m[8];
+  const a21 = m[9];
+  const a22 = m[10];
+  const a23 = m[11];
+  const a30 = m[12];
+  const a31 = m[13];
+  const a32 = m[14];
+  const a33 = m[15];
+
+  const b00 = a00 * a11 - a01 * a10;
+  const b01 = a00 * a12 - a02 * a10;
+  const b02 = a00 * a13 - a03 * a10;
+  const b03 = a01 * a12 - a02 * a11;
+  const b04 = a01 * a13 - a03 * a11;
+  const b05 = a02 * a13 - a03 * a12;
+  const b06 = a20 * a31 - a21 * a30;
+  const b07 = a20 * a32 - a22 * a30;
+  const b08 = a20 * a33 - a23 * a30;
+  const b09 = a21 * a32 - a22 * a31;
+  const b10 = a21 * a33 - a23 * a31;
+  const b11 = a22 * a33 - a23 * a32;
+
+  const det = b00 * b11 - b01 * b10 + b02 * b09 + b03 * b08 - b04 * b07 + b05 * b06;
+  if (Math.abs(det) < 1e-12) {
+    return null;
+  }
+  const invDet = 1 / det;
+
+  return new Float32Array([
+    (a11 * b11 - a12 * b10 + a13 * b09) * invDet,
+    (a02 * b10 - a01 * b11 - a03 * b09) * invDet,
+    (a31 * b05 - a32 * b04 + a33 * b03) * invDet,
+    (a22 * b04 - a21 * b05 - a23 * b03) * invDet,
+    (a12 * b08 - a10 * b11 - a13 * b07) * invDet,
+    (a00 * b11 - a02 * b08 + a03 * b07) * invDet,
+    (a32 * b02 - a30 * b05 - a33 * b01) * invDet,
+    (a20 * b05 - a22 * b02 + a23 * b01) * invDet,
+    (a10 * b10 - a11 * b08 + a13 * b06) * invDet,
+    (a01 * b08 - a00 * b10 - a03 * b06) * invDet,
+    (a30 * b04 - a31 * b02 + a33 * b00) * invDet,
+    (a21 * b02 - a20 * b04 - a23 * b00) * invDet,
+    (a11 * b07 - a10 * b09 - a12 * b06) * invDet,
+    (a00 * b09 - a01 * b07 + a02 * b06) * invDet,
+    (a31 * b01 - a30 * b03 - a32 * b00) * invDet,
+    (a20 * b03 - a21 * b01 + a22 * b00) * invDet,
+  ]);
+}
+
+/**
+ * Transforms a point by a column-major 4×4 matrix, dividing by w. Affine matrices leave w at 1; a
+ * projective one whose w comes out as 0 gives non-finite coordinates.
+ */
+export function transformPoint(m: Float32Array, [x, y, z]: Vec3): Vec3 {
+  const w = m[3] * x + m[7] * y + m[11] * z + m[15];
+  return [
+    (m[0] * x + m[4] * y + m[8] * z + m[12]) / w,
+    (m[1] * x + m[5] * y + m[9] * z + m[13]) / w,
+    (m[2] * x + m[6] * y + m[10] * z + m[14]) / w,
+  ];
+}
+
+/** Transforms a direction by the matrix's upper 3×3, ignoring translation. */
+export function transformDirection(m: Float32Array, [x, y, z]: Vec3): Vec3 {
+  return [
+    m[0] * x + m[4] * y + m[8] * z,
+    m[1] * x + m[5] * y + m[9] * z,
+    m[2] * x + m[6] * y + m[10] * z,
+  ];
+}
+
 export function mat4Perspective(fovy: number, aspect: number, near: number, far: number): Float32Array {
   const f = 1.0 / Math.tan(fovy / 2);
   const nf = 1 / (near - far);
@@ -186,6 +265,26 @@ export function mat4Perspective(fovy: number, aspect: number, near: number, far:
   ]);
 }
 
+export function mat4Orthographic(
+  left: number,
+  right: number,
+  bottom: number,
+  top: number,
+  near: number,
+  far: number,
+): Float32Array {
+  const lr = 1 / (left - right);
+  const bt = 1 / (bottom - top);
+  const nf = 1 / (near - far);
+
+  return new Float32Array([
+    -2 * lr, 0, 0, 0,
+    0, -2 * bt, 0, 0,
+    0, 0, 2 * nf, 0,
+    (left + right) * lr, (top + bottom) * bt, (far + near) * nf, 1,
+  ]);
+}
+
 export function mat4LookAt(
   eye: Vec3,
   target: Vec3,
@@ -0,0 +1,161 @@
+// picking.ts — casts viewport rays and intersects them with the meshes' local-space shapes
+import { mat4Invert, mat4Multiply, transformDirection, transformPoint, type Vec3 } from './math3d';
+
+export interface PickRay {
+  origin: Vec3;
+  direction: Vec3;
+}
+
+/** Local-space silhouettes of the meshes drawn by the renderer. */
+export type PickShape =
+  // Unit sphere mesh (spheres, RGP shells).
+  | { kind: 'sphere' }
+  // Twirl mesh: open cylinder of radius 1 spanning y ∈ [-halfHeight, halfHeight].
+  | { kind: 'band'; halfHeight: number }
+  // Figure-8 blades lying in the z = 0 plane, tips at x = ±halfWidth.
+  | { kind: 'figure8'; halfWidth: number; halfHeight: number };
+
+export interface PickCandidate<T> {
+  value: T;
+  modelMatrix: Float32Array;
+  shape: PickShape;
+}
+
+/** Height of the twirl mesh band before the belt scale is applied (see createTwirlMesh). */
+export const TWIRL_MESH_HALF_HEIGHT = 0.65;
+
+/**
+ * Builds a world-space ray through a client-space point, using the same view and projection
+ * matrices the renderer drew the last frame with.
+ */
+export function createPickRay(
+  clientX: number,
+  clientY: number,
+  bounds: DOMRect,
+  viewMatrix: Float32Array,
+  projectionMatrix: Float32Array,
+): PickRay | null {
+  if (bounds.width <= 0 || bounds.height <= 0) {
+    return null;
+  }
+  const inverse = mat4Invert(mat4Multiply(projectionMatrix, viewMatrix));
+  if (!inverse) {
+    return null;
+  }
+
+  const ndcX = ((clientX - bounds.left) / bounds.width) * 2 - 1;
+  const ndcY = 1 - ((clientY - bounds.top) / bounds.height) * 2;
+  const near = transformPoint(inverse, [ndcX, ndcY, -1]);
+  const far = transformPoint(inverse, [ndcX, ndcY, 1]);
+  if (!isFiniteVec3(near) || !isFiniteVec3(far)) {
+    return null;
+  }
+  return { origin: near, direction: [far[0] - near[0], far[1] - near[1], far[2] - near[2]] };
+}
+
+/**
+ * Returns the candidate whose shape the ray enters first, or null when nothing is hit. Distances
+ * are compared as ray parameters, which stay valid after moving the ray into each local space.
+ */
+export function pickNearest<T>(ray: PickRay, candidates: ReadonlyArray<PickCandidate<T>>): T | null {
+  let best: T | null = null;
+  let bestDistance = Number.POSITIVE_INFINITY;
+
+  for (const candidate of candidates) {
+    const inverse = mat4Invert(candidate.modelMatrix);
+    if (!inverse) {
+      continue;
+    }
+    const origin = transformPoint(inverse, ray.origin);
+    if (!isFiniteVec3(origin)) {
+      continue;
+    }
+    const local: PickRay = { origin, direction: transformDirection(inverse, ray.direction) };
+    const distance = intersectShape(local, candidate.shape);
+    if (distance !== null && distance < bestDistance) {
+      bestDistance = distance;
+      best = candidate.value;
+    }
+  }
+
+  return best;
+}
+
+function intersectShape(ray: PickRay, shape: PickShape): number | null {
+  switch (shape.kind) {
+    case 'sphere':
+      return intersectUnitSphere(ray);
+    case 'band':
+      return intersectBand(ray, shape.halfHeight);
+    case 'figure8':
+      return intersectFigure8(ray, shape.halfWidth, shape.halfHeight);
+  }
+}
+
+function intersectUnitSphere({ origin: [ox, oy, oz], direction: [dx, dy, dz] }: PickRay): number | null {
+  const a = dx * dx + dy * dy + dz * dz;
+  const b = 2 * (ox * dx + oy * dy + oz * dz);
+  const c = ox * ox + oy * oy + oz * oz - 1;
+  const roots = solveQuadratic(a, b, c);
+  return roots ? firstNonNegative(roots) : null;
+}
+
+function intersectBand({ origin: [ox, oy, oz], direction: [dx, dy, dz] }: PickRay, halfHeight: number): number | null {
+  const roots = solveQuadratic(dx * dx + dz * dz, 2 * (ox * dx + oz * dz), ox * ox + oz * oz - 1);
+  if (!roots) {
+    return null;
+  }
+  // The band is open, so the far wall is still pickable when the near hit misses the belt.
+  for (const t of roots) {
+    if (t >= 0 && Math.abs(oy + dy * t) <= halfHeight) {
+      return t;
+    }
+  }
+  return null;
+}
+
+function intersectFigure8(
+  { origin: [ox, oy, oz], direction: [dx, dy, dz] }: PickRay,
+  halfWidth: number,
+  halfHeight: number,
+): number | null {
+  if (Math.abs(dz) < 1e-9) {
+    return null;
+  }
+  const t = -oz / dz;
+  if (t < 0) {
+    return null;
+  }
+  const x = Math.abs(ox + dx * t);
+  const y = Math.abs(oy + dy * t);
+  if (x > halfWidth || halfWidth <= 0) {
+    return null;
+  }
+  // Each blade tapers to the centre and tip; an ellipse per lobe is close enough to click.
+  const u = (x - halfWidth / 2) / (halfWidth / 2);
+  const v = halfHeight > 0 ? y / halfHeight : Number.POSITIVE_INFINITY;
+  return u * u + v * v <= 1 ? t : null;
+}
+
+function solveQuadratic(a: number, b: number, c: number): [number, number] | null {
+  if (Math.abs(a) < 1e-12) {
+    return null;
+  }
+  const discriminant = b * b - 4 * a * c;
+  if (discriminant < 0) {
+    return null;
+  }
+  const root = Math.sqrt(discriminant);
+  return [(-b - root) / (2 * a), (-b + root) / (2 * a)];
+}
+
+function firstNonNegative([near, far]: [number, number]): number | null {
+  if (near >= 0) {
+    return near;
+  }
+  return far >= 0 ? far : null;
+}
+
+function isFiniteVec3(vec: Vec3): boolean {
+  return vec.every(Number.isFinite);
+}
@@ -0,0 +1,307 @@
+// sceneFile.ts — versioned JSON scene documents and the migrations between their schema versions
+import { AXES, BASE_COLORS, SPIN_PLANES, type BaseColor, type SimObjectDefinition } from '../engine/assets/simTypes';
+import type { CameraBookmark, CameraState } from './camera';
+
+export const SCENE_FILE_FORMAT = 'netty-scene';
+export const SCENE_FILE_VERSION = 5;
+
+export interface SceneRingState {
+  rotationY: number;
+  speedPerTick: number;
+  direction: 1 | -1;
+  plane: 'YG' | 'GB' | 'YB';
+  shellScale: number;
+  baseColor: BaseColor;
+  shadingIntensity: number;
+  opacity: number;
+  beltHalfAngle: number;
+  pulsesPerRevolution: number;
+  pulsePhase: number;
+  pulseScale: number;
+  invertPulse: boolean;
+  visible: boolean;
+  contracted: boolean;
+}
+
+export interface SceneObjectState {
+  rotationX?: number;
+  rotationY?: number;
+  rotationZ?: number;
+  pulsePhase?: number;
+  pulseScale?: number;
+  scriptIndex?: number;
+  beatAccumulator?: number;
+  currentDirection?: 1 | -1;
+  lobeOrientation?: 1 | -1;
+  wasCollapsed?: boolean;
+  primary?: Partial<SceneRingState>;
+  secondary?: Partial<SceneRingState>;
+  sphereOpacity?: number;
+  growBeatAccumulator?: number;
+  linkedRgpId?: string | null;
+  linkedRingType?: 'primary' | 'secondary' | null;
+}
+
+export interface SceneObjectRecord {
+  definition: SimObjectDefinition;
+  state: SceneObjectState;
+}
+
+export interface SceneDocument {
+  format: typeof SCENE_FILE_FORMAT;
+  version: typeof SCENE_FILE_VERSION;
+  savedAt: string;
+  segmentId: string | null;
+  selectedObjectId: string | null;
+  simulation: {
+    beat: number;
+    speed: number;
+  };
+  /** Fields that failed validation on import are left out. */
+  camera: Partial<CameraState>;
+  cameraBookmarks: CameraBookmark[];
+  objects: SceneObjectRecord[];
+}
+
+type SceneMigration = (document: Record<string, unknown>) => Record<string, unknown>;
+
+type FieldCheck = (value: unknown) => boolean;
+
+const isFiniteNumber: FieldCheck = (value) => typeof value === 'number' && Number.isFinite(value);
+const isOneOf = (options: ReadonlyArray<unknown>): FieldCheck => (value) => options.includes(value);
+const isPlane = isOneOf(SPIN_PLANES);
+const isAxis = isOneOf(AXES);
+const isLatticePlacement: FieldCheck = (value) =>
+  value === undefined ||
+  (isRecord(value) && Array.isArray(value.cell) && value.cell.length === 3 && value.cell.every(isFiniteNumber) && isFiniteNumber(value.depth));
+
+const isBoolean: FieldCheck = (value) => typeof value === 'boolean';
+
+// Saved ring and camera fields are applied as they are, so a value that fails its check is dropped
+// and the live default stays in place.
+const RING_STATE_FIELDS: Record<keyof SceneRingState, FieldCheck> = {
+  rotationY: isFiniteNumber,
+  speedPerTick: isFiniteNumber,
+  direction: isOneOf([1, -1]),
+  plane: isPlane,
+  shellScale: isFiniteNumber,
+  baseColor: isOneOf(BASE_COLORS),
+  shadingIntensity: isFiniteNumber,
+  opacity: isFiniteNumber,
+  beltHalfAngle: isFiniteNumber,
+  pulsesPerRevolution: isFiniteNumber,
+  pulsePhase: isFiniteNumber,
+  pulseScale: isFiniteNumber,
+  invertPulse: isBoolean,
+  visible: isBoolean,
+  contracted: isBoolean,
+};
+
+const CAMERA_FIELDS: Record<keyof CameraState, FieldCheck> = {
+  azimuth: isFiniteNumber,
+  elevation: isFiniteNumber,
+  distance: isFiniteNumber,
+  panX: isFiniteNumber,
+  panY: isFiniteNumber,
+  panZ: isFiniteNumber,
+};
+
+// Fields the world cannot build an object without; everything else falls back to a default.
+const REQUIRED_DEFINITION_FIELDS: Record<SimObjectDefinition['type'], Record<string, FieldCheck>> = {
+  sphere: { speedPerTick: isFiniteNumber, direction: isFiniteNumber, plane: isPlane },
+  twirl: { speedPerTick: isFiniteNumber, direction: isFiniteNumber, plane: isPlane, beltHalfAngle: isFiniteNumber },
+  'twirling-axis': { speedPerTick: isFiniteNumber, direction: isFiniteNumber },
+  rgpXY: { size: isFiniteNumber },
+  twirl8: { axis: isAxis, radius: isFiniteNumber, color: isOneOf(BASE_COLORS) },
+  dexel: { axis: isAxis, sign: isFiniteNumber, size: isFiniteNumber, lattice: isLatticePlacement },
+};
+
+// Each entry upgrades a document from version `key` to `key + 1`.
+const MIGRATIONS: Record<number, SceneMigration> = {
+  // Version 2 added the segment's camera bookmarks.
+  1: (document) => ({ ...document, cameraBookmarks: [] }),
+  // Version 3 locked ring pulses to the ring spin: wall-clock `pulseSpeed` became `pulsesPerRevolution`.
+  2: (document) => ({
+    ...document,
+    objects: mapRecords(document.objects, (record) => ({
+      ...record,
+      definition: migratePulseSpeed(record.definition),
+      state: isRecord(record.state)
+        ? { ...record.state, primary: migratePulseSpeed(record.state.primary), secondary: migratePulseSpeed(record.state.secondary) }
+        : record.state,
+    })),
+    dexels: mapRecords(document.dexels, (dexel) => ({
+      ...dexel,
+      primary: migratePulseSpeed(dexel.primary),
+      secondary: migratePulseSpeed(dexel.secondary),
+    })),
+  }),
+  // Version 4 grew dexels into a lattice: each one records its cell and generation.
+  3: (document) => ({
+    ...document,
+    dexels: mapRecords(document.dexels, (dexel) => {
+      const cell = [0, 0, 0];
+      const axisIndex = ['x', 'y', 'z'].indexOf(String(dexel.axis));
+      if (axisIndex !== -1) {
+        cell[axisIndex] = dexel.sign === -1 ? -1 : 1;
+      }
+      return { ...dexel, cell, depth: 1 };
+    }),
+  }),
+  // Version 5 made spawned dexels sim objects anchored to their RGP, so the separate list folds into `objects`.
+  4: (document) => {
+    const { dexels, ...rest } = document;
+    const objects = Array.isArray(document.objects) ? document.objects : [];
+    const usedIds = new Set(objects.map((record) => (isRecord(record) && isRecord(record.definition) ? record.definition.id : null)));
+    const spawned = (Array.isArray(dexels) ? dexels : []).filter(isRecord).map((dexel) => {
+      const sourceId = String(dexel.sourceId);
+      let index = 1;
+      while (usedIds.has(`${sourceId}-dexel-${index}`)) {
+        index += 1;
+      }
+      const id = `${sourceId}-dexel-${index}`;
+      usedIds.add(id);
+      const primary = isRecord(dexel.primary) ? dexel.primary : {};
+      const secondary = isRecord(dexel.secondary) ? dexel.secondary : {};
+      return {
+        definition: {
+          type: 'dexel',
+          id,
+          axis: dexel.axis,
+          sign: dexel.sign,
+          size: dexel.size,
+          speedPerTick: 1,
+          direction: 1,
+          visible: true,
+          anchorId: sourceId,
+          primarySpeedRatio: typeof primary.speedPerTick === 'number' ? primary.speedPerTick : 1,
+          secondarySpeedRatio: typeof secondary.speedPerTick === 'number' ? secondary.speedPerTick : 1,
+          lattice: { cell: dexel.cell, depth: dexel.depth },
+        },
+        state: { primary, secondary },
+      };
+    });
+    return { ...rest, objects: [...objects, ...spawned] };
+  },
+};
+
+// Version 2 pulses ran `pulseSpeed / 4` cycles per wall-clock second, and at the default 30 beats
+// per second one turn at speedPerTick 1 took 180 beats (6 s).
+const LEGACY_SECONDS_PER_REVOLUTION = 6;
+
+function migratePulseSpeed(ring: unknown): unknown {
+  if (!isRecord(ring) || typeof ring.pulseSpeed !== 'number') {
+    return ring;
+  }
+  const { pulseSpeed, ...rest } = ring;
+  const speed = typeof ring.speedPerTick === 'number' && ring.speedPerTick !== 0 ? Math.abs(ring.speedPerTick) : 1;
+  return { ...rest, pulsesPerRevolution: (pulseSpeed * 0.25 * LEGACY_SECONDS_PER_REVOLUTION) / speed };
+}
+
+function mapRecords(list: unknown, migrate: (record: Record<string, unknown>) => Record<string, unknown>): unknown {
+  return Array.isArray(list) ? list.map((item) => (isRecord(item) ? migrate(item) : item)) : list;
+}
+
+export function migrateSceneDocument(raw: unknown): SceneDocument {
+  if (!isRecord(raw) || raw.format !== SCENE_FILE_FORMAT) {
+    throw new Error('Not a Netty scene file.');
+  }
+
+  let version = raw.version;
+  if (typeof version !== 'number' || !Number.isInteger(version) || version < 1) {
+    throw new Error(`Scene file has an invalid version: ${String(version)}.`);
+  }
+  if (version > SCENE_FILE_VERSION) {
+    throw new Error(
+      `Scene file version ${version} is newer than this build supports (version ${SCENE_FILE_VERSION}).`,
+    );
+  }
+
+  let document: Record<string, unknown> = raw;
+  while (version < SCENE_FILE_VERSION) {
+    const migrate = MIGRATIONS[version];
+    if (!migrate) {
+      throw new Error(`No migration from scene version ${version}.`);
+    }
+    document = migrate(document);
+    version += 1;
+    document.version = version;
+  }
+
+  return validateSceneDocument(document);
+}
+
+function validateSceneDocument(document: Record<string, unknown>): SceneDocument {
+  if (!Array.isArray(document.objects)) {
+    throw new Error('Scene file is missing its object list.');
+  }
+  const ids = new Set<string>();
+  for (const [index, record] of document.objects.entries()) {
+    if (!isRecord(record) || !isRecord(record.definition) || typeof record.definition.id !== 'string') {
+      throw new Error(`Scene object ${index} is malformed.`);
+    }
+    const { definition } = record;
+    const id = record.definition.id;
+    if (ids.has(id)) {
+      throw new Error(`Scene object id ${id} is used more than once.`);
+    }
+    ids.add(id);
+    const type = String(definition.type);
+    if (!Object.prototype.hasOwnProperty.call(REQUIRED_DEFINITION_FIELDS, type)) {
+      throw new Error(`Scene object ${id} has unknown type "${type}".`);
+    }
+    const required = REQUIRED_DEFINITION_FIELDS[type as SimObjectDefinition['type']];
+    for (const [field, check] of Object.entries(required)) {
+      if (!check(definition[field])) {
+        throw new Error(`Scene object ${id} (${type}) has a missing or invalid ${field}.`);
+      }
+    }
+    const state = isRecord(record.state) ? record.state : {};
+    for (const ring of ['primary', 'secondary']) {
+      const saved = state[ring];
+      if (isRecord(saved)) {
+        state[ring] = keepValidFields(saved, RING_STATE_FIELDS);
+      } else {
+        delete state[ring];
+      }
+    }
+    record.state = state;
+  }
+  if (!isRecord(document.camera)) {
+    throw new Error('Scene file is missing its camera state.');
+  }
+  document.camera = keepValidFields(document.camera, CAMERA_FIELDS);
+  document.cameraBookmarks = Array.isArray(document.cameraBookmarks)
+    ? document.cameraBookmarks.filter(
+        (bookmark) =>
+          isRecord(bookmark) &&
+          typeof bookmark.name === 'string' &&
+          isRecord(bookmark.camera) &&
+          Object.entries(CAMERA_FIELDS).every(([field, check]) => check((bookmark.camera as Record<string, unknown>)[field])),
+      )
+    : [];
+  const simulation = isRecord(document.simulation) ? document.simulation : {};
+  document.simulation = {
+    beat: isFiniteNumber(simulation.beat) && (simulation.beat as number) >= 0 ? simulation.beat : 0,
+    speed: isFiniteNumber(simulation.speed) && (simulation.speed as number) > 0 ? simulation.speed : 30,
+  };
+  if (typeof document.segmentId !== 'string') {
+    document.segmentId = null;
+  }
+  if (typeof document.selectedObjectId !== 'string') {
+    document.selectedObjectId = null;
+  }
+  return document as unknown as SceneDocument;
+}
+
+function keepValidFields(value: Record<string, unknown>, checks: Record<string, FieldCheck>): Record<string, unknown> {
+  return Object.fromEntries(
+    Object.entries(checks)
+      .filter(([field, check]) => check(value[field]))
+      .map(([field]) => [field, value[field]]),
+  );
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
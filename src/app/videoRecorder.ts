@@ -0,0 +1,117 @@
+// videoRecorder.ts — WebM recording of the viewport through MediaRecorder, with optional text burn-in
+
+export const VIDEO_FRAME_RATES: ReadonlyArray<number> = [24, 30, 60];
+
+const WEBM_MIME_TYPES = ['video/webm;codecs=vp9', 'video/webm;codecs=vp8', 'video/webm'];
+export const VIDEO_BITS_PER_SECOND = 12_000_000;
+
+export interface VideoRecorderOptions {
+  frameRate: number;
+  /** Text drawn into the bottom-left corner of every frame, or null for a clean picture. */
+  getBurnIn?: () => string | null;
+}
+
+/** First WebM flavour the browser can encode, best codec first. */
+export function pickWebmMimeType(isTypeSupported: (type: string) => boolean): string | null {
+  return WEBM_MIME_TYPES.find((type) => isTypeSupported(type)) ?? null;
+}
+
+export function formatBurnIn(segmentName: string | null, beat: number): string {
+  return `${segmentName ?? 'No segment'} · beat ${Math.floor(beat)}`;
+}
+
+/**
+ * Records from a 2D canvas that each rendered frame is copied into, rather than from the WebGL
+ * canvas itself: the copy is where burn-in text is drawn, and copying right after the render keeps
+ * the frame without turning on preserveDrawingBuffer. captureStream(frameRate) caps the stream at
+ * the chosen rate, and copies closer together than one frame interval are skipped.
+ */
+export class VideoRecorder {
+  private readonly composite: HTMLCanvasElement;
+  private readonly context: CanvasRenderingContext2D;
+  private readonly recorder: MediaRecorder;
+  private readonly chunks: Blob[] = [];
+  private readonly stopped: Promise<Blob>;
+  private lastFrameTime = Number.NEGATIVE_INFINITY;
+
+  constructor(
+    private readonly source: HTMLCanvasElement,
+    private readonly options: VideoRecorderOptions,
+  ) {
+    if (typeof MediaRecorder === 'undefined') {
+      throw new Error('This browser cannot record video (MediaRecorder is unavailable).');
+    }
+    const mimeType = pickWebmMimeType((type) => MediaRecorder.isTypeSupported(type));
+    if (!mimeType) {
+      throw new Error('This browser cannot encode WebM video.');
+    }
+
+    this.composite = document.createElement('canvas');
+    this.composite.width = source.width;
+    this.composite.height = source.height;
+    const context = this.composite.getContext('2d');
+    if (!context) {
+      throw new Error('2D canvas context unavailable for video recording.');
+    }
+    this.context = context;
+
+    const stream = this.composite.captureStream(options.frameRate);
+    this.recorder = new MediaRecorder(stream, { mimeType, videoBitsPerSecond: VIDEO_BITS_PER_SECOND });
+    this.recorder.addEventListener('dataavailable', (event) => {
+      if (event.data.size > 0) {
+        this.chunks.push(event.data);
+      }
+    });
+    this.stopped = new Promise((resolve, reject) => {
+      this.recorder.addEventListener('stop', () => {
+        stream.getTracks().forEach((track) => track.stop());
+        resolve(new Blob(this.chunks, { type: 'video/webm' }));
+      });
+      this.recorder.addEventListener('error', (event) => {
+        reject(new Error(`Video recording failed: ${String((event as Event & { error?: unknown }).error ?? 'unknown error')}`));
+      });
+    });
+  }
+
+  start(): void {
+    this.drawFrame(performance.now());
+    this.recorder.start(1000);
+  }
+
+  isRecording(): boolean {
+    return this.recorder.state === 'recording';
+  }
+
+  /** Copies the source canvas into the stream; call right after the source has been rendered. */
+  drawFrame(now: number): void {
+    if (now - this.lastFrameTime < 1000 / this.options.frameRate - 1) {
+      return;
+    }
+    this.lastFrameTime = now;
+
+    // The recording keeps the size it started with; resizes are scaled into it.
+    const { width, height } = this.composite;
+    this.context.drawImage(this.source, 0, 0, width, height);
+
+    const text = this.options.getBurnIn?.() ?? null;
+    if (text) {
+      const fontSize = Math.max(12, Math.round(height / 36));
+      const padding = Math.round(fontSize * 0.6);
+      this.context.font = `600 ${fontSize}px ui-monospace, SFMono-Regular, Menlo, monospace`;
+      this.context.textBaseline = 'bottom';
+      const textWidth = this.context.measureText(text).width;
+      this.context.fillStyle = 'rgba(12, 16, 32, 0.7)';
+      this.context.fillRect(padding / 2, height - fontSize - padding * 1.5, textWidth + padding * 2, fontSize + padding);
+      this.context.fillStyle = '#f0f4ff';
+      this.context.fillText(text, padding * 1.5, height - padding);
+    }
+  }
+
+  /** Stops recording and resolves with the finished WebM file. */
+  stop(): Promise<Blob> {
+    if (this.recorder.state !== 'inactive') {
+      this.recorder.stop();
+    }
+    return this.stopped;
+  }
+}
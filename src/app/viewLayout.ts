@@ -0,0 +1,62 @@
+// viewLayout.ts — viewport panes for the single and four-pane (top/front/side/perspective) layouts
+import type { CameraState } from './camera';
+
+export type ViewLayout = 'single' | 'quad';
+
+export type ProjectionMode = 'perspective' | 'orthographic';
+
+export type ViewPaneId = 'top' | 'free' | 'front' | 'side';
+
+export interface ViewPaneDefinition {
+  id: ViewPaneId;
+  label: string;
+  // Plane the pane looks straight at, named like the spin planes in simTypes.ts; null for the
+  // free perspective pane.
+  plane: 'YG' | 'GB' | 'YB' | null;
+  orientation: Pick<CameraState, 'azimuth' | 'elevation'> | null;
+  column: 0 | 1;
+  row: 0 | 1;
+}
+
+/** Fractions of the canvas, measured from its top-left corner like CSS. */
+export interface PaneRect {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export const VIEW_PANES: ReadonlyArray<ViewPaneDefinition> = [
+  // Looking down -Y onto the G/B (X/Z) plane.
+  { id: 'top', label: 'Top · GB', plane: 'GB', orientation: { azimuth: 0, elevation: Math.PI / 2 }, column: 0, row: 0 },
+  { id: 'free', label: 'Perspective', plane: null, orientation: null, column: 1, row: 0 },
+  // Looking down -Z onto the Y/G (X/Y) plane.
+  { id: 'front', label: 'Front · YG', plane: 'YG', orientation: { azimuth: 0, elevation: 0 }, column: 0, row: 1 },
+  // Looking down -X onto the Y/B (Y/Z) plane.
+  { id: 'side', label: 'Side · YB', plane: 'YB', orientation: { azimuth: Math.PI / 2, elevation: 0 }, column: 1, row: 1 },
+];
+
+export function getPaneRect(pane: ViewPaneDefinition, layout: ViewLayout): PaneRect | null {
+  if (layout === 'single') {
+    return pane.id === 'free' ? { x: 0, y: 0, width: 1, height: 1 } : null;
+  }
+  return { x: pane.column * 0.5, y: pane.row * 0.5, width: 0.5, height: 0.5 };
+}
+
+/** Converts a pane rectangle into a WebGL viewport, whose origin is the bottom-left pixel. */
+export function getPaneViewport(
+  rect: PaneRect,
+  canvasWidth: number,
+  canvasHeight: number,
+): { x: number; y: number; width: number; height: number } {
+  const left = Math.round(rect.x * canvasWidth);
+  const right = Math.round((rect.x + rect.width) * canvasWidth);
+  const top = Math.round(rect.y * canvasHeight);
+  const bottom = Math.round((rect.y + rect.height) * canvasHeight);
+  return {
+    x: left,
+    y: canvasHeight - bottom,
+    width: Math.max(1, right - left),
+    height: Math.max(1, bottom - top),
+  };
+}
@@ -9,7 +9,9 @@ import type {
   TwirlingAxisObjectDefinition,
   SimObjectDefinition,
   BaseColor,
+  GhostPoint,
 } from '../engine/assets/simTypes';
+import { AXES, BASE_COLORS, OBJECT_GHOST_POINTS, SPIN_PLANES } from '../engine/assets/simTypes';
 
 export interface AssetBehaviorContext {
   ticksPerBeat: number;
@@ -27,14 +29,35 @@ export interface AssetBuildResult {
   behavior?: AssetBehavior;
 }
 
+/** How a config option is edited; `choice` lists every value the option accepts. */
+export type AssetConfigField =
+  | { kind: 'number' }
+  | { kind: 'boolean' }
+  | { kind: 'text' }
+  | { kind: 'choice'; options: ReadonlyArray<string | number> };
+
 export interface AssetDefinition<TConfig extends object = Record<string, unknown>> {
   id: string;
   label: string;
   description?: string;
   defaultConfig: TConfig;
+  /** Editor for every config option, optional ones included. */
+  fields: { [K in keyof TConfig]-?: AssetConfigField };
   build(params: AssetBuildParams<TConfig>): AssetBuildResult;
 }
 
+const NUMBER_FIELD: AssetConfigField = { kind: 'number' };
+const BOOLEAN_FIELD: AssetConfigField = { kind: 'boolean' };
+const TEXT_FIELD: AssetConfigField = { kind: 'text' };
+const COLOR_FIELD: AssetConfigField = { kind: 'choice', options: BASE_COLORS };
+const PLANE_FIELD: AssetConfigField = { kind: 'choice', options: SPIN_PLANES };
+const AXIS_FIELD: AssetConfigField = { kind: 'choice', options: AXES };
+const DIRECTION_FIELD: AssetConfigField = { kind: 'choice', options: [1, -1] };
+
+function ghostPointField(type: SimObjectDefinition['type']): AssetConfigField {
+  return { kind: 'choice', options: OBJECT_GHOST_POINTS[type] };
+}
+
 function mergeConfig<TConfig extends object>(defaults: TConfig, overrides: Partial<TConfig>): TConfig {
   return { ...defaults, ...overrides } as TConfig;
 }
@@ -49,6 +72,8 @@ interface SphereAssetConfig extends Record<string, unknown> {
   shadingIntensity: number;
   opacity: number;
   initialRotationY?: number;
+  emitGhost: boolean;
+  ghostPoint: GhostPoint;
 }
 
 const sphereDefaults: SphereAssetConfig = {
@@ -60,6 +85,8 @@ const sphereDefaults: SphereAssetConfig = {
   visible: false,
   shadingIntensity: 0.4,
   opacity: 1,
+  emitGhost: false,
+  ghostPoint: 'rim',
 };
 
 const sphereAsset: AssetDefinition<SphereAssetConfig> = {
@@ -67,6 +94,19 @@ const sphereAsset: AssetDefinition<SphereAssetConfig> = {
   label: 'Sphere',
   description: 'Basic sphere geometry aligned to a spin plane.',
   defaultConfig: sphereDefaults,
+  fields: {
+    speedPerTick: NUMBER_FIELD,
+    direction: DIRECTION_FIELD,
+    plane: PLANE_FIELD,
+    shellSize: NUMBER_FIELD,
+    baseColor: COLOR_FIELD,
+    visible: BOOLEAN_FIELD,
+    shadingIntensity: NUMBER_FIELD,
+    opacity: NUMBER_FIELD,
+    initialRotationY: NUMBER_FIELD,
+    emitGhost: BOOLEAN_FIELD,
+    ghostPoint: ghostPointField('sphere'),
+  },
   build: ({ instanceId, config }) => {
     const merged = mergeConfig(sphereDefaults, config);
     const definition: SphereObjectDefinition = {
@@ -81,6 +121,8 @@ const sphereAsset: AssetDefinition<SphereAssetConfig> = {
       shadingIntensity: merged.shadingIntensity,
       opacity: merged.opacity,
       initialRotationY: merged.initialRotationY,
+      emitGhost: merged.emitGhost,
+      ghostPoint: merged.ghostPoint,
     };
     return { simObjects: [definition] };
   },
@@ -92,6 +134,11 @@ interface RgpXYAssetConfig extends Record<string, unknown> {
   primaryVisible: boolean;
   secondaryVisible: boolean;
   sphereVisible: boolean;
+  latticeDepth: number;
+  latticeBudget: number;
+  autoGrowBeats: number;
+  emitGhost: boolean;
+  ghostPoint: GhostPoint;
 }
 
 const rgpDefaults: RgpXYAssetConfig = {
@@ -100,6 +147,11 @@ const rgpDefaults: RgpXYAssetConfig = {
   primaryVisible: true,
   secondaryVisible: true,
   sphereVisible: true,
+  latticeDepth: 3,
+  latticeBudget: 24,
+  autoGrowBeats: 0,
+  emitGhost: false,
+  ghostPoint: 'poles',
 };
 
 const rgpXYAsset: AssetDefinition<RgpXYAssetConfig> = {
@@ -107,6 +159,18 @@ const rgpXYAsset: AssetDefinition<RgpXYAssetConfig> = {
   label: 'RGP XY Grid',
   description: 'Reference grid plane for RGP formations.',
   defaultConfig: rgpDefaults,
+  fields: {
+    size: NUMBER_FIELD,
+    visible: BOOLEAN_FIELD,
+    primaryVisible: BOOLEAN_FIELD,
+    secondaryVisible: BOOLEAN_FIELD,
+    sphereVisible: BOOLEAN_FIELD,
+    latticeDepth: NUMBER_FIELD,
+    latticeBudget: NUMBER_FIELD,
+    autoGrowBeats: NUMBER_FIELD,
+    emitGhost: BOOLEAN_FIELD,
+    ghostPoint: ghostPointField('rgpXY'),
+  },
   build: ({ instanceId, config }) => {
     const merged = mergeConfig(rgpDefaults, config);
     const definition: RgpXYObjectDefinition = {
@@ -117,6 +181,11 @@ const rgpXYAsset: AssetDefinition<RgpXYAssetConfig> = {
       primaryVisible: merged.primaryVisible,
       secondaryVisible: merged.secondaryVisible,
       sphereVisible: merged.sphereVisible,
+      latticeDepth: merged.latticeDepth,
+      latticeBudget: merged.latticeBudget,
+      autoGrowBeats: merged.autoGrowBeats,
+      emitGhost: merged.emitGhost,
+      ghostPoint: merged.ghostPoint,
     };
     return { simObjects: [definition] };
   },
@@ -132,7 +201,8 @@ interface TwirlingAxisAssetConfig extends Record<string, unknown> {
   initialRotationZ?: number;
   opacity: number;
   rotationScript?: string;
-  emitGhost?: boolean;
+  emitGhost: boolean;
+  ghostPoint: GhostPoint;
 }
 
 const twirlingAxisDefaults: TwirlingAxisAssetConfig = {
@@ -142,6 +212,7 @@ const twirlingAxisDefaults: TwirlingAxisAssetConfig = {
   size: 1,
   opacity: 1,
   emitGhost: true,
+  ghostPoint: 'tips',
 };
 
 const twirlingAxisAsset: AssetDefinition<TwirlingAxisAssetConfig> = {
@@ -149,6 +220,19 @@ const twirlingAxisAsset: AssetDefinition<TwirlingAxisAssetConfig> = {
   label: 'Twirling Axis',
   description: 'Reference axis used to visualize rotations.',
   defaultConfig: twirlingAxisDefaults,
+  fields: {
+    speedPerTick: NUMBER_FIELD,
+    direction: DIRECTION_FIELD,
+    visible: BOOLEAN_FIELD,
+    size: NUMBER_FIELD,
+    initialRotationX: NUMBER_FIELD,
+    initialRotationY: NUMBER_FIELD,
+    initialRotationZ: NUMBER_FIELD,
+    opacity: NUMBER_FIELD,
+    rotationScript: TEXT_FIELD,
+    emitGhost: BOOLEAN_FIELD,
+    ghostPoint: ghostPointField('twirling-axis'),
+  },
   build: ({ instanceId, config }) => {
     const merged = mergeConfig(twirlingAxisDefaults, config);
     const definition: TwirlingAxisObjectDefinition = {
@@ -164,6 +248,7 @@ const twirlingAxisAsset: AssetDefinition<TwirlingAxisAssetConfig> = {
       opacity: merged.opacity,
       rotationScript: merged.rotationScript,
       emitGhost: merged.emitGhost,
+      ghostPoint: merged.ghostPoint,
     };
     return { simObjects: [definition] };
   },
@@ -179,6 +264,8 @@ interface DexelAssetConfig extends Record<string, unknown> {
   anchorId?: string;
   primarySpeedRatio?: number;
   secondarySpeedRatio?: number;
+  emitGhost: boolean;
+  ghostPoint: GhostPoint;
 }
 
 const dexelDefaults: DexelAssetConfig = {
@@ -188,6 +275,8 @@ const dexelDefaults: DexelAssetConfig = {
   speedPerTick: 1,
   direction: 1,
   visible: false,
+  emitGhost: false,
+  ghostPoint: 'center',
 };
 
 const dexelAsset: AssetDefinition<DexelAssetConfig> = {
@@ -195,6 +284,19 @@ const dexelAsset: AssetDefinition<DexelAssetConfig> = {
   label: 'Dexel',
   description: 'Dexel template used for RGP formations.',
   defaultConfig: dexelDefaults,
+  fields: {
+    axis: AXIS_FIELD,
+    sign: DIRECTION_FIELD,
+    size: NUMBER_FIELD,
+    speedPerTick: NUMBER_FIELD,
+    direction: DIRECTION_FIELD,
+    visible: BOOLEAN_FIELD,
+    anchorId: TEXT_FIELD,
+    primarySpeedRatio: NUMBER_FIELD,
+    secondarySpeedRatio: NUMBER_FIELD,
+    emitGhost: BOOLEAN_FIELD,
+    ghostPoint: ghostPointField('dexel'),
+  },
   build: ({ instanceId, config }) => {
     const merged = mergeConfig(dexelDefaults, config);
     const definition: DexelObjectDefinition = {
@@ -209,6 +311,8 @@ const dexelAsset: AssetDefinition<DexelAssetConfig> = {
       anchorId: merged.anchorId,
       primarySpeedRatio: merged.primarySpeedRatio,
       secondarySpeedRatio: merged.secondarySpeedRatio,
+      emitGhost: merged.emitGhost,
+      ghostPoint: merged.ghostPoint,
     };
     return { simObjects: [definition] };
   },
@@ -229,6 +333,8 @@ interface K1P2AssetConfig extends Record<string, unknown> {
   direction: 1 | -1;
   initialRotationDeg?: number;
   invertPulse?: boolean;
+  emitGhost: boolean;
+  ghostPoint: GhostPoint;
 }
 
 const k1p2Defaults: K1P2AssetConfig = {
@@ -245,6 +351,8 @@ const k1p2Defaults: K1P2AssetConfig = {
   speedPerTick: 1,
   direction: 1,
   invertPulse: false,
+  emitGhost: false,
+  ghostPoint: 'lobeTips',
 };
 
 const k1p2Asset: AssetDefinition<K1P2AssetConfig> = {
@@ -252,6 +360,24 @@ const k1p2Asset: AssetDefinition<K1P2AssetConfig> = {
   label: 'K1P2 Figure-8',
   description: 'Line figure-8 that can drive geometry or controllers.',
   defaultConfig: k1p2Defaults,
+  fields: {
+    axis: AXIS_FIELD,
+    radius: NUMBER_FIELD,
+    color: COLOR_FIELD,
+    backColor: COLOR_FIELD,
+    shadingIntensity: NUMBER_FIELD,
+    opacity: NUMBER_FIELD,
+    visible: BOOLEAN_FIELD,
+    size: NUMBER_FIELD,
+    width: NUMBER_FIELD,
+    lobeRotationDeg: NUMBER_FIELD,
+    speedPerTick: NUMBER_FIELD,
+    direction: DIRECTION_FIELD,
+    initialRotationDeg: NUMBER_FIELD,
+    invertPulse: BOOLEAN_FIELD,
+    emitGhost: BOOLEAN_FIELD,
+    ghostPoint: ghostPointField('twirl8'),
+  },
   build: ({ instanceId, config }) => {
     const merged = mergeConfig(k1p2Defaults, config);
     const size = Math.max(0.1, typeof merged.size === 'number' ? merged.size : merged.width);
@@ -273,6 +399,8 @@ const k1p2Asset: AssetDefinition<K1P2AssetConfig> = {
       direction: merged.direction,
       initialRotationDeg: merged.initialRotationDeg,
       invertPulse: merged.invertPulse,
+      emitGhost: merged.emitGhost,
+      ghostPoint: merged.ghostPoint,
     };
     return { simObjects: [definition] };
   },
@@ -285,7 +413,7 @@ interface RingTwirlAssetConfig extends Record<string, unknown> {
   ringShadingIntensity: number;
   ringOpacity: number;
   ringBeltHalfAngle: number;
-  pulseSpeed: number;
+  pulsesPerRevolution: number;
   twirlAxis: 'x' | 'y' | 'z';
   twirlRadius: number;
   twirlColor: BaseColor;
@@ -299,6 +427,10 @@ interface RingTwirlAssetConfig extends Record<string, unknown> {
   visible: boolean;
   invertPulse: boolean;
   twirlInvertPulse: boolean;
+  ringEmitGhost: boolean;
+  ringGhostPoint: GhostPoint;
+  twirlEmitGhost: boolean;
+  twirlGhostPoint: GhostPoint;
 }
 
 const ringTwirlDefaults: RingTwirlAssetConfig = {
@@ -308,7 +440,7 @@ const ringTwirlDefaults: RingTwirlAssetConfig = {
   ringShadingIntensity: 0.4,
   ringOpacity: 1,
   ringBeltHalfAngle: 0.2,
-  pulseSpeed: 0.75,
+  pulsesPerRevolution: 1,
   twirlAxis: 'y',
   twirlRadius: 24,
   twirlColor: 'white',
@@ -321,6 +453,10 @@ const ringTwirlDefaults: RingTwirlAssetConfig = {
   visible: true,
   invertPulse: false,
   twirlInvertPulse: false,
+  ringEmitGhost: false,
+  ringGhostPoint: 'rim',
+  twirlEmitGhost: false,
+  twirlGhostPoint: 'lobeTips',
 };
 
 const ringTwirlAsset: AssetDefinition<RingTwirlAssetConfig> = {
@@ -328,6 +464,32 @@ const ringTwirlAsset: AssetDefinition<RingTwirlAssetConfig> = {
   label: 'Ring & Twirl Pair',
   description: 'Generates a breathing ring and matching figure-eight with shared timing.',
   defaultConfig: ringTwirlDefaults,
+  fields: {
+    ringPlane: PLANE_FIELD,
+    ringShellSize: NUMBER_FIELD,
+    ringColor: COLOR_FIELD,
+    ringShadingIntensity: NUMBER_FIELD,
+    ringOpacity: NUMBER_FIELD,
+    ringBeltHalfAngle: NUMBER_FIELD,
+    pulsesPerRevolution: NUMBER_FIELD,
+    twirlAxis: AXIS_FIELD,
+    twirlRadius: NUMBER_FIELD,
+    twirlColor: COLOR_FIELD,
+    twirlBackColor: COLOR_FIELD,
+    twirlOpacity: NUMBER_FIELD,
+    twirlSize: NUMBER_FIELD,
+    twirlWidth: NUMBER_FIELD,
+    twirlLobeRotationDeg: NUMBER_FIELD,
+    speedPerTick: NUMBER_FIELD,
+    direction: DIRECTION_FIELD,
+    visible: BOOLEAN_FIELD,
+    invertPulse: BOOLEAN_FIELD,
+    twirlInvertPulse: BOOLEAN_FIELD,
+    ringEmitGhost: BOOLEAN_FIELD,
+    ringGhostPoint: ghostPointField('twirl'),
+    twirlEmitGhost: BOOLEAN_FIELD,
+    twirlGhostPoint: ghostPointField('twirl8'),
+  },
   build: ({ instanceId, config }) => {
     const merged = mergeConfig(ringTwirlDefaults, config);
     const sharedRadius = Math.max(0.1, merged.ringShellSize);
@@ -348,8 +510,10 @@ const ringTwirlAsset: AssetDefinition<RingTwirlAssetConfig> = {
       shadingIntensity: merged.ringShadingIntensity,
       opacity: merged.ringOpacity,
       beltHalfAngle: merged.ringBeltHalfAngle,
-      pulseSpeed: merged.pulseSpeed,
+      pulsesPerRevolution: merged.pulsesPerRevolution,
       invertPulse: merged.invertPulse,
+      emitGhost: merged.ringEmitGhost,
+      ghostPoint: merged.ringGhostPoint,
       groupId: instanceId,
       groupRole: 'ring',
     };
@@ -368,6 +532,8 @@ const ringTwirlAsset: AssetDefinition<RingTwirlAssetConfig> = {
       speedPerTick: sharedSpeed,
       direction: sharedDirection,
       invertPulse: merged.twirlInvertPulse,
+      emitGhost: merged.twirlEmitGhost,
+      ghostPoint: merged.twirlGhostPoint,
       groupId: instanceId,
       groupRole: 'twirl8',
     };
@@ -407,3 +573,14 @@ export function instantiateAsset(
   const resolvedConfig = config as Partial<typeof definition.defaultConfig>;
   return definition.build({ instanceId, config: resolvedConfig });
 }
+
+/** First `<assetId>-<n>` instance id whose built objects would not collide with a taken id. */
+export function nextAssetInstanceId(assetId: string, isTaken: (id: string) => boolean): string {
+  for (let index = 1; ; index += 1) {
+    const instanceId = `${assetId}-${index}`;
+    const { simObjects } = instantiateAsset(instanceId, assetId);
+    if (!simObjects.some((definition) => isTaken(definition.id))) {
+      return instanceId;
+    }
+  }
+}
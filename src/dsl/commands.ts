@@ -1,4 +1,641 @@
 // commands.ts — defines MAKE, STYLE, FIELD, MOVE, and other DSL commands
+import type { App } from '../app/App';
+import type { CameraState } from '../app/camera';
+import { log } from '../app/log/db';
+import { listAssetDefinitions } from '../assets/registry';
+import { AXES, BASE_COLORS, SPIN_PLANES } from '../engine/assets/simTypes';
+import {
+  ParseError,
+  Parser,
+  type CameraMode,
+  type DslAction,
+  type DslValue,
+  type SourceLocation,
+} from './parser';
+import { ANIMATABLE_PROPERTIES, parseEasing, type AnimatableProperty } from './timeline';
+
+type SimObjectView = ReturnType<App['getSimObjects']>[number];
+type SimObjectType = SimObjectView['type'];
+type ObjectUpdate = Parameters<App['updateSimObject']>[1];
+type MoveUpdate = Parameters<App['moveSimObject']>[1];
+type RingUpdate = Parameters<App['updateRgpRingProperties']>[2];
+
+export type ArgumentType =
+  | 'number'
+  | 'boolean'
+  | 'string'
+  | 'color'
+  | 'plane'
+  | 'axis'
+  | 'direction'
+  | 'sign'
+  | 'easing'
+  | 'vector3';
+
+export interface CommandArgument {
+  name: string;
+  type: ArgumentType;
+  help: string;
+  default?: DslValue;
+  required?: boolean;
+  min?: number;
+  max?: number;
+  appliesTo?: ReadonlyArray<SimObjectType>;
+}
+
+export interface DslDiagnostic {
+  level: 'error' | 'warning';
+  command: string;
+  message: string;
+  fileName: string;
+  location?: SourceLocation;
+}
+
+interface CommandContext {
+  report(message: string, level?: DslDiagnostic['level']): void;
+  run(action: DslAction): void;
+}
+
+export interface CommandDefinition<TKind extends DslAction['kind'] = DslAction['kind']> {
+  kind: TKind;
+  name: string;
+  usage: string;
+  help: string;
+  arguments: ReadonlyArray<CommandArgument>;
+  execute(app: App, action: Extract<DslAction, { kind: TKind }>, context: CommandContext): void;
+}
+
+// Widened to plain strings so any parsed value can be looked up.
+const COLOR_VALUES: ReadonlyArray<string> = BASE_COLORS;
+const PLANE_VALUES: ReadonlyArray<string> = SPIN_PLANES;
+const AXIS_VALUES: ReadonlyArray<string> = AXES;
+
+const MOVING_TYPES: SimObjectType[] = ['sphere', 'twirl', 'twirling-axis', 'twirl8', 'dexel'];
+const SHELL_TYPES: SimObjectType[] = ['sphere', 'twirl'];
+const ALL_TYPES: SimObjectType[] = ['sphere', 'twirl', 'twirling-axis', 'rgpXY', 'dexel', 'twirl8'];
+
+const RING_ARGUMENTS: Record<string, { ring: 'primary' | 'secondary'; key: keyof RingUpdate }> = {
+  primaryOpacity: { ring: 'primary', key: 'opacity' },
+  primaryShadingIntensity: { ring: 'primary', key: 'shadingIntensity' },
+  primaryVisible: { ring: 'primary', key: 'visible' },
+  secondaryOpacity: { ring: 'secondary', key: 'opacity' },
+  secondaryShadingIntensity: { ring: 'secondary', key: 'shadingIntensity' },
+  secondaryVisible: { ring: 'secondary', key: 'visible' },
+};
+
+const makeCommand: CommandDefinition<'make'> = {
+  kind: 'make',
+  name: 'MAKE',
+  usage: 'MAKE <assetId> <instanceId> [key=value ...]',
+  help: 'Instantiates a registered asset; properties override the asset defaults.',
+  arguments: [
+    { name: 'assetId', type: 'string', help: 'Registered asset id (see the asset list below).' },
+    { name: 'instanceId', type: 'string', help: 'Unique id for the new instance.' },
+  ],
+  execute(app, action, context) {
+    try {
+      const ids = app.spawnAsset(action.assetId, action.instanceId, action.config);
+      log('dsl', `MAKE ${action.assetId} created ${ids.join(', ')}`);
+    } catch (error) {
+      context.report(error instanceof Error ? error.message : String(error));
+    }
+  },
+};
+
+const styleCommand: CommandDefinition<'style'> = {
+  kind: 'style',
+  name: 'STYLE',
+  usage: 'STYLE <targetId> key=value [key=value ...]',
+  help: 'Changes how an existing object looks.',
+  arguments: [
+    { name: 'visible', type: 'boolean', help: 'Show or hide the object.', default: true, appliesTo: ALL_TYPES },
+    {
+      name: 'opacity',
+      type: 'number',
+      help: 'Surface opacity.',
+      default: 1,
+      min: 0,
+      max: 1,
+      appliesTo: ['sphere', 'twirl', 'twirling-axis', 'twirl8'],
+    },
+    { name: 'baseColor', type: 'color', help: 'Palette colour.', default: 'azure', appliesTo: SHELL_TYPES },
+    {
+      name: 'shadingIntensity',
+      type: 'number',
+      help: 'Lambert shading strength.',
+      default: 0.4,
+      min: 0,
+      max: 1,
+      appliesTo: SHELL_TYPES,
+    },
+    { name: 'shellSize', type: 'number', help: 'Shell radius.', default: 32, min: 1, appliesTo: SHELL_TYPES },
+    { name: 'beltHalfAngle', type: 'number', help: 'Ring belt half angle (radians).', min: 0.001, appliesTo: ['twirl'] },
+    { name: 'size', type: 'number', help: 'Overall size.', min: 0.01, appliesTo: ['twirling-axis', 'rgpXY', 'dexel'] },
+    { name: 'sphereOpacity', type: 'number', help: 'RGP guide sphere opacity.', min: 0, max: 1, appliesTo: ['rgpXY'] },
+    { name: 'sphereVisible', type: 'boolean', help: 'Show the RGP guide sphere.', default: true, appliesTo: ['rgpXY'] },
+    { name: 'twirl8Size', type: 'number', help: 'Figure-8 stroke size.', min: 0.1, appliesTo: ['twirl8'] },
+    { name: 'twirl8Width', type: 'number', help: 'Figure-8 lobe width.', min: 0.01, appliesTo: ['twirl8'] },
+    { name: 'twirl8AngleDeg', type: 'number', help: 'Figure-8 lobe rotation (degrees).', appliesTo: ['twirl8'] },
+    ...Object.keys(RING_ARGUMENTS).map<CommandArgument>((name) => ({
+      name,
+      type: RING_ARGUMENTS[name].key === 'visible' ? 'boolean' : 'number',
+      help: `RGP ${RING_ARGUMENTS[name].ring} ring ${RING_ARGUMENTS[name].key}.`,
+      min: RING_ARGUMENTS[name].key === 'visible' ? undefined : 0,
+      max: RING_ARGUMENTS[name].key === 'visible' ? undefined : 1,
+      appliesTo: ['rgpXY'],
+    })),
+  ],
+  execute(app, action) {
+    const update: ObjectUpdate = {};
+    const ringUpdates: Record<'primary' | 'secondary', RingUpdate> = { primary: {}, secondary: {} };
+    let sphereVisible: boolean | null = null;
+
+    for (const [key, value] of Object.entries(action.properties)) {
+      const ringArgument = RING_ARGUMENTS[key];
+      if (ringArgument) {
+        Object.assign(ringUpdates[ringArgument.ring], { [ringArgument.key]: value });
+      } else if (key === 'sphereVisible') {
+        sphereVisible = value as boolean;
+      } else {
+        Object.assign(update, { [key]: value });
+      }
+    }
+
+    if (Object.keys(update).length > 0) {
+      app.updateSimObject(action.target, update);
+    }
+    for (const ring of ['primary', 'secondary'] as const) {
+      if (Object.keys(ringUpdates[ring]).length > 0) {
+        app.updateRgpRingProperties(action.target, ring, ringUpdates[ring]);
+      }
+    }
+    if (sphereVisible !== null) {
+      app.setRgpSphereVisible(action.target, sphereVisible);
+    }
+  },
+};
+
+const fieldCommand: CommandDefinition<'field'> = {
+  kind: 'field',
+  name: 'FIELD',
+  usage: 'FIELD <targetId> key=value [key=value ...]',
+  help: 'Changes how an existing object moves.',
+  arguments: [
+    { name: 'speedPerTick', type: 'number', help: 'Rotation speed multiplier.', default: 1, min: 0.1, appliesTo: MOVING_TYPES },
+    { name: 'direction', type: 'direction', help: 'Spin direction (1 or -1).', default: 1, appliesTo: MOVING_TYPES },
+    { name: 'plane', type: 'plane', help: 'Spin plane (YG, GB, YB).', default: 'YG', appliesTo: SHELL_TYPES },
+    { name: 'pulsesPerRevolution', type: 'number', help: 'Ring pulse cycles per revolution.', default: 1, min: 0, appliesTo: ['twirl'] },
+    { name: 'latticeDepth', type: 'number', help: 'Generations the dexel lattice may grow.', default: 3, min: 1, appliesTo: ['rgpXY'] },
+    { name: 'latticeBudget', type: 'number', help: 'Most dexels the lattice may hold.', default: 24, min: 0, appliesTo: ['rgpXY'] },
+    { name: 'autoGrowBeats', type: 'number', help: 'Beats between lattice growth steps (0 = off).', default: 0, min: 0, appliesTo: ['rgpXY'] },
+  ],
+  execute(app, action) {
+    app.updateSimObject(action.target, action.properties as ObjectUpdate);
+  },
+};
+
+const moveCommand: CommandDefinition<'move'> = {
+  kind: 'move',
+  name: 'MOVE',
+  usage: 'MOVE <targetId> key=value [key=value ...]',
+  help: 'Repositions an existing object.',
+  arguments: [
+    { name: 'axis', type: 'axis', help: 'Dexel anchor axis (x, y, z).', appliesTo: ['dexel'] },
+    { name: 'sign', type: 'sign', help: 'Dexel side of the anchor (1 or -1).', appliesTo: ['dexel'] },
+    { name: 'anchorId', type: 'string', help: 'RGP the dexel is attached to.', appliesTo: ['dexel'] },
+    { name: 'rotationXDeg', type: 'number', help: 'Rotation about X (degrees).', appliesTo: ['twirling-axis'] },
+    {
+      name: 'rotationYDeg',
+      type: 'number',
+      help: 'Rotation about Y (degrees).',
+      appliesTo: ['sphere', 'twirl', 'twirling-axis', 'twirl8', 'rgpXY'],
+    },
+    { name: 'rotationZDeg', type: 'number', help: 'Rotation about Z (degrees).', appliesTo: ['twirling-axis'] },
+  ],
+  execute(app, action, context) {
+    const anchorId = action.properties.anchorId;
+    if (typeof anchorId === 'string' && !findSimObject(app, anchorId)) {
+      context.report(`Anchor "${anchorId}" does not exist`);
+      return;
+    }
+    app.moveSimObject(action.target, action.properties as MoveUpdate);
+  },
+};
+
+const deleteCommand: CommandDefinition<'delete'> = {
+  kind: 'delete',
+  name: 'DELETE',
+  usage: 'DELETE <targetId>',
+  help: 'Removes an object from the running simulation.',
+  arguments: [],
+  execute(app, action, context) {
+    if (!app.removeSimObject(action.target)) {
+      context.report(`Unknown target "${action.target}"`);
+    }
+  },
+};
+
+const animCommand: CommandDefinition<'anim'> = {
+  kind: 'anim',
+  name: 'ANIM',
+  usage: 'ANIM <targetId> <property> from=<value> to=<value> end=<beat> [start=<beat>] [ease=<easing>]',
+  help: `Animates a numeric property between two beats. Properties: ${ANIMATABLE_PROPERTIES.join(', ')}.`,
+  arguments: [
+    { name: 'start', type: 'number', help: 'Beat where the animation begins.', default: 0, min: 0 },
+    { name: 'end', type: 'number', help: 'Beat where the animation ends.', required: true, min: 0 },
+    { name: 'from', type: 'number', help: 'Value at the start beat.', required: true },
+    { name: 'to', type: 'number', help: 'Value at the end beat.', required: true },
+    {
+      name: 'ease',
+      type: 'easing',
+      help: 'linear, ease-in, ease-out, ease-in-out, step, or a cubic-bezier list [x1, y1, x2, y2].',
+      default: 'linear',
+    },
+  ],
+  execute(app, action, context) {
+    const start = (action.properties.start as number | undefined) ?? 0;
+    const end = action.properties.end as number;
+    if (end < start) {
+      context.report(`end (${end}) must not be before start (${start})`);
+      return;
+    }
+    const property = action.property as AnimatableProperty;
+    const easing = parseEasing(action.properties.ease ?? 'linear') ?? 'linear';
+    const timeline = app.getTimeline();
+    timeline.addKeyframe(action.target, property, { beat: start, value: action.properties.from as number, easing });
+    timeline.addKeyframe(action.target, property, { beat: end, value: action.properties.to as number });
+  },
+};
+
+const atCommand: CommandDefinition<'at'> = {
+  kind: 'at',
+  name: 'AT',
+  usage: 'AT <beat> <statement>',
+  help: 'Runs a statement once when the simulation reaches the given beat.',
+  arguments: [{ name: 'beat', type: 'number', help: 'Simulation beat that triggers the statement.', min: 0 }],
+  execute(app, action, context) {
+    const keyword = COMMAND_TABLE[action.action.kind].name;
+    app.getTimeline().schedule(action.beat, () => context.run(action.action), `${keyword} @ ${action.beat}`);
+  },
+};
+
+const segmentCommand: CommandDefinition<'segment'> = {
+  kind: 'segment',
+  name: 'SEGMENT',
+  usage: 'SEGMENT <segmentId> [name="Display name"] [cameraLock=<bool>] [snapToAxis=<bool>] [speed=<value>] [key=value ...]',
+  help: 'Names the segment defined by a scene file (src/scenes/*.ncmd) and sets how the viewer opens it.',
+  arguments: [
+    { name: 'name', type: 'string', help: 'Name shown in the Sim tab.' },
+    { name: 'cameraLock', type: 'boolean', help: 'Keep the camera orbiting the origin.', default: false },
+    { name: 'snapToAxis', type: 'boolean', help: 'Double-clicking an axis turns the view down it.', default: false },
+    { name: 'speed', type: 'number', help: 'Simulation speed in beats per second.', min: 1, max: 60 },
+    { name: 'background', type: 'vector3', help: 'Viewport background colour [r, g, b] in 0–1.' },
+    { name: 'axisX', type: 'boolean', help: 'Show the X axis.' },
+    { name: 'axisY', type: 'boolean', help: 'Show the Y axis.' },
+    { name: 'axisZ', type: 'boolean', help: 'Show the Z axis.' },
+    { name: 'azimuthDeg', type: 'number', help: 'Initial camera orbit angle around Y (degrees).' },
+    { name: 'elevationDeg', type: 'number', help: 'Initial camera angle above the horizon (degrees).', min: -90, max: 90 },
+    { name: 'distance', type: 'number', help: 'Initial camera distance from the target.', min: 0.15, max: 192 },
+  ],
+  execute(_app, action, context) {
+    context.report(`SEGMENT ${action.id} is only used when loading scene files`, 'warning');
+  },
+};
+
+const ghostCommand: CommandDefinition<'ghost'> = {
+  kind: 'ghost',
+  name: 'GHOST',
+  usage: 'GHOST <ghostId> position=[x, y, z] color=[r, g, b] [radius=<value>] [opacity=<value>]',
+  help: 'Declares a static ghost marker for the segment defined by a scene file.',
+  arguments: [
+    { name: 'position', type: 'vector3', help: 'World position [x, y, z].', required: true },
+    { name: 'color', type: 'vector3', help: 'RGB colour [r, g, b] in 0–1.', required: true },
+    { name: 'radius', type: 'number', help: 'Marker radius.', default: 0.2, min: 0 },
+    { name: 'opacity', type: 'number', help: 'Marker opacity.', default: 0.4, min: 0, max: 1 },
+  ],
+  execute(_app, action, context) {
+    context.report(`GHOST ${action.id} is only used when loading scene files`, 'warning');
+  },
+};
+
+const CAMERA_MODE_ARGUMENTS: Record<CameraMode, ReadonlyArray<string>> = {
+  key: ['beat', 'azimuthDeg', 'elevationDeg', 'distance', 'pan', 'ease'],
+  orbit: ['degreesPerBeat', 'start'],
+  follow: ['target', 'dexel'],
+};
+
+const cameraCommand: CommandDefinition<'camera'> = {
+  kind: 'camera',
+  name: 'CAMERA',
+  usage: 'CAMERA <key|orbit|follow> [key=value ...]',
+  help: 'Drives the camera from the beat clock: keyframes, an orbit around Y, or a followed object.',
+  arguments: [
+    { name: 'beat', type: 'number', help: 'Beat of the keyframe (key).', default: 0, min: 0 },
+    { name: 'azimuthDeg', type: 'number', help: 'Orbit angle around Y (degrees, key).' },
+    { name: 'elevationDeg', type: 'number', help: 'Angle above the horizon (degrees, key).', min: -90, max: 90 },
+    { name: 'distance', type: 'number', help: 'Distance from the target (key).', min: 0.15, max: 192 },
+    { name: 'pan', type: 'vector3', help: 'Orbit target [x, y, z] (key).' },
+    {
+      name: 'ease',
+      type: 'easing',
+      help: 'Easing from this keyframe to the next (key).',
+      default: 'linear',
+    },
+    { name: 'degreesPerBeat', type: 'number', help: 'Orbit rate; 0 stops orbiting (orbit).' },
+    { name: 'start', type: 'number', help: 'Beat the orbit rate applies from (orbit; default: now).', min: 0 },
+    { name: 'target', type: 'string', help: 'Object to keep centred; omit to stop following (follow).' },
+    { name: 'dexel', type: 'number', help: 'Index of a dexel spawned by the target RGP (follow).', min: 0 },
+  ],
+  execute(app, action, context) {
+    const allowed = CAMERA_MODE_ARGUMENTS[action.mode];
+    const misplaced = Object.keys(action.properties).filter((key) => !allowed.includes(key));
+    if (misplaced.length > 0) {
+      context.report(`CAMERA ${action.mode} does not accept ${misplaced.join(', ')}`);
+      return;
+    }
+
+    const properties = action.properties;
+    const path = app.getCameraPath();
+    switch (action.mode) {
+      case 'key': {
+        const state: Partial<CameraState> = {};
+        if (typeof properties.azimuthDeg === 'number') {
+          state.azimuth = (properties.azimuthDeg * Math.PI) / 180;
+        }
+        if (typeof properties.elevationDeg === 'number') {
+          state.elevation = (properties.elevationDeg * Math.PI) / 180;
+        }
+        if (typeof properties.distance === 'number') {
+          state.distance = properties.distance;
+        }
+        if (Array.isArray(properties.pan)) {
+          [state.panX, state.panY, state.panZ] = properties.pan as number[];
+        }
+        if (Object.keys(state).length === 0) {
+          context.report('CAMERA key needs azimuthDeg, elevationDeg, distance, or pan');
+          return;
+        }
+        path.addKeyframe({
+          beat: (properties.beat as number | undefined) ?? 0,
+          state,
+          easing: parseEasing(properties.ease ?? 'linear') ?? 'linear',
+        });
+        break;
+      }
+      case 'orbit':
+        if (typeof properties.degreesPerBeat !== 'number') {
+          context.report('CAMERA orbit requires degreesPerBeat=');
+          return;
+        }
+        path.setOrbit(properties.degreesPerBeat, (properties.start as number | undefined) ?? app.getSimulationBeat());
+        break;
+      case 'follow': {
+        const targetId = properties.target as string | undefined;
+        if (targetId === undefined) {
+          path.setFollow(null);
+          break;
+        }
+        if (properties.dexel !== undefined && !Number.isInteger(properties.dexel)) {
+          context.report('dexel must be a whole number');
+          return;
+        }
+        if (!findSimObject(app, targetId)) {
+          context.report(`Follow target "${targetId}" does not exist yet`, 'warning');
+        }
+        path.setFollow({ targetId, dexel: properties.dexel as number | undefined });
+        break;
+      }
+    }
+    app.playCameraPath();
+  },
+};
+
+const COMMAND_TABLE: { [K in DslAction['kind']]: CommandDefinition<K> } = {
+  make: makeCommand,
+  style: styleCommand,
+  field: fieldCommand,
+  move: moveCommand,
+  delete: deleteCommand,
+  anim: animCommand,
+  at: atCommand,
+  segment: segmentCommand,
+  ghost: ghostCommand,
+  camera: cameraCommand,
+};
+
 export class Commands {
-  // TODO: Maintain command metadata and execution handlers.
+  constructor(private readonly app: App) {}
+
+  list(): ReadonlyArray<CommandDefinition> {
+    return Object.values(COMMAND_TABLE) as CommandDefinition[];
+  }
+
+  get(name: string): CommandDefinition | null {
+    const upper = name.toUpperCase();
+    return this.list().find((definition) => definition.name === upper) ?? null;
+  }
+
+  help(name?: string): string {
+    if (name) {
+      const definition = this.get(name);
+      if (!definition) {
+        return `Unknown command "${name}".`;
+      }
+      return describeCommand(definition);
+    }
+    return this.list().map(describeCommand).join('\n\n');
+  }
+
+  run(source: string, fileName = '<inline>'): DslDiagnostic[] {
+    let actions: DslAction[];
+    try {
+      actions = new Parser(fileName).parse(source);
+    } catch (error) {
+      if (!(error instanceof ParseError)) {
+        throw error;
+      }
+      const diagnostic: DslDiagnostic = {
+        level: 'error',
+        command: 'parse',
+        message: error.message,
+        fileName,
+        location: error.location,
+      };
+      logDiagnostic(diagnostic);
+      return [diagnostic];
+    }
+    return this.execute(actions, fileName);
+  }
+
+  execute(actions: ReadonlyArray<DslAction>, fileName = '<inline>'): DslDiagnostic[] {
+    const diagnostics: DslDiagnostic[] = [];
+
+    for (const action of actions) {
+      const definition = COMMAND_TABLE[action.kind] as CommandDefinition | undefined;
+      const commandName = definition?.name ?? String((action as { kind: unknown }).kind).toUpperCase();
+      const actionDiagnostics: DslDiagnostic[] = [];
+      const context: CommandContext = {
+        report: (message, level = 'error') => {
+          actionDiagnostics.push({ level, command: commandName, message, fileName, location: action.location });
+        },
+        run: (nested) => {
+          this.execute([nested], fileName);
+        },
+      };
+
+      if (!definition) {
+        context.report(`Unknown command "${commandName}"`);
+      } else if (this.validate(definition, action, context)) {
+        definition.execute(this.app, action as never, context);
+      }
+
+      actionDiagnostics.forEach(logDiagnostic);
+      diagnostics.push(...actionDiagnostics);
+    }
+
+    return diagnostics;
+  }
+
+  private validate(definition: CommandDefinition, action: DslAction, context: CommandContext): boolean {
+    if (action.kind === 'make') {
+      if (!listAssetDefinitions().some((asset) => asset.id === action.assetId)) {
+        context.report(`Unknown asset "${action.assetId}"`);
+        return false;
+      }
+      return true;
+    }
+    if (action.kind === 'at') {
+      // Scheduled statements are validated when they fire, once earlier MAKEs have run.
+      return true;
+    }
+
+    let target: SimObjectView | null = null;
+    if (action.kind !== 'segment' && action.kind !== 'ghost' && action.kind !== 'camera') {
+      target = findSimObject(this.app, action.target);
+      if (!target && action.kind !== 'anim') {
+        context.report(`Unknown target "${action.target}"`);
+        return false;
+      }
+    }
+    if (action.kind === 'delete') {
+      return true;
+    }
+
+    let valid = true;
+    if (action.kind === 'anim' && !ANIMATABLE_PROPERTIES.includes(action.property as AnimatableProperty)) {
+      context.report(`"${action.property}" cannot be animated`);
+      valid = false;
+    }
+    for (const problem of checkProperties(definition, action.properties)) {
+      context.report(problem);
+      valid = false;
+    }
+    if (target) {
+      for (const key of Object.keys(action.properties)) {
+        const argument = definition.arguments.find((candidate) => candidate.name === key);
+        if (argument?.appliesTo && !argument.appliesTo.includes(target.type)) {
+          context.report(`${key} has no effect on ${target.type} "${target.id}"`, 'warning');
+        }
+      }
+    }
+    return valid;
+  }
+}
+
+export function getCommandDefinition<TKind extends DslAction['kind']>(kind: TKind): CommandDefinition<TKind> {
+  return COMMAND_TABLE[kind] as CommandDefinition<TKind>;
+}
+
+export function checkProperties(
+  definition: Pick<CommandDefinition, 'name' | 'arguments'>,
+  properties: Record<string, DslValue>,
+): string[] {
+  const problems: string[] = [];
+  for (const argument of definition.arguments) {
+    if (argument.required && !(argument.name in properties)) {
+      problems.push(`${definition.name} requires ${argument.name}=`);
+    }
+  }
+  for (const [key, value] of Object.entries(properties)) {
+    const argument = definition.arguments.find((candidate) => candidate.name === key);
+    if (!argument) {
+      problems.push(`${definition.name} does not accept "${key}"`);
+      continue;
+    }
+    const problem = checkArgumentValue(argument, value);
+    if (problem) {
+      problems.push(`${key} ${problem}`);
+    }
+  }
+  return problems;
+}
+
+function findSimObject(app: App, id: string): SimObjectView | null {
+  return app.getSimObjects().find((object) => object.id === id) ?? null;
+}
+
+function checkArgumentValue(argument: CommandArgument, value: DslValue): string | null {
+  switch (argument.type) {
+    case 'number':
+      if (typeof value !== 'number') {
+        return 'expects a number';
+      }
+      if (argument.min !== undefined && value < argument.min) {
+        return `must be at least ${argument.min}`;
+      }
+      if (argument.max !== undefined && value > argument.max) {
+        return `must be at most ${argument.max}`;
+      }
+      return null;
+    case 'boolean':
+      return typeof value === 'boolean' ? null : 'expects true or false';
+    case 'string':
+      return typeof value === 'string' ? null : 'expects a name';
+    case 'color':
+      return typeof value === 'string' && COLOR_VALUES.includes(value) ? null : `expects one of ${COLOR_VALUES.join(', ')}`;
+    case 'plane':
+      return typeof value === 'string' && PLANE_VALUES.includes(value) ? null : `expects one of ${PLANE_VALUES.join(', ')}`;
+    case 'axis':
+      return typeof value === 'string' && AXIS_VALUES.includes(value) ? null : `expects one of ${AXIS_VALUES.join(', ')}`;
+    case 'direction':
+    case 'sign':
+      return value === 1 || value === -1 ? null : 'expects 1 or -1';
+    case 'vector3':
+      return Array.isArray(value) && value.length === 3 && value.every((component) => typeof component === 'number')
+        ? null
+        : 'expects a list of three numbers';
+    case 'easing':
+      return parseEasing(value) ? null : 'expects linear, ease-in, ease-out, ease-in-out, step, or [x1, y1, x2, y2]';
+    default:
+      return null;
+  }
+}
+
+function describeCommand(definition: CommandDefinition): string {
+  const lines = [definition.usage, `  ${definition.help}`];
+  for (const argument of definition.arguments) {
+    const defaultText = argument.default !== undefined ? ` (default ${JSON.stringify(argument.default)})` : '';
+    lines.push(`  ${argument.name}: ${argument.type} — ${argument.help}${defaultText}`);
+  }
+  if (definition.kind === 'make') {
+    lines.push('  Assets:');
+    for (const asset of listAssetDefinitions()) {
+      const defaults = Object.entries(asset.defaultConfig)
+        .map(([key, value]) => `${key}=${JSON.stringify(value)}`)
+        .join(' ');
+      lines.push(`    ${asset.id} — ${asset.label}: ${defaults}`);
+    }
+  }
+  return lines.join('\n');
+}
+
+function logDiagnostic(diagnostic: DslDiagnostic): void {
+  const where = diagnostic.location
+    ? `${diagnostic.fileName}:${diagnostic.location.line}:${diagnostic.location.column}`
+    : diagnostic.fileName;
+  const message = diagnostic.command === 'parse' ? diagnostic.message : `${where}: ${diagnostic.command} ${diagnostic.message}`;
+  log('dsl', message, {
+    level: diagnostic.level === 'error' ? 'error' : 'info',
+    data: [diagnostic],
+  });
 }
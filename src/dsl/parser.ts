@@ -1,4 +1,511 @@
 // parser.ts — converts .ncmd files into executable action objects
+import { listAssetDefinitions } from '../assets/registry';
+
+export type DslValue = number | boolean | string | DslValue[];
+
+export interface SourceLocation {
+  line: number;
+  column: number;
+}
+
+type TokenType = 'ident' | 'number' | 'string' | 'equals' | 'lbracket' | 'rbracket' | 'comma' | 'newline' | 'eof';
+
+interface Token {
+  type: TokenType;
+  text: string;
+  value?: DslValue;
+  location: SourceLocation;
+}
+
+export interface MakeAction {
+  kind: 'make';
+  assetId: string;
+  instanceId: string;
+  config: Record<string, DslValue>;
+  location: SourceLocation;
+}
+
+export interface StyleAction {
+  kind: 'style';
+  target: string;
+  properties: Record<string, DslValue>;
+  location: SourceLocation;
+}
+
+export interface FieldAction {
+  kind: 'field';
+  target: string;
+  properties: Record<string, DslValue>;
+  location: SourceLocation;
+}
+
+export interface MoveAction {
+  kind: 'move';
+  target: string;
+  properties: Record<string, DslValue>;
+  location: SourceLocation;
+}
+
+export interface DeleteAction {
+  kind: 'delete';
+  target: string;
+  location: SourceLocation;
+}
+
+export interface AnimAction {
+  kind: 'anim';
+  target: string;
+  property: string;
+  properties: Record<string, DslValue>;
+  location: SourceLocation;
+}
+
+export interface AtAction {
+  kind: 'at';
+  beat: number;
+  action: DslAction;
+  location: SourceLocation;
+}
+
+export interface SegmentAction {
+  kind: 'segment';
+  id: string;
+  properties: Record<string, DslValue>;
+  location: SourceLocation;
+}
+
+export interface GhostAction {
+  kind: 'ghost';
+  id: string;
+  properties: Record<string, DslValue>;
+  location: SourceLocation;
+}
+
+export type CameraMode = 'key' | 'orbit' | 'follow';
+
+export const CAMERA_MODES: ReadonlyArray<CameraMode> = ['key', 'orbit', 'follow'];
+
+export interface CameraAction {
+  kind: 'camera';
+  mode: CameraMode;
+  properties: Record<string, DslValue>;
+  location: SourceLocation;
+}
+
+export type DslAction =
+  | MakeAction
+  | StyleAction
+  | FieldAction
+  | MoveAction
+  | DeleteAction
+  | AnimAction
+  | AtAction
+  | SegmentAction
+  | GhostAction
+  | CameraAction;
+
+export class ParseError extends Error {
+  constructor(
+    message: string,
+    readonly location: SourceLocation,
+    readonly fileName: string = '<inline>',
+  ) {
+    super(`${fileName}:${location.line}:${location.column}: ${message}`);
+    this.name = 'ParseError';
+  }
+}
+
+const IDENT_START = /[A-Za-z_]/;
+const IDENT_PART = /[A-Za-z0-9_\-.]/;
+const NUMBER_PATTERN = /^[+-]?(?:\d+\.?\d*|\.\d+)(?:[eE][+-]?\d+)?/;
+
+export function tokenize(source: string, fileName = '<inline>'): Token[] {
+  const tokens: Token[] = [];
+  let index = 0;
+  let line = 1;
+  let column = 1;
+
+  const advance = (count = 1) => {
+    for (let i = 0; i < count; i += 1) {
+      if (source[index] === '\n') {
+        line += 1;
+        column = 1;
+      } else {
+        column += 1;
+      }
+      index += 1;
+    }
+  };
+
+  while (index < source.length) {
+    const char = source[index];
+    const location = { line, column };
+
+    if (char === '\n' || char === ';') {
+      tokens.push({ type: 'newline', text: char, location });
+      advance();
+      continue;
+    }
+
+    if (char === ' ' || char === '\t' || char === '\r') {
+      advance();
+      continue;
+    }
+
+    if (char === '#' || (char === '/' && source[index + 1] === '/')) {
+      while (index < source.length && source[index] !== '\n') {
+        advance();
+      }
+      continue;
+    }
+
+    if (char === '=') {
+      tokens.push({ type: 'equals', text: char, location });
+      advance();
+      continue;
+    }
+
+    if (char === '[') {
+      tokens.push({ type: 'lbracket', text: char, location });
+      advance();
+      continue;
+    }
+
+    if (char === ']') {
+      tokens.push({ type: 'rbracket', text: char, location });
+      advance();
+      continue;
+    }
+
+    if (char === ',') {
+      tokens.push({ type: 'comma', text: char, location });
+      advance();
+      continue;
+    }
+
+    if (char === '"') {
+      advance();
+      let text = '';
+      let closed = false;
+      while (index < source.length) {
+        const next = source[index];
+        if (next === '\n') {
+          break;
+        }
+        if (next === '"') {
+          closed = true;
+          advance();
+          break;
+        }
+        if (next === '\\') {
+          const escaped = source[index + 1];
+          if (escaped === 'n') {
+            text += '\n';
+          } else if (escaped === '"' || escaped === '\\') {
+            text += escaped;
+          } else {
+            throw new ParseError(`Unknown escape sequence \\${escaped ?? ''}`, { line, column }, fileName);
+          }
+          advance(2);
+          continue;
+        }
+        text += next;
+        advance();
+      }
+      if (!closed) {
+        throw new ParseError('Unterminated string literal', location, fileName);
+      }
+      tokens.push({ type: 'string', text, value: text, location });
+      continue;
+    }
+
+    const numberMatch = source.slice(index).match(NUMBER_PATTERN);
+    if (numberMatch) {
+      const text = numberMatch[0];
+      const value = Number(text);
+      if (!Number.isFinite(value)) {
+        throw new ParseError(`Invalid number ${text}`, location, fileName);
+      }
+      tokens.push({ type: 'number', text, value, location });
+      advance(text.length);
+      continue;
+    }
+
+    if (IDENT_START.test(char)) {
+      let text = '';
+      while (index < source.length && IDENT_PART.test(source[index])) {
+        text += source[index];
+        advance();
+      }
+      tokens.push({ type: 'ident', text, location });
+      continue;
+    }
+
+    throw new ParseError(`Unexpected character '${char}'`, location, fileName);
+  }
+
+  tokens.push({ type: 'eof', text: '', location: { line, column } });
+  return tokens;
+}
+
 export class Parser {
-  // TODO: Implement tokenization, parsing, and validation for the DSL.
+  private tokens: Token[] = [];
+  private position = 0;
+
+  constructor(private readonly fileName = '<inline>') {}
+
+  parse(source: string): DslAction[] {
+    this.tokens = tokenize(source, this.fileName);
+    this.position = 0;
+
+    const actions: DslAction[] = [];
+    const declaredInstances = new Set<string>();
+
+    while (this.peek().type !== 'eof') {
+      if (this.peek().type === 'newline') {
+        this.next();
+        continue;
+      }
+      const action = this.parseStatement();
+      const inner = action.kind === 'at' ? action.action : action;
+      if (inner.kind === 'make') {
+        if (declaredInstances.has(inner.instanceId)) {
+          throw this.error(`Instance "${inner.instanceId}" is already declared`, inner.location);
+        }
+        declaredInstances.add(inner.instanceId);
+      }
+      actions.push(action);
+    }
+
+    return actions;
+  }
+
+  private parseStatement(): DslAction {
+    const keyword = this.expect('ident', 'Expected a command');
+    const command = keyword.text.toUpperCase();
+
+    switch (command) {
+      case 'MAKE': {
+        const assetToken = this.expectName('Expected an asset id after MAKE');
+        const assetId = String(assetToken.value ?? assetToken.text);
+        if (!listAssetDefinitions().some((asset) => asset.id === assetId)) {
+          throw this.error(`Unknown asset "${assetId}"`, assetToken.location);
+        }
+        const instanceToken = this.expectName('Expected an instance id after the asset id');
+        const config = this.parseProperties();
+        this.validateMakeConfig(assetId, config);
+        return {
+          kind: 'make',
+          assetId,
+          instanceId: String(instanceToken.value ?? instanceToken.text),
+          config: Object.fromEntries(config.map(({ key, value }) => [key, value])),
+          location: keyword.location,
+        };
+      }
+      case 'STYLE':
+      case 'FIELD':
+      case 'MOVE': {
+        const targetToken = this.expectName(`Expected a target id after ${command}`);
+        const properties = this.parseProperties();
+        if (properties.length === 0) {
+          throw this.error(`${command} requires at least one key=value pair`, keyword.location);
+        }
+        return {
+          kind: command.toLowerCase() as 'style' | 'field' | 'move',
+          target: String(targetToken.value ?? targetToken.text),
+          properties: Object.fromEntries(properties.map(({ key, value }) => [key, value])),
+          location: keyword.location,
+        };
+      }
+      case 'DELETE': {
+        const targetToken = this.expectName('Expected a target id after DELETE');
+        const trailing = this.peek();
+        if (trailing.type !== 'newline' && trailing.type !== 'eof') {
+          throw this.error(`DELETE takes no properties but found ${describe(trailing)}`, trailing.location);
+        }
+        return {
+          kind: 'delete',
+          target: String(targetToken.value ?? targetToken.text),
+          location: keyword.location,
+        };
+      }
+      case 'ANIM': {
+        const targetToken = this.expectName('Expected a target id after ANIM');
+        const propertyToken = this.expect('ident', 'Expected a property name after the target');
+        const properties = this.parseProperties();
+        if (properties.length === 0) {
+          throw this.error('ANIM requires at least one key=value pair', keyword.location);
+        }
+        return {
+          kind: 'anim',
+          target: String(targetToken.value ?? targetToken.text),
+          property: propertyToken.text,
+          properties: Object.fromEntries(properties.map(({ key, value }) => [key, value])),
+          location: keyword.location,
+        };
+      }
+      case 'SEGMENT':
+      case 'GHOST': {
+        const idToken = this.expectName(`Expected an id after ${command}`);
+        const properties = this.parseProperties();
+        return {
+          kind: command.toLowerCase() as 'segment' | 'ghost',
+          id: String(idToken.value ?? idToken.text),
+          properties: Object.fromEntries(properties.map(({ key, value }) => [key, value])),
+          location: keyword.location,
+        };
+      }
+      case 'CAMERA': {
+        const modeToken = this.expect('ident', 'Expected a camera mode after CAMERA');
+        const mode = modeToken.text.toLowerCase() as CameraMode;
+        if (!CAMERA_MODES.includes(mode)) {
+          throw this.error(
+            `Unknown camera mode "${modeToken.text}" (expected ${CAMERA_MODES.join(', ')})`,
+            modeToken.location,
+          );
+        }
+        const properties = this.parseProperties();
+        return {
+          kind: 'camera',
+          mode,
+          properties: Object.fromEntries(properties.map(({ key, value }) => [key, value])),
+          location: keyword.location,
+        };
+      }
+      case 'AT': {
+        const beatToken = this.expect('number', 'Expected a beat after AT');
+        const beat = beatToken.value as number;
+        if (beat < 0) {
+          throw this.error('AT beat must not be negative', beatToken.location);
+        }
+        if (this.peek().type === 'ident' && this.peek().text.toUpperCase() === 'AT') {
+          throw this.error('AT statements cannot be nested', this.peek().location);
+        }
+        return { kind: 'at', beat, action: this.parseStatement(), location: keyword.location };
+      }
+      default:
+        throw this.error(`Unknown command "${keyword.text}"`, keyword.location);
+    }
+  }
+
+  private parseProperties(): Array<{ key: string; value: DslValue; location: SourceLocation }> {
+    const properties: Array<{ key: string; value: DslValue; location: SourceLocation }> = [];
+    const seen = new Set<string>();
+
+    while (this.peek().type !== 'newline' && this.peek().type !== 'eof') {
+      const keyToken = this.expect('ident', 'Expected a property name');
+      this.expect('equals', `Expected '=' after ${keyToken.text}`);
+      const value = this.parseValue();
+      if (seen.has(keyToken.text)) {
+        throw this.error(`Duplicate property "${keyToken.text}"`, keyToken.location);
+      }
+      seen.add(keyToken.text);
+      properties.push({ key: keyToken.text, value, location: keyToken.location });
+    }
+
+    return properties;
+  }
+
+  private parseValue(): DslValue {
+    const token = this.next();
+    switch (token.type) {
+      case 'number':
+      case 'string':
+        return token.value as DslValue;
+      case 'ident': {
+        const lower = token.text.toLowerCase();
+        if (lower === 'true') {
+          return true;
+        }
+        if (lower === 'false') {
+          return false;
+        }
+        return token.text;
+      }
+      case 'lbracket': {
+        const items: DslValue[] = [];
+        if (this.peek().type === 'rbracket') {
+          this.next();
+          return items;
+        }
+        for (;;) {
+          items.push(this.parseValue());
+          const separator = this.next();
+          if (separator.type === 'rbracket') {
+            return items;
+          }
+          if (separator.type !== 'comma') {
+            throw this.error(`Expected ',' or ']' but found ${describe(separator)}`, separator.location);
+          }
+        }
+      }
+      default:
+        throw this.error(`Expected a value but found ${describe(token)}`, token.location);
+    }
+  }
+
+  private validateMakeConfig(
+    assetId: string,
+    config: Array<{ key: string; value: DslValue; location: SourceLocation }>,
+  ): void {
+    const definition = listAssetDefinitions().find((asset) => asset.id === assetId);
+    if (!definition) {
+      return;
+    }
+    const defaults = definition.defaultConfig as Record<string, unknown>;
+    for (const { key, value, location } of config) {
+      if (!(key in defaults)) {
+        continue;
+      }
+      const expected = typeof defaults[key];
+      if (expected !== 'undefined' && expected !== typeof value) {
+        throw this.error(`Property "${key}" of ${assetId} expects a ${expected}`, location);
+      }
+    }
+  }
+
+  private expectName(message: string): Token {
+    const token = this.peek();
+    if (token.type === 'ident' || token.type === 'string') {
+      return this.next();
+    }
+    throw this.error(`${message} but found ${describe(token)}`, token.location);
+  }
+
+  private expect(type: TokenType, message: string): Token {
+    const token = this.peek();
+    if (token.type !== type) {
+      throw this.error(`${message} but found ${describe(token)}`, token.location);
+    }
+    return this.next();
+  }
+
+  private peek(): Token {
+    return this.tokens[this.position];
+  }
+
+  private next(): Token {
+    const token = this.tokens[this.position];
+    if (token.type !== 'eof') {
+      this.position += 1;
+    }
+    return token;
+  }
+
+  private error(message: string, location: SourceLocation): ParseError {
+    return new ParseError(message, location, this.fileName);
+  }
+}
+
+function describe(token: Token): string {
+  switch (token.type) {
+    case 'eof':
+      return 'end of file';
+    case 'newline':
+      return 'end of line';
+    case 'string':
+      return `"${token.text}"`;
+    default:
+      return `'${token.text}'`;
+  }
 }
@@ -1,4 +1,274 @@
 // timeline.ts — manages keyframes, easing curves, and scheduled events
+
+export type AnimatableProperty =
+  | 'opacity'
+  | 'shellSize'
+  | 'pulsesPerRevolution'
+  | 'twirl8AngleDeg'
+  | 'speedPerTick'
+  | 'shadingIntensity'
+  | 'size';
+
+export const ANIMATABLE_PROPERTIES: ReadonlyArray<AnimatableProperty> = [
+  'opacity',
+  'shellSize',
+  'pulsesPerRevolution',
+  'twirl8AngleDeg',
+  'speedPerTick',
+  'shadingIntensity',
+  'size',
+];
+
+export type CubicBezier = readonly [number, number, number, number];
+
+export type Easing = 'linear' | 'ease-in' | 'ease-out' | 'ease-in-out' | 'step' | CubicBezier;
+
+export interface Keyframe {
+  beat: number;
+  value: number;
+  easing: Easing;
+}
+
+export interface TimelineHost {
+  setProperty(targetId: string, property: AnimatableProperty, value: number): void;
+}
+
+interface Track {
+  targetId: string;
+  property: AnimatableProperty;
+  keyframes: Keyframe[];
+}
+
+interface ScheduledEvent {
+  beat: number;
+  sequence: number;
+  label: string;
+  run: () => void;
+  fired: boolean;
+}
+
+const NAMED_CURVES: Record<'ease-in' | 'ease-out' | 'ease-in-out', CubicBezier> = {
+  'ease-in': [0.42, 0, 1, 1],
+  'ease-out': [0, 0, 0.58, 1],
+  'ease-in-out': [0.42, 0, 0.58, 1],
+};
+
+export function parseEasing(value: unknown): Easing | null {
+  if (value === 'linear' || value === 'step') {
+    return value;
+  }
+  if (value === 'ease-in' || value === 'ease-out' || value === 'ease-in-out') {
+    return value;
+  }
+  if (
+    Array.isArray(value) &&
+    value.length === 4 &&
+    value.every((component) => typeof component === 'number' && Number.isFinite(component))
+  ) {
+    const [x1, y1, x2, y2] = value as number[];
+    if (x1 < 0 || x1 > 1 || x2 < 0 || x2 > 1) {
+      return null;
+    }
+    return [x1, y1, x2, y2];
+  }
+  return null;
+}
+
+export function applyEasing(easing: Easing, t: number): number {
+  const progress = Math.min(1, Math.max(0, t));
+  if (easing === 'linear') {
+    return progress;
+  }
+  if (easing === 'step') {
+    return progress >= 1 ? 1 : 0;
+  }
+  const curve = typeof easing === 'string' ? NAMED_CURVES[easing] : easing;
+  return sampleCubicBezier(curve, progress);
+}
+
+function sampleCubicBezier([x1, y1, x2, y2]: CubicBezier, x: number): number {
+  if (x <= 0 || x >= 1) {
+    return x;
+  }
+
+  const bezier = (t: number, p1: number, p2: number) => {
+    const inverse = 1 - t;
+    return 3 * inverse * inverse * t * p1 + 3 * inverse * t * t * p2 + t * t * t;
+  };
+  const slope = (t: number, p1: number, p2: number) => {
+    const inverse = 1 - t;
+    return 3 * inverse * inverse * p1 + 6 * inverse * t * (p2 - p1) + 3 * t * t * (1 - p2);
+  };
+
+  // Newton iterations converge quickly for well-behaved curves; fall back to bisection otherwise.
+  let t = x;
+  for (let i = 0; i < 8; i += 1) {
+    const error = bezier(t, x1, x2) - x;
+    if (Math.abs(error) < 1e-6) {
+      return bezier(t, y1, y2);
+    }
+    const derivative = slope(t, x1, x2);
+    if (Math.abs(derivative) < 1e-6) {
+      break;
+    }
+    t -= error / derivative;
+  }
+
+  let low = 0;
+  let high = 1;
+  t = x;
+  for (let i = 0; i < 32; i += 1) {
+    const estimate = bezier(t, x1, x2);
+    if (Math.abs(estimate - x) < 1e-6) {
+      break;
+    }
+    if (estimate < x) {
+      low = t;
+    } else {
+      high = t;
+    }
+    t = (low + high) / 2;
+  }
+  return bezier(t, y1, y2);
+}
+
 export class Timeline {
-  // TODO: Sequence DSL-driven actions over simulation time.
+  private readonly tracks = new Map<string, Track>();
+  private events: ScheduledEvent[] = [];
+  private nextSequence = 0;
+  private currentBeat = 0;
+  private started = false;
+
+  constructor(private readonly host: TimelineHost) {}
+
+  addKeyframe(
+    targetId: string,
+    property: AnimatableProperty,
+    keyframe: { beat: number; value: number; easing?: Easing },
+  ): void {
+    if (!Number.isFinite(keyframe.beat) || !Number.isFinite(keyframe.value)) {
+      throw new Error(`Keyframe for ${targetId}.${property} needs a finite beat and value.`);
+    }
+
+    const key = `${targetId}\u0000${property}`;
+    let track = this.tracks.get(key);
+    if (!track) {
+      track = { targetId, property, keyframes: [] };
+      this.tracks.set(key, track);
+    }
+
+    const next: Keyframe = { beat: keyframe.beat, value: keyframe.value, easing: keyframe.easing ?? 'linear' };
+    const existingIndex = track.keyframes.findIndex((candidate) => candidate.beat === next.beat);
+    if (existingIndex >= 0) {
+      track.keyframes[existingIndex] = next;
+    } else {
+      track.keyframes.push(next);
+      track.keyframes.sort((a, b) => a.beat - b.beat);
+    }
+  }
+
+  schedule(beat: number, run: () => void, label = `event@${beat}`): () => void {
+    if (!Number.isFinite(beat)) {
+      throw new Error(`Cannot schedule ${label} at a non-finite beat.`);
+    }
+
+    const event: ScheduledEvent = { beat, sequence: this.nextSequence++, label, run, fired: false };
+    this.events.push(event);
+    this.events.sort((a, b) => a.beat - b.beat || a.sequence - b.sequence);
+    return () => {
+      this.events = this.events.filter((candidate) => candidate !== event);
+    };
+  }
+
+  clear(): void {
+    this.tracks.clear();
+    this.events = [];
+    this.rewind();
+  }
+
+  rewind(): void {
+    for (const event of this.events) {
+      event.fired = false;
+    }
+    this.currentBeat = 0;
+    this.started = false;
+  }
+
+  isEmpty(): boolean {
+    return this.tracks.size === 0 && this.events.length === 0;
+  }
+
+  getBeat(): number {
+    return this.currentBeat;
+  }
+
+  getEventLabels(): ReadonlyArray<{ beat: number; label: string; fired: boolean }> {
+    return this.events.map(({ beat, label, fired }) => ({ beat, label, fired }));
+  }
+
+  sample(targetId: string, property: AnimatableProperty, beat: number): number | null {
+    const track = this.tracks.get(`${targetId}\u0000${property}`);
+    return track ? sampleTrack(track, beat) : null;
+  }
+
+  update(beat: number): void {
+    const previous = this.started ? this.currentBeat : Number.NEGATIVE_INFINITY;
+
+    if (beat < previous) {
+      // Moving backwards re-arms later events; their earlier side effects are not undone.
+      for (const event of this.events) {
+        if (event.beat > beat) {
+          event.fired = false;
+        }
+      }
+    }
+
+    // Events may schedule further events, so walk the sorted list until nothing is due.
+    for (;;) {
+      const due = this.events.find((event) => !event.fired && event.beat <= beat);
+      if (!due) {
+        break;
+      }
+      due.fired = true;
+      due.run();
+    }
+
+    for (const track of this.tracks.values()) {
+      const first = track.keyframes[0];
+      const last = track.keyframes[track.keyframes.length - 1];
+      if (!first || beat < first.beat) {
+        continue;
+      }
+      // Past the final keyframe the value is written once so manual edits are not overridden.
+      if (previous > last.beat && beat > last.beat) {
+        continue;
+      }
+      const value = sampleTrack(track, beat);
+      if (value !== null) {
+        this.host.setProperty(track.targetId, track.property, value);
+      }
+    }
+
+    this.currentBeat = beat;
+    this.started = true;
+  }
+}
+
+function sampleTrack(track: Track, beat: number): number | null {
+  const { keyframes } = track;
+  if (keyframes.length === 0 || beat < keyframes[0].beat) {
+    return null;
+  }
+
+  for (let i = 0; i < keyframes.length - 1; i += 1) {
+    const from = keyframes[i];
+    const to = keyframes[i + 1];
+    if (beat < to.beat) {
+      const span = to.beat - from.beat;
+      const progress = span > 0 ? (beat - from.beat) / span : 1;
+      return from.value + (to.value - from.value) * applyEasing(from.easing, progress);
+    }
+  }
+
+  return keyframes[keyframes.length - 1].value;
 }
@@ -46,6 +46,28 @@ import {
   setK1P2OutlineSharedUniforms,
   drawK1P2Outline,
 } from './assets/K1P2Asset';
+import {
+  createHighlightMesh,
+  disposeHighlightMesh,
+  createHighlightProgram,
+  disposeHighlightProgram,
+  useHighlightProgram,
+  setHighlightSharedUniforms,
+  drawHighlightCircle,
+  drawHighlightCross,
+} from './assets/highlightAsset';
+import {
+  createGhostTrailBuffer,
+  disposeGhostTrailBuffer,
+  uploadGhostTrailVertices,
+  createGhostTrailProgram,
+  disposeGhostTrailProgram,
+  useGhostTrailProgram,
+  releaseGhostTrailProgram,
+  setGhostTrailSharedUniforms,
+  drawGhostTrailPoints,
+  drawGhostTrailStrips,
+} from './assets/ghostTrailAsset';
 
 export const Assets = {
   createAxisSet,
@@ -84,6 +106,24 @@ export const Assets = {
   useTwirl8OutlineProgram: useK1P2OutlineProgram,
   setTwirl8OutlineSharedUniforms: setK1P2OutlineSharedUniforms,
   drawTwirl8Outline: drawK1P2Outline,
+  createHighlightMesh,
+  disposeHighlightMesh,
+  createHighlightProgram,
+  disposeHighlightProgram,
+  useHighlightProgram,
+  setHighlightSharedUniforms,
+  drawHighlightCircle,
+  drawHighlightCross,
+  createGhostTrailBuffer,
+  disposeGhostTrailBuffer,
+  uploadGhostTrailVertices,
+  createGhostTrailProgram,
+  disposeGhostTrailProgram,
+  useGhostTrailProgram,
+  releaseGhostTrailProgram,
+  setGhostTrailSharedUniforms,
+  drawGhostTrailPoints,
+  drawGhostTrailStrips,
 };
 
 export type {
@@ -114,3 +154,15 @@ export type {
   K1P2OutlineProgram as Twirl8OutlineProgram,
   K1P2DrawParams as Twirl8DrawParams,
 } from './assets/K1P2Asset';
+export type {
+  HighlightMesh,
+  HighlightProgram,
+  HighlightSharedUniforms,
+  HighlightDrawParams,
+} from './assets/highlightAsset';
+export type {
+  GhostTrailBuffer,
+  GhostTrailProgram,
+  GhostTrailSharedUniforms,
+  GhostTrailDrawRange,
+} from './assets/ghostTrailAsset';
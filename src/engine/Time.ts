@@ -1,4 +1,154 @@
-// Time.ts — tracks global ticks, playback speed, and scheduled events
+// Time.ts — fixed-step clock: global ticks, beats and playback speed
+import { clamp } from '../app/math3d';
+
+export const DEFAULT_TICKS_PER_SECOND = 60;
+export const MIN_BEATS_PER_SECOND = 1;
+export const MAX_BEATS_PER_SECOND = 60;
+export const MIN_PLAYBACK_RATE = 0.25;
+export const MAX_PLAYBACK_RATE = 4;
+export const PLAYBACK_RATE_PRESETS: ReadonlyArray<number> = [0.25, 0.5, 1, 2, 4];
+
+export interface TimeStep {
+  tick: number;
+  beat: number;
+  beats: number;
+  deltaSeconds: number;
+}
+
+export interface TimeOptions {
+  ticksPerSecond?: number;
+  beatsPerSecond?: number;
+  maxFrameSeconds?: number;
+}
+
 export class Time {
-  // TODO: Provide tick counters and play/pause control mechanisms.
+  readonly tickSeconds: number;
+  private readonly maxFrameSeconds: number;
+  private beatsPerSecond: number;
+  private playbackRate = 1;
+  private running = false;
+  private tick = 0;
+  private beat = 0;
+  private accumulator = 0;
+  private readonly tickListeners = new Set<(step: TimeStep) => void>();
+
+  constructor(options: TimeOptions = {}) {
+    const ticksPerSecond = Math.max(1, options.ticksPerSecond ?? DEFAULT_TICKS_PER_SECOND);
+    this.tickSeconds = 1 / ticksPerSecond;
+    this.maxFrameSeconds = Math.max(this.tickSeconds, options.maxFrameSeconds ?? 0.25);
+    this.beatsPerSecond = clamp(options.beatsPerSecond ?? 30, MIN_BEATS_PER_SECOND, MAX_BEATS_PER_SECOND);
+  }
+
+  onTick(listener: (step: TimeStep) => void): () => void {
+    this.tickListeners.add(listener);
+    return () => {
+      this.tickListeners.delete(listener);
+    };
+  }
+
+  start(): void {
+    this.running = true;
+  }
+
+  pause(): void {
+    this.running = false;
+    this.accumulator = 0;
+  }
+
+  isRunning(): boolean {
+    return this.running;
+  }
+
+  setBeatsPerSecond(value: number): void {
+    if (Number.isFinite(value)) {
+      this.beatsPerSecond = clamp(value, MIN_BEATS_PER_SECOND, MAX_BEATS_PER_SECOND);
+    }
+  }
+
+  getBeatsPerSecond(): number {
+    return this.beatsPerSecond;
+  }
+
+  /** Scales how much wall-clock time feeds the clock; the per-tick simulation step is unchanged. */
+  setPlaybackRate(rate: number): void {
+    if (Number.isFinite(rate)) {
+      this.playbackRate = clamp(rate, MIN_PLAYBACK_RATE, MAX_PLAYBACK_RATE);
+    }
+  }
+
+  getPlaybackRate(): number {
+    return this.playbackRate;
+  }
+
+  getBeatsPerTick(): number {
+    return this.beatsPerSecond * this.tickSeconds;
+  }
+
+  getTick(): number {
+    return this.tick;
+  }
+
+  getBeat(): number {
+    return this.beat;
+  }
+
+  getSeconds(): number {
+    return this.tick * this.tickSeconds;
+  }
+
+  /** Fraction of the next tick already elapsed; renderers use it to interpolate between ticks. */
+  getAlpha(): number {
+    return this.running ? clamp(this.accumulator / this.tickSeconds, 0, 1) : 0;
+  }
+
+  reset(beat = 0): void {
+    this.tick = 0;
+    this.beat = Math.max(0, beat);
+    this.accumulator = 0;
+  }
+
+  /** Feeds wall-clock time into the accumulator and runs every whole tick that fits. */
+  advance(realSeconds: number): number {
+    if (!this.running || !(realSeconds > 0)) {
+      return 0;
+    }
+
+    this.accumulator += Math.min(realSeconds, this.maxFrameSeconds) * this.playbackRate;
+    let ticks = 0;
+    while (this.accumulator >= this.tickSeconds) {
+      this.accumulator -= this.tickSeconds;
+      this.runTick();
+      ticks += 1;
+    }
+    return ticks;
+  }
+
+  /** Number of whole ticks needed to cover the given beats at the current beats-per-second. */
+  ticksForBeats(beats: number): number {
+    return Math.max(0, Math.round(beats / this.getBeatsPerTick()));
+  }
+
+  /** Runs ticks immediately, whether or not the clock is running. */
+  step(count = 1): void {
+    const ticks = Math.max(0, Math.floor(count));
+    for (let i = 0; i < ticks; i += 1) {
+      this.runTick();
+    }
+  }
+
+  private runTick(): void {
+    const beats = this.getBeatsPerTick();
+    this.tick += 1;
+    this.beat += beats;
+    const step: TimeStep = {
+      tick: this.tick,
+      beat: this.beat,
+      beats,
+      deltaSeconds: this.tickSeconds,
+    };
+
+    for (const listener of this.tickListeners) {
+      listener(step);
+    }
+  }
 }
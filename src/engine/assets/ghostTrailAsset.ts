@@ -0,0 +1,221 @@
+// ghostTrailAsset.ts — batched ghost trail rendering: shaded point-sprite balls and line strips
+
+export interface GhostTrailBuffer {
+  vertexBuffer: WebGLBuffer;
+  capacity: number;
+}
+
+export interface GhostTrailProgram {
+  program: WebGLProgram;
+  attribPosition: number;
+  attribColor: number;
+  attribRadius: number;
+  uniformView: WebGLUniformLocation;
+  uniformProjection: WebGLUniformLocation;
+  uniformViewportHeight: WebGLUniformLocation;
+  uniformPointMode: WebGLUniformLocation;
+}
+
+export interface GhostTrailSharedUniforms {
+  viewMatrix: Float32Array;
+  projectionMatrix: Float32Array;
+  viewportHeight: number;
+}
+
+export interface GhostTrailDrawRange {
+  offset: number;
+  count: number;
+}
+
+// Interleaved position xyz, colour rgba, radius — matches GHOST_VERTEX_FLOATS in sim/GhostTrails.ts.
+const VERTEX_FLOATS = 8;
+const STRIDE = VERTEX_FLOATS * 4;
+
+export function createGhostTrailBuffer(gl: WebGLRenderingContext): GhostTrailBuffer {
+  const vertexBuffer = gl.createBuffer();
+  if (!vertexBuffer) {
+    throw new Error('Failed to allocate ghost trail buffer.');
+  }
+  return { vertexBuffer, capacity: 0 };
+}
+
+export function disposeGhostTrailBuffer(gl: WebGLRenderingContext, buffer: GhostTrailBuffer | null): void {
+  if (!buffer) {
+    return;
+  }
+  gl.deleteBuffer(buffer.vertexBuffer);
+}
+
+/** Uploads one frame of vertices, growing the buffer only when the trail outgrows it. */
+export function uploadGhostTrailVertices(
+  gl: WebGLRenderingContext,
+  buffer: GhostTrailBuffer,
+  vertices: Float32Array,
+): void {
+  gl.bindBuffer(gl.ARRAY_BUFFER, buffer.vertexBuffer);
+  if (vertices.byteLength > buffer.capacity) {
+    buffer.capacity = Math.max(vertices.byteLength, buffer.capacity * 2);
+    gl.bufferData(gl.ARRAY_BUFFER, buffer.capacity, gl.DYNAMIC_DRAW);
+  }
+  gl.bufferSubData(gl.ARRAY_BUFFER, 0, vertices);
+}
+
+export function createGhostTrailProgram(gl: WebGLRenderingContext): GhostTrailProgram {
+  // Points are sized so their diameter matches a sphere of radius aRadius at that depth:
+  // projection[1][1] maps world units to NDC, and NDC spans half the viewport height per unit.
+  const vertexShaderSource = `
+    attribute vec3 aPosition;
+    attribute vec4 aColor;
+    attribute float aRadius;
+
+    uniform mat4 uViewMatrix;
+    uniform mat4 uProjectionMatrix;
+    uniform float uViewportHeight;
+
+    varying vec4 vColor;
+
+    void main() {
+      gl_Position = uProjectionMatrix * uViewMatrix * vec4(aPosition, 1.0);
+      gl_PointSize = max(1.0, aRadius * uProjectionMatrix[1][1] * uViewportHeight / gl_Position.w);
+      vColor = aColor;
+    }
+  `;
+
+  const fragmentShaderSource = `
+    precision mediump float;
+    uniform bool uPointMode;
+    varying vec4 vColor;
+
+    void main() {
+      if (!uPointMode) {
+        gl_FragColor = vColor;
+        return;
+      }
+      vec2 offset = gl_PointCoord * 2.0 - 1.0;
+      float distanceSquared = dot(offset, offset);
+      if (distanceSquared > 1.0) {
+        discard;
+      }
+      // Brighten towards the middle so the flat disc reads as a soft ball.
+      float shade = 0.75 + 0.25 * sqrt(1.0 - distanceSquared);
+      gl_FragColor = vec4(vColor.rgb * shade, vColor.a);
+    }
+  `;
+
+  const vs = compileShader(gl, gl.VERTEX_SHADER, vertexShaderSource);
+  const fs = compileShader(gl, gl.FRAGMENT_SHADER, fragmentShaderSource);
+  const program = gl.createProgram();
+  if (!program) {
+    throw new Error('Failed to create ghost trail program.');
+  }
+  gl.attachShader(program, vs);
+  gl.attachShader(program, fs);
+  gl.linkProgram(program);
+  if (!gl.getProgramParameter(program, gl.LINK_STATUS)) {
+    const info = gl.getProgramInfoLog(program);
+    gl.deleteProgram(program);
+    gl.deleteShader(vs);
+    gl.deleteShader(fs);
+    throw new Error(`Failed to link ghost trail program: ${info ?? 'unknown error'}`);
+  }
+  gl.deleteShader(vs);
+  gl.deleteShader(fs);
+
+  return {
+    program,
+    attribPosition: gl.getAttribLocation(program, 'aPosition'),
+    attribColor: gl.getAttribLocation(program, 'aColor'),
+    attribRadius: gl.getAttribLocation(program, 'aRadius'),
+    uniformView: getRequiredUniform(gl, program, 'uViewMatrix'),
+    uniformProjection: getRequiredUniform(gl, program, 'uProjectionMatrix'),
+    uniformViewportHeight: getRequiredUniform(gl, program, 'uViewportHeight'),
+    uniformPointMode: getRequiredUniform(gl, program, 'uPointMode'),
+  };
+}
+
+export function disposeGhostTrailProgram(gl: WebGLRenderingContext, program: GhostTrailProgram | null): void {
+  if (!program) {
+    return;
+  }
+  gl.deleteProgram(program.program);
+}
+
+export function useGhostTrailProgram(
+  gl: WebGLRenderingContext,
+  program: GhostTrailProgram,
+  buffer: GhostTrailBuffer,
+): void {
+  gl.useProgram(program.program);
+  gl.bindBuffer(gl.ARRAY_BUFFER, buffer.vertexBuffer);
+  gl.vertexAttribPointer(program.attribPosition, 3, gl.FLOAT, false, STRIDE, 0);
+  gl.enableVertexAttribArray(program.attribPosition);
+  gl.vertexAttribPointer(program.attribColor, 4, gl.FLOAT, false, STRIDE, 3 * 4);
+  gl.enableVertexAttribArray(program.attribColor);
+  gl.vertexAttribPointer(program.attribRadius, 1, gl.FLOAT, false, STRIDE, 7 * 4);
+  gl.enableVertexAttribArray(program.attribRadius);
+}
+
+/** Disables the colour and radius arrays again; the other programs only feed position/normal slots. */
+export function releaseGhostTrailProgram(gl: WebGLRenderingContext, program: GhostTrailProgram): void {
+  gl.disableVertexAttribArray(program.attribColor);
+  gl.disableVertexAttribArray(program.attribRadius);
+}
+
+export function setGhostTrailSharedUniforms(
+  gl: WebGLRenderingContext,
+  program: GhostTrailProgram,
+  uniforms: GhostTrailSharedUniforms,
+): void {
+  gl.uniformMatrix4fv(program.uniformView, false, uniforms.viewMatrix);
+  gl.uniformMatrix4fv(program.uniformProjection, false, uniforms.projectionMatrix);
+  gl.uniform1f(program.uniformViewportHeight, uniforms.viewportHeight);
+}
+
+export function drawGhostTrailPoints(
+  gl: WebGLRenderingContext,
+  program: GhostTrailProgram,
+  range: GhostTrailDrawRange,
+): void {
+  if (range.count === 0) {
+    return;
+  }
+  gl.uniform1i(program.uniformPointMode, 1);
+  gl.drawArrays(gl.POINTS, range.offset, range.count);
+}
+
+export function drawGhostTrailStrips(
+  gl: WebGLRenderingContext,
+  program: GhostTrailProgram,
+  ranges: ReadonlyArray<GhostTrailDrawRange>,
+): void {
+  if (ranges.length === 0) {
+    return;
+  }
+  gl.uniform1i(program.uniformPointMode, 0);
+  for (const range of ranges) {
+    gl.drawArrays(gl.LINE_STRIP, range.offset, range.count);
+  }
+}
+
+function compileShader(gl: WebGLRenderingContext, type: number, source: string): WebGLShader {
+  const shader = gl.createShader(type);
+  if (!shader) {
+    throw new Error('Failed to create WebGL shader.');
+  }
+  gl.shaderSource(shader, source);
+  gl.compileShader(shader);
+  if (!gl.getShaderParameter(shader, gl.COMPILE_STATUS)) {
+    const info = gl.getShaderInfoLog(shader);
+    gl.deleteShader(shader);
+    throw new Error(`Failed to compile shader: ${info ?? 'unknown error'}`);
+  }
+  return shader;
+}
+
+function getRequiredUniform(gl: WebGLRenderingContext, program: WebGLProgram, name: string): WebGLUniformLocation {
+  const location = gl.getUniformLocation(program, name);
+  if (!location) {
+    throw new Error(`Uniform ${name} not found in ghost trail program.`);
+  }
+  return location;
+}
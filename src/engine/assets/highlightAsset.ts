@@ -0,0 +1,191 @@
+// highlightAsset.ts — solid-colour line outlines for selected and hovered sim objects
+
+export interface HighlightMesh {
+  positionBuffer: WebGLBuffer;
+  circleOffset: number;
+  circleCount: number;
+  crossOffset: number;
+  crossCount: number;
+}
+
+export interface HighlightProgram {
+  program: WebGLProgram;
+  attribPosition: number;
+  uniformModel: WebGLUniformLocation;
+  uniformView: WebGLUniformLocation;
+  uniformProjection: WebGLUniformLocation;
+  uniformColor: WebGLUniformLocation;
+}
+
+export interface HighlightSharedUniforms {
+  viewMatrix: Float32Array;
+  projectionMatrix: Float32Array;
+}
+
+export interface HighlightDrawParams {
+  modelMatrix: Float32Array;
+  color: Float32Array;
+}
+
+/**
+ * Builds a unit circle in the XZ plane (drawn as a line loop) followed by two unit segments along
+ * X and Y (drawn as lines). Circles trace ring rims and sphere silhouettes; the cross traces axes.
+ */
+export function createHighlightMesh(gl: WebGLRenderingContext, segments = 128): HighlightMesh {
+  const circleCount = Math.max(16, Math.floor(segments));
+  const positions: number[] = [];
+
+  for (let i = 0; i < circleCount; i += 1) {
+    const theta = (i / circleCount) * Math.PI * 2;
+    positions.push(Math.cos(theta), 0, Math.sin(theta));
+  }
+  positions.push(-1, 0, 0, 1, 0, 0, 0, -1, 0, 0, 1, 0);
+
+  const positionBuffer = gl.createBuffer();
+  if (!positionBuffer) {
+    throw new Error('Failed to allocate highlight buffers.');
+  }
+  gl.bindBuffer(gl.ARRAY_BUFFER, positionBuffer);
+  gl.bufferData(gl.ARRAY_BUFFER, new Float32Array(positions), gl.STATIC_DRAW);
+
+  return {
+    positionBuffer,
+    circleOffset: 0,
+    circleCount,
+    crossOffset: circleCount,
+    crossCount: 4,
+  };
+}
+
+export function disposeHighlightMesh(gl: WebGLRenderingContext, mesh: HighlightMesh | null): void {
+  if (!mesh) {
+    return;
+  }
+  gl.deleteBuffer(mesh.positionBuffer);
+}
+
+export function createHighlightProgram(gl: WebGLRenderingContext): HighlightProgram {
+  const vertexShaderSource = `
+    attribute vec3 aPosition;
+
+    uniform mat4 uModelMatrix;
+    uniform mat4 uViewMatrix;
+    uniform mat4 uProjectionMatrix;
+
+    void main() {
+      gl_Position = uProjectionMatrix * uViewMatrix * uModelMatrix * vec4(aPosition, 1.0);
+    }
+  `;
+
+  const fragmentShaderSource = `
+    precision mediump float;
+    uniform vec4 uColor;
+    void main() {
+      gl_FragColor = uColor;
+    }
+  `;
+
+  const vs = compileShader(gl, gl.VERTEX_SHADER, vertexShaderSource);
+  const fs = compileShader(gl, gl.FRAGMENT_SHADER, fragmentShaderSource);
+  const program = gl.createProgram();
+  if (!program) {
+    throw new Error('Failed to create highlight program.');
+  }
+  gl.attachShader(program, vs);
+  gl.attachShader(program, fs);
+  gl.linkProgram(program);
+  if (!gl.getProgramParameter(program, gl.LINK_STATUS)) {
+    const info = gl.getProgramInfoLog(program);
+    gl.deleteProgram(program);
+    gl.deleteShader(vs);
+    gl.deleteShader(fs);
+    throw new Error(`Failed to link highlight program: ${info ?? 'unknown error'}`);
+  }
+  gl.deleteShader(vs);
+  gl.deleteShader(fs);
+
+  return {
+    program,
+    attribPosition: gl.getAttribLocation(program, 'aPosition'),
+    uniformModel: getRequiredUniform(gl, program, 'uModelMatrix'),
+    uniformView: getRequiredUniform(gl, program, 'uViewMatrix'),
+    uniformProjection: getRequiredUniform(gl, program, 'uProjectionMatrix'),
+    uniformColor: getRequiredUniform(gl, program, 'uColor'),
+  };
+}
+
+export function disposeHighlightProgram(gl: WebGLRenderingContext, program: HighlightProgram | null): void {
+  if (!program) {
+    return;
+  }
+  gl.deleteProgram(program.program);
+}
+
+export function useHighlightProgram(gl: WebGLRenderingContext, program: HighlightProgram): void {
+  gl.useProgram(program.program);
+}
+
+export function setHighlightSharedUniforms(
+  gl: WebGLRenderingContext,
+  program: HighlightProgram,
+  uniforms: HighlightSharedUniforms,
+): void {
+  gl.uniformMatrix4fv(program.uniformView, false, uniforms.viewMatrix);
+  gl.uniformMatrix4fv(program.uniformProjection, false, uniforms.projectionMatrix);
+}
+
+export function drawHighlightCircle(
+  gl: WebGLRenderingContext,
+  program: HighlightProgram,
+  mesh: HighlightMesh,
+  params: HighlightDrawParams,
+): void {
+  bindHighlight(gl, program, mesh, params);
+  gl.drawArrays(gl.LINE_LOOP, mesh.circleOffset, mesh.circleCount);
+}
+
+export function drawHighlightCross(
+  gl: WebGLRenderingContext,
+  program: HighlightProgram,
+  mesh: HighlightMesh,
+  params: HighlightDrawParams,
+): void {
+  bindHighlight(gl, program, mesh, params);
+  gl.drawArrays(gl.LINES, mesh.crossOffset, mesh.crossCount);
+}
+
+function bindHighlight(
+  gl: WebGLRenderingContext,
+  program: HighlightProgram,
+  mesh: HighlightMesh,
+  params: HighlightDrawParams,
+): void {
+  gl.uniformMatrix4fv(program.uniformModel, false, params.modelMatrix);
+  gl.uniform4fv(program.uniformColor, params.color);
+  gl.bindBuffer(gl.ARRAY_BUFFER, mesh.positionBuffer);
+  gl.vertexAttribPointer(program.attribPosition, 3, gl.FLOAT, false, 0, 0);
+  gl.enableVertexAttribArray(program.attribPosition);
+}
+
+function compileShader(gl: WebGLRenderingContext, type: number, source: string): WebGLShader {
+  const shader = gl.createShader(type);
+  if (!shader) {
+    throw new Error('Failed to create WebGL shader.');
+  }
+  gl.shaderSource(shader, source);
+  gl.compileShader(shader);
+  if (!gl.getShaderParameter(shader, gl.COMPILE_STATUS)) {
+    const info = gl.getShaderInfoLog(shader);
+    gl.deleteShader(shader);
+    throw new Error(`Failed to compile shader: ${info ?? 'unknown error'}`);
+  }
+  return shader;
+}
+
+function getRequiredUniform(gl: WebGLRenderingContext, program: WebGLProgram, name: string): WebGLUniformLocation {
+  const location = gl.getUniformLocation(program, name);
+  if (!location) {
+    throw new Error(`Uniform ${name} not found in highlight program.`);
+  }
+  return location;
+}
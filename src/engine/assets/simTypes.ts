@@ -1,16 +1,20 @@
-// simTypes.ts — shared simulation object configuration types
+// simTypes.ts — shared simulation object configuration types and their option lists
 
-export type BaseColor =
-  | 'crimson'
-  | 'red'
-  | 'amber'
-  | 'gold'
-  | 'lime'
-  | 'teal'
-  | 'azure'
-  | 'violet'
-  | 'magenta'
-  | 'white';
+export const BASE_COLORS = ['crimson', 'red', 'amber', 'gold', 'lime', 'teal', 'azure', 'violet', 'magenta', 'white'] as const;
+
+export type BaseColor = (typeof BASE_COLORS)[number];
+
+export const SPIN_PLANES = ['YG', 'GB', 'YB'] as const;
+
+export const AXES = ['x', 'y', 'z'] as const;
+
+export const GHOST_POINTS = ['center', 'rim', 'tips', 'lobeTips', 'poles'] as const;
+
+/**
+ * Point an object leaves its ghost trail behind: `rim` for spheres and twirls, `tips` for twirling
+ * axes, `poles` for RGP and dexel rings, `lobeTips` for twirl8s. Any other value traces the centre.
+ */
+export type GhostPoint = (typeof GHOST_POINTS)[number];
 
 export interface SphereObjectDefinition {
   type: 'sphere';
@@ -24,6 +28,8 @@ export interface SphereObjectDefinition {
   shadingIntensity?: number;
   opacity?: number;
   initialRotationY?: number;
+  emitGhost?: boolean;
+  ghostPoint?: GhostPoint;
   groupId?: string;
   groupRole?: 'ring' | 'twirl8';
 }
@@ -40,11 +46,14 @@ export interface TwirlObjectDefinition {
   shadingIntensity?: number;
   opacity?: number;
   beltHalfAngle: number;
-  pulseSpeed: number;
+  /** Pulse cycles per full revolution of the ring; 0 holds the pulse still. */
+  pulsesPerRevolution?: number;
   initialRotationY?: number;
   initialPulsePhase?: number;
   initialPulseScale?: number;
   invertPulse?: boolean;
+  emitGhost?: boolean;
+  ghostPoint?: GhostPoint;
   groupId?: string;
   groupRole?: 'ring' | 'twirl8';
 }
@@ -62,6 +71,7 @@ export interface TwirlingAxisObjectDefinition {
   opacity?: number;
   rotationScript?: string;
   emitGhost?: boolean;
+  ghostPoint?: GhostPoint;
   groupId?: string;
   groupRole?: 'ring' | 'twirl8';
 }
@@ -74,6 +84,14 @@ export interface RgpXYObjectDefinition {
   primaryVisible?: boolean;
   secondaryVisible?: boolean;
   sphereVisible?: boolean;
+  /** Generations the dexel lattice may grow away from the RGP. */
+  latticeDepth?: number;
+  /** Most runtime dexels the lattice may hold. */
+  latticeBudget?: number;
+  /** Beats between automatic lattice growth steps; 0 (the default) grows only on request. */
+  autoGrowBeats?: number;
+  emitGhost?: boolean;
+  ghostPoint?: GhostPoint;
   groupId?: string;
   groupRole?: 'ring' | 'twirl8';
 }
@@ -95,6 +113,8 @@ export interface Twirl8ObjectDefinition {
   direction?: 1 | -1;
   initialRotationDeg?: number;
   invertPulse?: boolean;
+  emitGhost?: boolean;
+  ghostPoint?: GhostPoint;
   groupId?: string;
   groupRole?: 'ring' | 'twirl8';
 }
@@ -111,6 +131,10 @@ export interface DexelObjectDefinition {
   anchorId?: string;
   primarySpeedRatio?: number;
   secondarySpeedRatio?: number;
+  /** Cell and generation of a dexel its anchor RGP grew; placed by axis and sign when omitted. */
+  lattice?: { cell: [number, number, number]; depth: number };
+  emitGhost?: boolean;
+  ghostPoint?: GhostPoint;
   groupId?: string;
   groupRole?: 'ring' | 'twirl8';
 }
@@ -122,3 +146,13 @@ export type SimObjectDefinition =
   | RgpXYObjectDefinition
   | Twirl8ObjectDefinition
   | DexelObjectDefinition;
+
+/** Ghost points each object type can trace, centre first. */
+export const OBJECT_GHOST_POINTS: Readonly<Record<SimObjectDefinition['type'], ReadonlyArray<GhostPoint>>> = {
+  sphere: ['center', 'rim'],
+  twirl: ['center', 'rim'],
+  'twirling-axis': ['center', 'tips'],
+  rgpXY: ['center', 'poles'],
+  twirl8: ['center', 'lobeTips'],
+  dexel: ['center', 'poles'],
+};
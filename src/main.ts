@@ -1,6 +1,9 @@
 // main.ts — bootstraps the NettySimulation app and logs readiness
 import './styles/app.css';
 import { App } from './app/App';
+import { HUD } from './ui/HUD';
+import { Inspector } from './ui/Inspector';
+import { Shortcuts } from './ui/Shortcuts';
 import { TabPanel } from './ui/TabPanel';
 import { createDisplayTab } from './ui/display';
 import { restoreLogWindow } from './ui/logWindow';
@@ -48,6 +51,9 @@ rootElement.innerHTML = '';
 rootElement.appendChild(shell);
 
 app.mount(sceneHost);
+new HUD(app).mount(sceneHost);
+new Inspector(app).mount(sceneHost);
+new Shortcuts(app).mount(shell);
 restoreLogWindow();
 
 console.log('NettySimulation ready');
@@ -6,6 +6,7 @@ import type {
 } from './types';
 import { SEGMENT_BLUEPRINTS } from './registry';
 import { instantiateAsset } from '../assets/registry';
+import { loadSceneBlueprints } from './scenes';
 
 function expandAsset(instance: SegmentAssetInstance, collected: SegmentRuntimeAsset[]) {
   const result = instantiateAsset(instance.instanceId, instance.assetId, instance.config ?? {});
@@ -24,17 +25,35 @@ function expandAsset(instance: SegmentAssetInstance, collected: SegmentRuntimeAs
 
 function buildSegment(segment: SegmentBlueprint): SimulationSegmentDefinition {
   const runtimeAssets: SegmentRuntimeAsset[] = [];
-  const objects = segment.assets.flatMap((asset) => expandAsset(asset, runtimeAssets));
-
-  return {
+  const base = {
     id: segment.id,
     name: segment.name,
-    objects,
-    assets: runtimeAssets,
-    ghosts: segment.ghosts ?? [],
+    settings: segment.settings ?? {},
+    source: segment.source,
   };
+
+  if (segment.error) {
+    return { ...base, objects: [], assets: [], ghosts: [], script: [], error: segment.error };
+  }
+
+  try {
+    const objects = segment.assets.flatMap((asset) => expandAsset(asset, runtimeAssets));
+    return {
+      ...base,
+      objects,
+      assets: runtimeAssets,
+      ghosts: segment.ghosts ?? [],
+      script: segment.script ?? [],
+    };
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    return { ...base, objects: [], assets: [], ghosts: [], script: [], error: message };
+  }
 }
 
-export function buildAllSegments(): SimulationSegmentDefinition[] {
-  return SEGMENT_BLUEPRINTS.map(buildSegment);
+export function buildAllSegments(
+  blueprints: ReadonlyArray<SegmentBlueprint> = SEGMENT_BLUEPRINTS,
+): SimulationSegmentDefinition[] {
+  const scenes = loadSceneBlueprints(undefined, blueprints.map((segment) => segment.id));
+  return [...blueprints, ...scenes].map(buildSegment);
 }
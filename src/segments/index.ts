@@ -3,6 +3,8 @@ export type {
   SegmentAssetInstance,
   SegmentBlueprint,
   SegmentRuntimeAsset,
+  SegmentSettings,
   SimulationSegmentDefinition,
 } from './types';
 export { buildAllSegments } from './builder';
+export { compileScene, loadSceneBlueprints } from './scenes';
@@ -53,6 +53,10 @@ export const SEGMENT_BLUEPRINTS: SegmentBlueprint[] = [
   {
     id: 'RGP_Pray',
     name: 'RGP_Pray',
+    settings: {
+      cameraLock: true,
+      snapToAxis: true,
+    },
     assets: [
       {
         assetId: 'ring-twirl',
@@ -64,7 +68,7 @@ export const SEGMENT_BLUEPRINTS: SegmentBlueprint[] = [
           ringShadingIntensity: 0.4,
           ringOpacity: 0.9,
           ringBeltHalfAngle: 0.18,
-          pulseSpeed: 0.75,
+          pulsesPerRevolution: 1,
           twirlAxis: 'y',
           twirlRadius: 24,
           twirlColor: 'white',
@@ -90,7 +94,7 @@ export const SEGMENT_BLUEPRINTS: SegmentBlueprint[] = [
           ringShadingIntensity: 0.55,
           ringOpacity: 0.9,
           ringBeltHalfAngle: 0.22,
-          pulseSpeed: 0.75,
+          pulsesPerRevolution: 1,
           twirlAxis: 'z',
           twirlRadius: 24,
           twirlColor: 'crimson',
@@ -187,7 +191,7 @@ export const SEGMENT_BLUEPRINTS: SegmentBlueprint[] = [
           ringShadingIntensity: 0.4,
           ringOpacity: 0.92,
           ringBeltHalfAngle: 0.2,
-          pulseSpeed: 0.8,
+          pulsesPerRevolution: 1,
           twirlAxis: 'y',
           twirlRadius: 26,
           twirlColor: 'white',
@@ -213,7 +217,7 @@ export const SEGMENT_BLUEPRINTS: SegmentBlueprint[] = [
           ringShadingIntensity: 0.55,
           ringOpacity: 0.95,
           ringBeltHalfAngle: 0.24,
-          pulseSpeed: 0.8,
+          pulsesPerRevolution: 1,
           twirlAxis: 'z',
           twirlRadius: 28,
           twirlColor: 'crimson',
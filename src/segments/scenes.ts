@@ -0,0 +1,150 @@
+// scenes.ts — discovers src/scenes/*.ncmd files and compiles them into segment blueprints
+/// <reference types="vite/client" />
+import type { GhostObjectDefinition, SegmentBlueprint, SegmentSettings } from './types';
+import { checkProperties, getCommandDefinition } from '../dsl/commands';
+import { ParseError, Parser, type DslAction } from '../dsl/parser';
+
+const SCENE_SOURCES = import.meta.glob('../scenes/*.ncmd', {
+  query: '?raw',
+  import: 'default',
+  eager: true,
+}) as Record<string, string>;
+
+export function compileScene(source: string, fileName: string): SegmentBlueprint {
+  const actions = new Parser(fileName).parse(source);
+  const blueprint: SegmentBlueprint = {
+    id: sceneIdFromPath(fileName),
+    name: sceneIdFromPath(fileName),
+    assets: [],
+    ghosts: [],
+    script: [],
+    source: fileName,
+  };
+
+  let segmentDeclared = false;
+  for (const action of actions) {
+    switch (action.kind) {
+      case 'segment': {
+        if (segmentDeclared) {
+          throw new ParseError('Only one SEGMENT statement is allowed per scene', action.location, fileName);
+        }
+        assertProperties(action, fileName);
+        segmentDeclared = true;
+        blueprint.id = action.id;
+        blueprint.name = typeof action.properties.name === 'string' ? action.properties.name : action.id;
+        blueprint.settings = settingsFromProperties(action.properties);
+        break;
+      }
+      case 'make':
+        blueprint.assets.push({ assetId: action.assetId, instanceId: action.instanceId, config: action.config });
+        break;
+      case 'ghost': {
+        assertProperties(action, fileName);
+        const ghost: GhostObjectDefinition = {
+          id: action.id,
+          position: action.properties.position as [number, number, number],
+          color: action.properties.color as [number, number, number],
+          radius: (action.properties.radius as number | undefined) ?? 0.2,
+          opacity: (action.properties.opacity as number | undefined) ?? 0.4,
+        };
+        blueprint.ghosts!.push(ghost);
+        break;
+      }
+      default:
+        blueprint.script!.push(action);
+        break;
+    }
+  }
+
+  return blueprint;
+}
+
+export function loadSceneBlueprints(
+  sources: Record<string, string> = SCENE_SOURCES,
+  reservedIds: ReadonlyArray<string> = [],
+): SegmentBlueprint[] {
+  const usedIds = new Set(reservedIds);
+  const blueprints: SegmentBlueprint[] = [];
+
+  for (const path of Object.keys(sources).sort()) {
+    const fileName = path.replace(/^.*\//, '');
+    let blueprint: SegmentBlueprint;
+    try {
+      blueprint = compileScene(sources[path], fileName);
+    } catch (error) {
+      blueprint = brokenScene(fileName, error);
+    }
+
+    if (usedIds.has(blueprint.id)) {
+      blueprint = brokenScene(fileName, new Error(`${fileName}: segment id "${blueprint.id}" is already in use`));
+    }
+    usedIds.add(blueprint.id);
+    blueprints.push(blueprint);
+  }
+
+  return blueprints;
+}
+
+function assertProperties(action: Extract<DslAction, { kind: 'segment' | 'ghost' }>, fileName: string): void {
+  const problems = checkProperties(getCommandDefinition(action.kind), action.properties);
+  if (problems.length > 0) {
+    throw new ParseError(problems[0], action.location, fileName);
+  }
+}
+
+function settingsFromProperties(properties: Extract<DslAction, { kind: 'segment' }>['properties']): SegmentSettings {
+  const settings: SegmentSettings = {};
+  if (typeof properties.cameraLock === 'boolean') {
+    settings.cameraLock = properties.cameraLock;
+  }
+  if (typeof properties.snapToAxis === 'boolean') {
+    settings.snapToAxis = properties.snapToAxis;
+  }
+  if (typeof properties.speed === 'number') {
+    settings.simSpeed = properties.speed;
+  }
+  if (Array.isArray(properties.background)) {
+    settings.backgroundColor = properties.background as [number, number, number];
+  }
+
+  const axisVisibility: NonNullable<SegmentSettings['axisVisibility']> = {};
+  for (const axis of ['x', 'y', 'z'] as const) {
+    const visible = properties[`axis${axis.toUpperCase()}`];
+    if (typeof visible === 'boolean') {
+      axisVisibility[axis] = visible;
+    }
+  }
+  if (Object.keys(axisVisibility).length > 0) {
+    settings.axisVisibility = axisVisibility;
+  }
+
+  const camera: NonNullable<SegmentSettings['camera']> = {};
+  if (typeof properties.azimuthDeg === 'number') {
+    camera.azimuth = (properties.azimuthDeg * Math.PI) / 180;
+  }
+  if (typeof properties.elevationDeg === 'number') {
+    camera.elevation = (properties.elevationDeg * Math.PI) / 180;
+  }
+  if (typeof properties.distance === 'number') {
+    camera.distance = properties.distance;
+  }
+  if (Object.keys(camera).length > 0) {
+    settings.camera = camera;
+  }
+  return settings;
+}
+
+function brokenScene(fileName: string, error: unknown): SegmentBlueprint {
+  const id = sceneIdFromPath(fileName);
+  return {
+    id,
+    name: id,
+    assets: [],
+    source: fileName,
+    error: error instanceof Error ? error.message : String(error),
+  };
+}
+
+function sceneIdFromPath(path: string): string {
+  return path.replace(/^.*\//, '').replace(/\.ncmd$/, '');
+}
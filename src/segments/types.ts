@@ -1,4 +1,6 @@
 import type { SimObjectDefinition } from '../engine/assets/simTypes';
+import type { DslAction } from '../dsl/parser';
+import type { CameraState } from '../app/camera';
 
 export interface SegmentAssetInstance {
   assetId: string;
@@ -15,11 +17,32 @@ export interface GhostObjectDefinition {
   opacity: number;
 }
 
+/**
+ * Viewer behaviour a segment opts into, applied each time it loads. The flags and the background
+ * fall back to their defaults when left out; the camera, speed and axes keep their current values.
+ */
+export interface SegmentSettings {
+  /** Keeps the camera orbiting the origin; panning is disabled. */
+  cameraLock?: boolean;
+  /** Double-clicking an axis turns the camera to look along it. */
+  snapToAxis?: boolean;
+  camera?: Partial<CameraState>;
+  /** Simulation speed in beats per second. */
+  simSpeed?: number;
+  axisVisibility?: Partial<Record<'x' | 'y' | 'z', boolean>>;
+  /** RGB in 0–1. */
+  backgroundColor?: [number, number, number];
+}
+
 export interface SegmentBlueprint {
   id: string;
   name: string;
   assets: SegmentAssetInstance[];
   ghosts?: GhostObjectDefinition[];
+  settings?: SegmentSettings;
+  script?: DslAction[];
+  source?: string;
+  error?: string;
 }
 
 export interface SegmentRuntimeAsset {
@@ -33,4 +56,8 @@ export interface SimulationSegmentDefinition {
   objects: SimObjectDefinition[];
   assets: SegmentRuntimeAsset[];
   ghosts: GhostObjectDefinition[];
+  settings: SegmentSettings;
+  script: DslAction[];
+  source?: string;
+  error?: string;
 }
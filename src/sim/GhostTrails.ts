@@ -0,0 +1,200 @@
+// GhostTrails.ts — ghost particle trails with per-particle lifetime, fade-out, and batched vertex output
+
+export type GhostTrailStyle = 'balls' | 'lines';
+
+export const MAX_GHOST_PARTICLES = 4000;
+export const DEFAULT_GHOST_LIFETIME_BEATS = 90;
+/** Floats per vertex in buildBatches(): position xyz, colour rgba, radius. */
+export const GHOST_VERTEX_FLOATS = 8;
+
+export interface GhostParticle {
+  /** Trail the particle belongs to; each emitter draws as its own line strip. */
+  emitterId: string;
+  /** Sim object or segment ghost that owns the emitter, so its trails can be dropped together. */
+  ownerId: string;
+  position: Float32Array;
+  color: Float32Array;
+  radius: number;
+  opacity: number;
+  ageBeats: number;
+  /** Infinity for persistent markers and for trails emitted while the lifetime is 0. */
+  lifetimeBeats: number;
+  /** Segment `ghosts`: never fade, survive "Clear Trails" and are never trimmed by the cap. */
+  persistent: boolean;
+}
+
+export interface GhostEmission {
+  emitterId: string;
+  ownerId: string;
+  position: ArrayLike<number>;
+  color: ArrayLike<number>;
+  radius: number;
+  opacity: number;
+  lifetimeBeats?: number;
+  persistent?: boolean;
+}
+
+export interface GhostDrawRange {
+  offset: number;
+  count: number;
+}
+
+export interface GhostBatches {
+  vertices: Float32Array;
+  /** Vertices drawn as balls (gl.POINTS). */
+  points: GhostDrawRange;
+  /** One range per emitter drawn as a gl.LINE_STRIP. */
+  strips: GhostDrawRange[];
+}
+
+/**
+ * Particles are kept in emission order, oldest first, so expiring and capping both trim from the
+ * front. Opacity fades linearly from the emitted value to zero over the particle's lifetime.
+ */
+export class GhostTrails {
+  private readonly items: GhostParticle[] = [];
+  private lifetimeBeats = DEFAULT_GHOST_LIFETIME_BEATS;
+
+  get particles(): ReadonlyArray<GhostParticle> {
+    return this.items;
+  }
+
+  /** Lifetime given to trail particles emitted from now on; 0 keeps them until cleared. */
+  getLifetimeBeats(): number {
+    return this.lifetimeBeats;
+  }
+
+  setLifetimeBeats(beats: number): void {
+    if (Number.isFinite(beats) && beats >= 0) {
+      this.lifetimeBeats = beats;
+    }
+  }
+
+  emit(emission: GhostEmission): GhostParticle {
+    const persistent = emission.persistent ?? false;
+    const lifetime = persistent ? 0 : emission.lifetimeBeats ?? this.lifetimeBeats;
+    const particle: GhostParticle = {
+      emitterId: emission.emitterId,
+      ownerId: emission.ownerId,
+      position: Float32Array.from(emission.position),
+      color: Float32Array.from(emission.color),
+      radius: emission.radius,
+      opacity: emission.opacity,
+      ageBeats: 0,
+      lifetimeBeats: lifetime > 0 ? lifetime : Number.POSITIVE_INFINITY,
+      persistent,
+    };
+    this.items.push(particle);
+
+    if (this.items.length > MAX_GHOST_PARTICLES) {
+      this.trimOldest(this.items.length - MAX_GHOST_PARTICLES);
+    }
+    return particle;
+  }
+
+  /** Ages every particle by `beats` and drops the ones that have faded out. */
+  step(beats: number): void {
+    if (!(beats > 0)) {
+      return;
+    }
+    let write = 0;
+    for (const particle of this.items) {
+      particle.ageBeats += beats;
+      if (particle.ageBeats < particle.lifetimeBeats) {
+        this.items[write] = particle;
+        write += 1;
+      }
+    }
+    this.items.length = write;
+  }
+
+  getOpacity(particle: GhostParticle): number {
+    if (!Number.isFinite(particle.lifetimeBeats)) {
+      return particle.opacity;
+    }
+    return particle.opacity * Math.max(0, 1 - particle.ageBeats / particle.lifetimeBeats);
+  }
+
+  /** Drops the fading trails and keeps persistent markers. */
+  clearTrails(): void {
+    this.retain((particle) => particle.persistent);
+  }
+
+  clearOwner(ownerId: string): void {
+    this.retain((particle) => particle.ownerId !== ownerId);
+  }
+
+  clear(): void {
+    this.items.length = 0;
+  }
+
+  /**
+   * Packs every particle into one interleaved vertex array. Balls are one point range; line mode
+   * adds a strip per emitter with two or more particles, and single-particle emitters (markers)
+   * stay balls so they do not vanish.
+   */
+  buildBatches(style: GhostTrailStyle): GhostBatches {
+    const vertices = new Float32Array(this.items.length * GHOST_VERTEX_FLOATS);
+    let cursor = 0;
+    const write = (particle: GhostParticle) => {
+      const base = cursor * GHOST_VERTEX_FLOATS;
+      vertices[base] = particle.position[0];
+      vertices[base + 1] = particle.position[1];
+      vertices[base + 2] = particle.position[2];
+      vertices[base + 3] = particle.color[0];
+      vertices[base + 4] = particle.color[1];
+      vertices[base + 5] = particle.color[2];
+      vertices[base + 6] = this.getOpacity(particle);
+      vertices[base + 7] = particle.radius;
+      cursor += 1;
+    };
+
+    if (style === 'balls') {
+      this.items.forEach(write);
+      return { vertices, points: { offset: 0, count: cursor }, strips: [] };
+    }
+
+    const byEmitter = new Map<string, GhostParticle[]>();
+    for (const particle of this.items) {
+      const trail = byEmitter.get(particle.emitterId);
+      if (trail) {
+        trail.push(particle);
+      } else {
+        byEmitter.set(particle.emitterId, [particle]);
+      }
+    }
+
+    const singles: GhostParticle[] = [];
+    const strips: GhostDrawRange[] = [];
+    for (const trail of byEmitter.values()) {
+      if (trail.length < 2) {
+        singles.push(...trail);
+        continue;
+      }
+      const offset = cursor;
+      trail.forEach(write);
+      strips.push({ offset, count: trail.length });
+    }
+    const points = { offset: cursor, count: singles.length };
+    singles.forEach(write);
+    return { vertices, points, strips };
+  }
+
+  private retain(keep: (particle: GhostParticle) => boolean): void {
+    const kept = this.items.filter(keep);
+    this.items.length = 0;
+    this.items.push(...kept);
+  }
+
+  // Persistent markers are never the ones trimmed, so a segment's ghosts survive a busy trail.
+  private trimOldest(count: number): void {
+    let remaining = count;
+    this.retain((particle) => {
+      if (remaining > 0 && !particle.persistent) {
+        remaining -= 1;
+        return false;
+      }
+      return true;
+    });
+  }
+}
@@ -0,0 +1,1651 @@
+// World.ts — headless simulation state and fixed-step advancement, independent of WebGL
+import { AXIS_COLORS } from '../engine/assets/axisAsset';
+import {
+  TWIRLING_AXIS_BASE_LENGTH,
+  TWIRLING_AXIS_BASE_RADIUS,
+  TWIRLING_AXIS_BALL_SCALE,
+} from '../engine/assets/twirlingAxisAsset';
+import type { BaseColor, GhostPoint, SimObjectDefinition, Twirl8ObjectDefinition } from '../engine/assets/simTypes';
+import type { SceneObjectRecord, SceneObjectState } from '../app/sceneFile';
+import { GhostTrails, type GhostParticle } from './GhostTrails';
+import {
+  clamp,
+  mat3FromMat4,
+  mat4FromXRotation,
+  mat4FromYRotation,
+  mat4FromZRotation,
+  mat4Identity,
+  mat4Multiply,
+  mat4Scale,
+  mat4ScaleUniform,
+  transformPoint,
+} from '../app/math3d';
+
+export const ROTATION_PER_BEAT = Math.PI / 90;
+export const DEFAULT_SHELL_SIZE = 32;
+export const DEFAULT_TWIRLING_AXIS_SCRIPT = '+X90 -Y90 +Z90 -X90 +Y90 -Z90';
+/** Beats for one full turn at speedPerTick 1. */
+export const BEATS_PER_REVOLUTION = (2 * Math.PI) / ROTATION_PER_BEAT;
+export const DEFAULT_PULSES_PER_REVOLUTION = 1;
+
+export const BASE_COLOR_RGB: Readonly<Record<BaseColor, Float32Array>> = {
+  crimson: new Float32Array([0.86, 0.19, 0.29]),
+  red: new Float32Array([0.95, 0.2, 0.23]),
+  amber: new Float32Array([1.0, 0.75, 0.27]),
+  gold: new Float32Array([0.98, 0.86, 0.29]),
+  lime: new Float32Array([0.54, 0.86, 0.27]),
+  teal: new Float32Array([0.1, 0.65, 0.64]),
+  azure: new Float32Array([0.2, 0.55, 0.96]),
+  violet: new Float32Array([0.55, 0.34, 0.84]),
+  magenta: new Float32Array([0.78, 0.16, 0.76]),
+  white: new Float32Array([1.0, 1.0, 1.0]),
+};
+
+export const RGP_SPHERE_COLOR = new Float32Array([0.42, 0.68, 0.93]);
+export const RGP_SPHERE_OPACITY = 0.12;
+
+const RGP_PRIMARY_CONFIG = {
+  shellScale: 1,
+  speedPerTick: 1,
+  direction: 1 as 1 | -1,
+  plane: 'GB' as const,
+  baseColor: 'white' as BaseColor,
+  shadingIntensity: 0.35,
+  opacity: 1,
+  beltHalfAngle: 0.18,
+  pulsesPerRevolution: DEFAULT_PULSES_PER_REVOLUTION,
+  initialRotationY: Math.PI / 6,
+  initialPulsePhase: 0,
+  initialPulseScale: 0,
+  invertPulse: false,
+  visible: true,
+};
+
+const RGP_SECONDARY_CONFIG = {
+  shellScale: 1,
+  speedPerTick: 1,
+  direction: 1 as 1 | -1,
+  plane: 'YG' as const,
+  baseColor: 'red' as BaseColor,
+  shadingIntensity: 0.45,
+  opacity: 1,
+  beltHalfAngle: 0.22,
+  pulsesPerRevolution: DEFAULT_PULSES_PER_REVOLUTION,
+  initialRotationY: Math.PI / 6,
+  initialPulsePhase: 0.5,
+  initialPulseScale: 0,
+  invertPulse: false,
+  visible: true,
+};
+
+const DEXEL_PRIMARY_RATIO = 1;
+const DEXEL_SECONDARY_RATIO = 0.9;
+
+export const DEFAULT_LATTICE_DEPTH = 3;
+export const DEFAULT_LATTICE_BUDGET = 24;
+
+const LATTICE_AXES = ['x', 'y', 'z'] as const;
+
+/** Ghost point traced when a definition enables `emitGhost` without naming one. */
+export const DEFAULT_GHOST_POINTS: Readonly<Record<SimObjectDefinition['type'], GhostPoint>> = {
+  sphere: 'rim',
+  twirl: 'rim',
+  'twirling-axis': 'tips',
+  rgpXY: 'poles',
+  twirl8: 'lobeTips',
+  dexel: 'center',
+};
+
+// The K1P2 outline reaches x = ±1 at its lobe tips before size scaling.
+const TWIRL8_LOBE_TIP_DISTANCE = 1;
+const GHOST_POINT_RADIUS = 0.03;
+
+const DEG_TO_RAD = Math.PI / 180;
+const RAD_TO_DEG = 180 / Math.PI;
+
+export interface RotationStep {
+  axis: 'x' | 'y' | 'z';
+  direction: 1 | -1;
+  angleDeg: number;
+}
+
+interface GhostEmitter {
+  /** Leaves a ghost trail behind `ghostPoint` as the object moves. */
+  emitGhost: boolean;
+  ghostPoint: GhostPoint;
+}
+
+interface BaseSimObject extends GhostEmitter {
+  id: string;
+  rotationY: number;
+  speedPerTick: number;
+  direction: 1 | -1;
+  plane: 'YG' | 'GB' | 'YB';
+  visible: boolean;
+  shadingIntensity: number;
+  opacity: number;
+}
+
+export interface SphereObject extends BaseSimObject {
+  type: 'sphere';
+  shellSize: number;
+  baseColor: BaseColor;
+}
+
+export interface TwirlObject extends BaseSimObject {
+  type: 'twirl';
+  shellSize: number;
+  baseColor: BaseColor;
+  beltHalfAngle: number;
+  pulsesPerRevolution: number;
+  pulsePhase: number;
+  pulseScale: number;
+  invertPulse: boolean;
+}
+
+export interface TwirlingAxisObject extends GhostEmitter {
+  type: 'twirling-axis';
+  id: string;
+  rotationX: number;
+  rotationY: number;
+  rotationZ: number;
+  speedPerTick: number;
+  direction: 1 | -1;
+  visible: boolean;
+  size: number;
+  opacity: number;
+  rotationScript: RotationStep[];
+  rotationScriptSource: string;
+  scriptIndex: number;
+  beatAccumulator: number;
+  currentDirection: 1 | -1;
+}
+
+interface RgpRingConfig {
+  shellScale: number;
+  speedPerTick: number;
+  direction: 1 | -1;
+  plane: 'YG' | 'GB' | 'YB';
+  baseColor: BaseColor;
+  shadingIntensity: number;
+  opacity: number;
+  beltHalfAngle: number;
+  pulsesPerRevolution: number;
+  initialRotationY: number;
+  initialPulsePhase: number;
+  initialPulseScale: number;
+  invertPulse: boolean;
+  visible: boolean;
+}
+
+export interface RgpRingState {
+  rotationY: number;
+  speedPerTick: number;
+  direction: 1 | -1;
+  plane: 'YG' | 'GB' | 'YB';
+  shellScale: number;
+  baseColor: BaseColor;
+  shadingIntensity: number;
+  opacity: number;
+  beltHalfAngle: number;
+  pulsesPerRevolution: number;
+  pulsePhase: number;
+  pulseScale: number;
+  invertPulse: boolean;
+  visible: boolean;
+  contracted: boolean;
+}
+
+export interface RgpXYObject extends GhostEmitter {
+  type: 'rgpXY';
+  id: string;
+  size: number;
+  visible: boolean;
+  speedPerTick: number;
+  direction: 1 | -1;
+  primary: RgpRingState;
+  secondary: RgpRingState;
+  sphereColor: Float32Array;
+  sphereOpacity: number;
+  sphereVisible: boolean;
+  primaryTwirl: Twirl8Object | null;
+  secondaryTwirl: Twirl8Object | null;
+  /** Generations the dexel lattice may grow away from the RGP. */
+  latticeDepth: number;
+  /** Most runtime dexels the lattice may hold. */
+  latticeBudget: number;
+  /** Beats between automatic growth steps; 0 grows only on request. */
+  autoGrowBeats: number;
+  growBeatAccumulator: number;
+}
+
+export interface DexelObject extends GhostEmitter {
+  type: 'dexel';
+  id: string;
+  anchorId: string | null;
+  axis: 'x' | 'y' | 'z';
+  sign: 1 | -1;
+  size: number;
+  speedPerTick: number;
+  direction: 1 | -1;
+  visible: boolean;
+  position: Float32Array;
+  primary: RgpRingState;
+  secondary: RgpRingState;
+  primarySpeedRatio: number;
+  secondarySpeedRatio: number;
+  /** Set for dexels grown by their anchor's lattice; their axis and sign say which way they grew. */
+  lattice: DexelLatticePlacement | null;
+}
+
+/** Lattice coordinates of a spawned dexel, in neighbour spacings from its RGP. */
+export type DexelCell = [number, number, number];
+
+export interface DexelLatticePlacement {
+  cell: DexelCell;
+  /** Generation: 1 beside the RGP, one more for each step away. */
+  depth: number;
+}
+
+export interface Twirl8Object extends GhostEmitter {
+  type: 'twirl8';
+  id: string;
+  axis: 'x' | 'y' | 'z';
+  radius: number;
+  color: BaseColor;
+  backColor: BaseColor;
+  opacity: number;
+  visible: boolean;
+  size: number;
+  width: number;
+  lobeAngle: number;
+  lobeOrientation: 1 | -1;
+  wasCollapsed: boolean;
+  rotationY: number;
+  speedPerTick: number;
+  direction: 1 | -1;
+  invertPulse: boolean;
+  linkedRingState: RgpRingState | null;
+  linkedRingType: 'primary' | 'secondary' | null;
+}
+
+export type SimObject = SphereObject | TwirlObject | TwirlingAxisObject | RgpXYObject | DexelObject | Twirl8Object;
+
+export { MAX_GHOST_PARTICLES, type GhostParticle } from './GhostTrails';
+
+/**
+ * Plain-data snapshot of a world. Ghost particles are a visual trail and are not part of it.
+ */
+export interface SimulationState {
+  objects: SceneObjectRecord[];
+}
+
+export interface SimulationOptions {
+  shadingIntensity?: number;
+}
+
+export function parseRotationScript(source: string): { steps: RotationStep[]; normalized: string } {
+  const trimmed = source.trim();
+  if (!trimmed) {
+    throw new Error('Rotation script is empty');
+  }
+
+  const tokens = trimmed.split(/\s+/).filter(Boolean);
+  if (tokens.length === 0) {
+    throw new Error('Rotation script is empty');
+  }
+
+  const steps: RotationStep[] = [];
+  const normalizedTokens: string[] = [];
+
+  for (const token of tokens) {
+    const match = token.match(/^([+-])([XYZxyz])(\d+)$/);
+    if (!match) {
+      throw new Error(`Invalid token: ${token}`);
+    }
+    const [, sign, axisChar, angleStr] = match;
+    const angleDeg = Number.parseInt(angleStr, 10);
+    if (!Number.isFinite(angleDeg) || angleDeg <= 0) {
+      throw new Error(`Invalid angle in token: ${token}`);
+    }
+
+    const axis = axisChar.toLowerCase() as RotationStep['axis'];
+    const direction = sign === '+' ? 1 : -1;
+    steps.push({ axis, direction, angleDeg });
+    normalizedTokens.push(`${sign}${axisChar.toUpperCase()}${angleDeg}`);
+  }
+
+  return {
+    steps,
+    normalized: normalizedTokens.join(' '),
+  };
+}
+
+function safeParseRotationScript(source: string): { steps: RotationStep[]; normalized: string } {
+  try {
+    return parseRotationScript(source);
+  } catch (error) {
+    return parseRotationScript(DEFAULT_TWIRLING_AXIS_SCRIPT);
+  }
+}
+
+export function createRgpRingState(config: RgpRingConfig): RgpRingState {
+  return {
+    rotationY: config.initialRotationY,
+    speedPerTick: config.speedPerTick,
+    direction: config.direction,
+    plane: config.plane,
+    shellScale: config.shellScale,
+    baseColor: config.baseColor,
+    shadingIntensity: config.shadingIntensity,
+    opacity: config.opacity,
+    beltHalfAngle: config.beltHalfAngle,
+    pulsesPerRevolution: config.pulsesPerRevolution,
+    pulsePhase: config.initialPulsePhase,
+    pulseScale: config.initialPulseScale,
+    invertPulse: config.invertPulse,
+    visible: config.visible,
+    contracted: config.initialPulseScale <= 0.02,
+  };
+}
+
+export function cloneRgpRingState(source: RgpRingState): RgpRingState {
+  return {
+    rotationY: source.rotationY,
+    speedPerTick: source.speedPerTick,
+    direction: source.direction,
+    plane: source.plane,
+    shellScale: source.shellScale,
+    baseColor: source.baseColor,
+    shadingIntensity: source.shadingIntensity,
+    opacity: source.opacity,
+    beltHalfAngle: source.beltHalfAngle,
+    pulsesPerRevolution: source.pulsesPerRevolution,
+    pulsePhase: source.pulsePhase,
+    pulseScale: source.pulseScale,
+    invertPulse: source.invertPulse,
+    visible: source.visible,
+    contracted: source.contracted,
+  };
+}
+
+/**
+ * Pulse phases run on the simulation clock, locked to the ring's own spin: one revolution covers
+ * `pulsesPerRevolution` cycles whatever the playback speed or frame rate. Direction flips do not
+ * run the phase backwards.
+ */
+export function advancePulsePhase(phase: number, beats: number, speedPerTick: number, pulsesPerRevolution: number): number {
+  const revolutions = (beats * Math.abs(speedPerTick)) / BEATS_PER_REVOLUTION;
+  return (phase + revolutions * pulsesPerRevolution) % 1;
+}
+
+export function pulseTriangle(phase: number): number {
+  return phase < 0.5 ? phase * 2 : 1 - (phase - 0.5) * 2;
+}
+
+export function updateRgpPulse(ring: RgpRingState, beats: number): void {
+  if (ring.pulsesPerRevolution <= 0) {
+    return;
+  }
+
+  ring.pulsePhase = advancePulsePhase(ring.pulsePhase, beats, ring.speedPerTick, ring.pulsesPerRevolution);
+  const triangle = pulseTriangle(ring.pulsePhase);
+  const baseTriangle = ring.invertPulse ? 1 - triangle : triangle;
+  const nextScale = Math.min(Math.max(baseTriangle, 0), 1);
+  ring.pulseScale = nextScale;
+
+  const isContracted = ring.pulseScale <= 0.02;
+  if (isContracted && !ring.contracted) {
+    ring.direction = ring.direction === 1 ? -1 : 1;
+    ring.contracted = true;
+  } else if (!isContracted && ring.contracted) {
+    ring.contracted = false;
+  }
+}
+
+export function getRgpRingRadius(size: number, ring: RgpRingState, pulseScaleOverride?: number): number {
+  const shellSize = Math.max(1, size * ring.shellScale);
+  const pulseScale = Math.max(pulseScaleOverride ?? ring.pulseScale, 0);
+  return Math.max(0, (shellSize / DEFAULT_SHELL_SIZE) * pulseScale);
+}
+
+/** Point on a ring's rim that turns with it: the mesh's local +X after rotation and pulse scaling. */
+export function getRgpRingPole(size: number, ring: RgpRingState, center: ArrayLike<number> = [0, 0, 0]): Float32Array {
+  const radius = getRgpRingRadius(size, ring);
+  const rotation = computePlaneRotation(ring.plane, ring.rotationY);
+  const [x, y, z] = transformPoint(rotation, [radius, 0, 0]);
+  return new Float32Array([x + center[0], y + center[1], z + center[2]]);
+}
+
+export function getTwirl8Pulse(ring: Twirl8Object): number {
+  const linkedPulse = ring.linkedRingState ? clamp(ring.linkedRingState.pulseScale, 0, 1) : null;
+  const normalizedRotation = ((ring.rotationY / (Math.PI * 2)) % 1 + 1) % 1;
+  const rotationPulse =
+    normalizedRotation < 0.5
+      ? normalizedRotation * 2
+      : (1 - normalizedRotation) * 2;
+  const basePulse = linkedPulse ?? rotationPulse;
+  return ring.invertPulse ? 1 - basePulse : basePulse;
+}
+
+// Flip the lobes each time the figure-8 collapses through its centre.
+function updateTwirl8Orientation(ring: Twirl8Object): void {
+  const collapsedThreshold = 0.05;
+  if (getTwirl8Pulse(ring) <= collapsedThreshold) {
+    if (!ring.wasCollapsed) {
+      ring.lobeOrientation = ring.lobeOrientation === 1 ? -1 : 1;
+      ring.wasCollapsed = true;
+    }
+  } else if (ring.wasCollapsed) {
+    ring.wasCollapsed = false;
+  }
+}
+
+export function computeTwirlingAxisMatrices(
+  simObject: TwirlingAxisObject,
+): { modelMatrix: Float32Array; normalMatrix: Float32Array } {
+  let rotationMatrix = mat4Identity();
+  if (simObject.rotationY !== 0) {
+    rotationMatrix = mat4Multiply(rotationMatrix, mat4FromYRotation(simObject.rotationY));
+  }
+  if (simObject.rotationZ !== 0) {
+    rotationMatrix = mat4Multiply(rotationMatrix, mat4FromZRotation(simObject.rotationZ));
+  }
+  if (simObject.rotationX !== 0) {
+    rotationMatrix = mat4Multiply(rotationMatrix, mat4FromXRotation(simObject.rotationX));
+  }
+
+  const scaleFactor = Math.max(0.01, simObject.size);
+  const scaleMatrix = mat4ScaleUniform(scaleFactor);
+  const modelMatrix = mat4Multiply(rotationMatrix, scaleMatrix);
+
+  return {
+    modelMatrix,
+    normalMatrix: mat3FromMat4(rotationMatrix),
+  };
+}
+
+const ALIGN_Y_AXIS_TO_Z = mat4FromXRotation(-Math.PI / 2);
+const ALIGN_Y_AXIS_TO_X = mat4FromZRotation(-Math.PI / 2);
+
+/** Turns a ring mesh (built around +Y) into `plane` and spins it by `angle` about the plane normal. */
+export function computePlaneRotation(plane: 'YG' | 'GB' | 'YB', angle: number): Float32Array {
+  switch (plane) {
+    case 'YG':
+      return mat4Multiply(mat4FromZRotation(angle), ALIGN_Y_AXIS_TO_Z);
+    case 'YB':
+      return mat4Multiply(mat4FromXRotation(angle), ALIGN_Y_AXIS_TO_X);
+    case 'GB':
+    default:
+      return mat4FromYRotation(angle);
+  }
+}
+
+export function computeTwirl8ModelMatrix(axis: 'x' | 'y' | 'z', radius: number, spin: number): Float32Array {
+  const norm = Math.max(0, radius / DEFAULT_SHELL_SIZE);
+  let rotation = mat4Identity();
+  switch (axis) {
+    case 'x':
+      rotation = mat4FromYRotation(-Math.PI / 2);
+      break;
+    case 'y':
+      rotation = mat4FromXRotation(Math.PI / 2);
+      break;
+    case 'z':
+      break;
+  }
+  const scale = mat4Scale(norm, norm, norm);
+  const oriented = mat4Multiply(rotation, scale);
+
+  if (Math.abs(spin) < 1e-6) {
+    return oriented;
+  }
+
+  let axialRotation: Float32Array;
+  switch (axis) {
+    case 'x':
+      axialRotation = mat4FromXRotation(spin);
+      break;
+    case 'y':
+      axialRotation = mat4FromYRotation(spin);
+      break;
+    case 'z':
+    default:
+      axialRotation = mat4FromZRotation(spin);
+      break;
+  }
+
+  return mat4Multiply(axialRotation, oriented);
+}
+
+function resolveGhostEmitter(definition: SimObjectDefinition): GhostEmitter {
+  return {
+    emitGhost: definition.emitGhost ?? definition.type === 'twirling-axis',
+    ghostPoint: definition.ghostPoint ?? DEFAULT_GHOST_POINTS[definition.type],
+  };
+}
+
+function planeToAxis(plane: 'YG' | 'GB' | 'YB'): 'x' | 'y' | 'z' {
+  switch (plane) {
+    case 'GB':
+      return 'y';
+    case 'YG':
+      return 'z';
+    case 'YB':
+      return 'x';
+    default:
+      return 'x';
+  }
+}
+
+function getDominantAxis(rgp: RgpXYObject): 'x' | 'y' | 'z' {
+  const dominant = rgp.primary.pulseScale >= rgp.secondary.pulseScale ? rgp.primary : rgp.secondary;
+  return planeToAxis(dominant.plane);
+}
+
+// Runtime dexels copy the RGP's rings at full scale, so neighbours sit one ring radius apart twice over.
+function getLatticeSpacing(rgp: RgpXYObject): number {
+  const ringRadius = Math.max(getRgpRingRadius(rgp.size, rgp.primary, 1), getRgpRingRadius(rgp.size, rgp.secondary, 1));
+  return ringRadius * 2;
+}
+
+export class Simulation {
+  readonly objects: SimObject[] = [];
+  readonly ghostTrails = new GhostTrails();
+  private dexelLastSign: Record<'x' | 'y' | 'z', 1 | -1> = { x: 1, y: 1, z: 1 };
+  private ghostBeatAccumulator = 0;
+  private shadingIntensity: number;
+
+  constructor(options: SimulationOptions = {}) {
+    this.shadingIntensity = clamp(options.shadingIntensity ?? 0.4, 0, 1);
+  }
+
+  get ghostParticles(): ReadonlyArray<GhostParticle> {
+    return this.ghostTrails.particles;
+  }
+
+  getDefaultShadingIntensity(): number {
+    return this.shadingIntensity;
+  }
+
+  setDefaultShadingIntensity(intensity: number): void {
+    this.shadingIntensity = clamp(intensity, 0, 1);
+  }
+
+  findObject(id: string): SimObject | null {
+    return this.objects.find((object) => object.id === id) ?? null;
+  }
+
+  /** Drops every object and ghost particle. */
+  clear(): void {
+    this.objects.length = 0;
+    this.ghostTrails.clear();
+    this.ghostBeatAccumulator = 0;
+    this.dexelLastSign = { x: 1, y: 1, z: 1 };
+  }
+
+  /** Drops the fading ghost trails; segment ghost markers stay. */
+  clearGhostParticles(): void {
+    this.ghostTrails.clearTrails();
+  }
+
+  /** Replaces the objects with fresh ones built from definitions. */
+  load(definitions: ReadonlyArray<SimObjectDefinition>): void {
+    this.ghostTrails.clear();
+    this.objects.length = 0;
+    const rgpById = new Map<string, RgpXYObject>();
+    for (const definition of definitions) {
+      this.addObject(definition, rgpById);
+    }
+
+    for (const simObject of this.objects) {
+      if (simObject.type === 'dexel') {
+        this.updateDexelAssetPosition(simObject);
+      }
+    }
+  }
+
+  /** Appends objects to the running world, linking twirl8 rings to the RGPs already present. */
+  spawn(definitions: ReadonlyArray<SimObjectDefinition>): SimObject[] {
+    for (const definition of definitions) {
+      if (this.objects.some((object) => object.id === definition.id)) {
+        throw new Error(`Sim object ${definition.id} already exists.`);
+      }
+    }
+
+    const rgpById = new Map<string, RgpXYObject>();
+    for (const simObject of this.objects) {
+      if (simObject.type === 'rgpXY') {
+        rgpById.set(simObject.id, simObject);
+      }
+    }
+
+    const firstNewIndex = this.objects.length;
+    for (const definition of definitions) {
+      this.addObject(definition, rgpById);
+    }
+
+    const spawned = this.objects.slice(firstNewIndex);
+    for (const simObject of spawned) {
+      if (simObject.type === 'dexel') {
+        this.updateDexelAssetPosition(simObject);
+      }
+    }
+    return spawned;
+  }
+
+  removeObject(id: string): SimObject | null {
+    const index = this.objects.findIndex((object) => object.id === id);
+    if (index === -1) {
+      return null;
+    }
+
+    const [removed] = this.objects.splice(index, 1);
+    if (removed.type === 'rgpXY') {
+      for (const twirl of [removed.primaryTwirl, removed.secondaryTwirl]) {
+        if (twirl) {
+          twirl.linkedRingState = null;
+          twirl.linkedRingType = null;
+        }
+      }
+      // Spawned dexels belong to their RGP; dexel assets stay and lose their anchor.
+      for (const dexel of this.getLatticeDexels(removed.id)) {
+        this.removeObject(dexel.id);
+      }
+      for (const simObject of this.objects) {
+        if (simObject.type === 'dexel' && simObject.anchorId === removed.id) {
+          simObject.anchorId = null;
+          this.updateDexelAssetPosition(simObject, null);
+        }
+      }
+    } else if (removed.type === 'twirl8') {
+      for (const simObject of this.objects) {
+        if (simObject.type !== 'rgpXY') {
+          continue;
+        }
+        if (simObject.primaryTwirl === removed) {
+          simObject.primaryTwirl = null;
+        }
+        if (simObject.secondaryTwirl === removed) {
+          simObject.secondaryTwirl = null;
+        }
+      }
+    }
+    this.ghostTrails.clearOwner(removed.id);
+    return removed;
+  }
+
+  /**
+   * Appends a copy of an object, current rotations and pulses included, as `<id>-copy` (then
+   * `-copy-2`, …). The copy is not linked to an RGP ring, and a spawned dexel's copy takes the
+   * nearest free cell of its anchor's lattice; returns null when that lattice is at its budget.
+   */
+  duplicateObject(id: string): SimObject | null {
+    const source = this.findObject(id);
+    if (!source) {
+      return null;
+    }
+
+    let copyId = `${id}-copy`;
+    for (let index = 2; this.findObject(copyId); index += 1) {
+      copyId = `${id}-copy-${index}`;
+    }
+
+    const record = this.serializeObject(source);
+    const definition = { ...record.definition, id: copyId };
+    if (definition.type === 'dexel' && source.type === 'dexel' && source.lattice) {
+      const anchor = this.findObject(source.anchorId ?? '');
+      if (anchor?.type === 'rgpXY') {
+        const placement = this.findFreeLatticeCell(anchor, source.lattice.cell);
+        if (!placement) {
+          return null;
+        }
+        Object.assign(definition, placement);
+      } else {
+        delete definition.lattice;
+      }
+    }
+    const copy = this.addObject(definition, new Map());
+    this.restoreObjectState(copy, record.state);
+    if (copy.type === 'dexel') {
+      this.updateDexelAssetPosition(copy);
+    }
+    return copy;
+  }
+
+  /** Advances every visible object, pulses included, by `beats` of simulation time. */
+  step(beats: number): void {
+    if (beats <= 0) {
+      return;
+    }
+
+    // Age the existing trail first so particles emitted during this step start at age zero.
+    this.ghostTrails.step(beats);
+
+    for (const simObject of this.objects) {
+      if (!simObject.visible) {
+        continue;
+      }
+
+      switch (simObject.type) {
+        case 'twirling-axis':
+          this.advanceTwirlingAxis(simObject, beats);
+          break;
+        case 'dexel':
+          simObject.primary.rotationY += beats * ROTATION_PER_BEAT * simObject.primary.speedPerTick * simObject.direction;
+          simObject.secondary.rotationY += beats * ROTATION_PER_BEAT * simObject.secondary.speedPerTick * simObject.direction;
+          break;
+        case 'rgpXY':
+          if (simObject.primaryTwirl) {
+            simObject.primaryTwirl.linkedRingState = simObject.primary;
+            simObject.primaryTwirl.linkedRingType = 'primary';
+          }
+          if (simObject.secondaryTwirl) {
+            simObject.secondaryTwirl.linkedRingState = simObject.secondary;
+            simObject.secondaryTwirl.linkedRingType = 'secondary';
+          }
+          simObject.primary.rotationY += beats * ROTATION_PER_BEAT * simObject.primary.speedPerTick * simObject.primary.direction;
+          simObject.secondary.rotationY += beats * ROTATION_PER_BEAT * simObject.secondary.speedPerTick * simObject.secondary.direction;
+          updateRgpPulse(simObject.primary, beats);
+          updateRgpPulse(simObject.secondary, beats);
+          if (simObject.autoGrowBeats > 0) {
+            simObject.growBeatAccumulator += beats;
+            if (simObject.growBeatAccumulator >= simObject.autoGrowBeats) {
+              simObject.growBeatAccumulator %= simObject.autoGrowBeats;
+              this.growDexelLattice(simObject);
+            }
+          }
+          break;
+        case 'twirl': {
+          simObject.rotationY += beats * ROTATION_PER_BEAT * simObject.speedPerTick * simObject.direction;
+          simObject.pulsePhase = advancePulsePhase(simObject.pulsePhase, beats, simObject.speedPerTick, simObject.pulsesPerRevolution);
+          const triangle = pulseTriangle(simObject.pulsePhase);
+          const baseTriangle = simObject.invertPulse ? 1 - triangle : triangle;
+          simObject.pulseScale = 0.25 + 0.75 * clamp(baseTriangle, 0, 1);
+          break;
+        }
+        case 'twirl8':
+          simObject.rotationY += beats * ROTATION_PER_BEAT * simObject.speedPerTick * simObject.direction;
+          updateTwirl8Orientation(simObject);
+          break;
+        default:
+          simObject.rotationY += beats * ROTATION_PER_BEAT * simObject.speedPerTick * simObject.direction;
+          break;
+      }
+    }
+
+    // Twirling axes emit on their own script steps; everything else drops one particle per beat.
+    this.ghostBeatAccumulator += beats;
+    if (this.ghostBeatAccumulator >= 1) {
+      this.ghostBeatAccumulator %= 1;
+      for (const simObject of this.objects) {
+        if (simObject.visible && simObject.emitGhost && simObject.type !== 'twirling-axis') {
+          this.emitObjectGhosts(simObject);
+        }
+      }
+    }
+  }
+
+  /** Spawns a dexel beside the RGP along the axis of its dominant ring; returns false if that spot is taken. */
+  spawnDexel(rgp: RgpXYObject): boolean {
+    const axis = getDominantAxis(rgp);
+    const sign = this.dexelLastSign[axis];
+    const cell: DexelCell = [0, 0, 0];
+    cell[LATTICE_AXES.indexOf(axis)] = sign;
+    if (!this.isLatticeCellFree(rgp, cell)) {
+      return false;
+    }
+
+    this.dexelLastSign[axis] = sign === 1 ? -1 : 1;
+    this.addLatticeDexel(rgp, axis, sign, cell, 1);
+    this.updateDexelAnchorsForRgp(rgp);
+    return true;
+  }
+
+  /**
+   * Grows the RGP's dexel lattice by one generation and returns how many dexels were added. The RGP
+   * seeds both sides of its dominant ring's axis; every dexel then branches along the two axes it
+   * did not grow along. Cells already held by a dexel (runtime or asset) or overlapping any RGP's
+   * rings are skipped, and growth stops at `latticeDepth` generations or `latticeBudget` dexels.
+   */
+  growDexelLattice(rgp: RgpXYObject): number {
+    const lattice = this.getLatticeDexels(rgp.id);
+    let remaining = rgp.latticeBudget - lattice.length;
+
+    for (let depth = 0; depth < rgp.latticeDepth && remaining > 0; depth += 1) {
+      const parents =
+        depth === 0
+          ? [{ cell: [0, 0, 0] as DexelCell, axes: [getDominantAxis(rgp)] }]
+          : lattice
+              .filter((dexel) => dexel.lattice!.depth === depth)
+              .map((dexel) => ({ cell: dexel.lattice!.cell, axes: LATTICE_AXES.filter((axis) => axis !== dexel.axis) }));
+
+      let spawned = 0;
+      for (const parent of parents) {
+        for (const axis of parent.axes) {
+          for (const sign of [1, -1] as const) {
+            if (remaining === 0) {
+              break;
+            }
+            const cell: DexelCell = [parent.cell[0], parent.cell[1], parent.cell[2]];
+            cell[LATTICE_AXES.indexOf(axis)] += sign;
+            if (!this.isLatticeCellFree(rgp, cell)) {
+              continue;
+            }
+            this.addLatticeDexel(rgp, axis, sign, cell, depth + 1);
+            remaining -= 1;
+            spawned += 1;
+          }
+        }
+      }
+
+      if (spawned > 0) {
+        this.updateDexelAnchorsForRgp(rgp);
+        return spawned;
+      }
+    }
+    return 0;
+  }
+
+  /** Spawned dexels of the RGP, in the order they grew. */
+  getLatticeDexels(rgpId: string): DexelObject[] {
+    return this.objects.filter(
+      (object): object is DexelObject => object.type === 'dexel' && object.lattice !== null && object.anchorId === rgpId,
+    );
+  }
+
+  /** Removes every dexel the RGP spawned and returns how many went. */
+  removeLatticeDexels(rgpId: string): number {
+    const dexels = this.getLatticeDexels(rgpId);
+    for (const dexel of dexels) {
+      this.removeObject(dexel.id);
+    }
+    return dexels.length;
+  }
+
+  /** Re-places the RGP's dexels after it changed size; spawned dexels take the new size too. */
+  updateDexelAnchorsForRgp(rgp: RgpXYObject): void {
+    for (const simObject of this.objects) {
+      if (simObject.type !== 'dexel' || simObject.anchorId !== rgp.id) {
+        continue;
+      }
+      if (simObject.lattice) {
+        simObject.size = rgp.size;
+      }
+      this.updateDexelAssetPosition(simObject, rgp);
+    }
+  }
+
+  updateDexelAssetPosition(dexel: DexelObject, anchor?: RgpXYObject | null): void {
+    const anchorObject =
+      anchor ??
+      (dexel.anchorId ? this.objects.find((object): object is RgpXYObject => object.type === 'rgpXY' && object.id === dexel.anchorId) ?? null : null);
+
+    if (dexel.lattice) {
+      if (anchorObject) {
+        const spacing = getLatticeSpacing(anchorObject);
+        for (let index = 0; index < 3; index += 1) {
+          dexel.position[index] = dexel.lattice.cell[index] * spacing;
+        }
+      }
+      return;
+    }
+
+    const maxDexelRadius = Math.max(
+      getRgpRingRadius(dexel.size, dexel.primary, 1),
+      getRgpRingRadius(dexel.size, dexel.secondary, 1),
+    );
+
+    let distance = maxDexelRadius;
+
+    if (anchorObject) {
+      const maxRgpRadius = Math.max(
+        getRgpRingRadius(anchorObject.size, anchorObject.primary, 1),
+        getRgpRingRadius(anchorObject.size, anchorObject.secondary, 1),
+      );
+      distance += maxRgpRadius;
+    }
+
+    const axisIndex = dexel.axis === 'x' ? 0 : dexel.axis === 'y' ? 1 : 2;
+    dexel.position[0] = 0;
+    dexel.position[1] = 0;
+    dexel.position[2] = 0;
+    dexel.position[axisIndex] = dexel.sign * distance;
+  }
+
+  syncDexelRingSpeeds(dexel: DexelObject): void {
+    const baseSpeed = Math.max(0, dexel.speedPerTick);
+    dexel.primary.speedPerTick = baseSpeed * dexel.primarySpeedRatio;
+    dexel.secondary.speedPerTick = baseSpeed * dexel.secondarySpeedRatio;
+    dexel.primary.direction = dexel.direction;
+    dexel.secondary.direction = dexel.direction;
+  }
+
+  serialize(): SimulationState {
+    return {
+      objects: this.objects.map((simObject) => this.serializeObject(simObject)),
+    };
+  }
+
+  /**
+   * Rebuilds the world from a snapshot produced by `serialize`. The snapshot is built into a
+   * staging world first, so one that throws partway leaves this world as it was.
+   */
+  restore(state: SimulationState): void {
+    const staged = new Simulation({ shadingIntensity: this.shadingIntensity });
+    staged.build(state);
+    this.clear();
+    this.objects.push(...staged.objects);
+    this.dexelLastSign = staged.dexelLastSign;
+  }
+
+  private build(state: SimulationState): void {
+    const rgpById = new Map<string, RgpXYObject>();
+    for (const record of state.objects) {
+      const restored = this.addObject(record.definition, rgpById);
+      this.restoreObjectState(restored, record.state);
+    }
+
+    for (const [index, record] of state.objects.entries()) {
+      const restored = this.objects[index];
+      if (restored?.type === 'twirl8' && 'linkedRgpId' in record.state) {
+        this.relinkTwirl8(restored, record.state.linkedRgpId ?? null, record.state.linkedRingType ?? null);
+      }
+    }
+
+    for (const simObject of this.objects) {
+      if (simObject.type === 'dexel' && simObject.lattice?.depth === 1) {
+        this.dexelLastSign[simObject.axis] = simObject.sign === 1 ? -1 : 1;
+      }
+    }
+
+    for (const simObject of this.objects) {
+      if (simObject.type === 'dexel') {
+        this.updateDexelAssetPosition(simObject);
+      }
+    }
+  }
+
+  // Spawned dexels copy the RGP's rings, frozen at full size, and keep turning at the rings' speeds.
+  private addLatticeDexel(rgp: RgpXYObject, axis: 'x' | 'y' | 'z', sign: 1 | -1, cell: DexelCell, depth: number): void {
+    let index = this.getLatticeDexels(rgp.id).length + 1;
+    while (this.findObject(`${rgp.id}-dexel-${index}`)) {
+      index += 1;
+    }
+
+    const dexel = this.addObject(
+      {
+        type: 'dexel',
+        id: `${rgp.id}-dexel-${index}`,
+        axis,
+        sign,
+        size: rgp.size,
+        speedPerTick: 1,
+        direction: rgp.direction,
+        visible: true,
+        anchorId: rgp.id,
+        primarySpeedRatio: rgp.primary.speedPerTick,
+        secondarySpeedRatio: rgp.secondary.speedPerTick,
+        lattice: { cell, depth },
+      },
+      new Map(),
+    ) as DexelObject;
+    for (const [ring, source] of [
+      [dexel.primary, rgp.primary],
+      [dexel.secondary, rgp.secondary],
+    ] as const) {
+      Object.assign(ring, cloneRgpRingState(source), { pulseScale: 1, pulsePhase: 0, pulsesPerRevolution: 0 });
+    }
+  }
+
+  // Breadth-first search outward from `start`; the step into the free cell sets the axis and sign.
+  // Null when the lattice already holds `latticeBudget` dexels, the same cap growth stops at.
+  private findFreeLatticeCell(
+    rgp: RgpXYObject,
+    start: DexelCell,
+  ): { axis: 'x' | 'y' | 'z'; sign: 1 | -1; lattice: DexelLatticePlacement } | null {
+    if (this.getLatticeDexels(rgp.id).length >= rgp.latticeBudget) {
+      return null;
+    }
+    const visited = new Set([start.join(',')]);
+    const queue: DexelCell[] = [start];
+    for (let head = 0; ; head += 1) {
+      const parent = queue[head];
+      for (const axis of LATTICE_AXES) {
+        for (const sign of [1, -1] as const) {
+          const cell: DexelCell = [parent[0], parent[1], parent[2]];
+          cell[LATTICE_AXES.indexOf(axis)] += sign;
+          const key = cell.join(',');
+          if (visited.has(key)) {
+            continue;
+          }
+          visited.add(key);
+          if (this.isLatticeCellFree(rgp, cell)) {
+            const depth = Math.abs(cell[0]) + Math.abs(cell[1]) + Math.abs(cell[2]);
+            return { axis, sign, lattice: { cell, depth } };
+          }
+          queue.push(cell);
+        }
+      }
+    }
+  }
+
+  // RGPs have no position of their own and are drawn at the origin. A cell is free when no dexel is
+  // within half a lattice spacing of it and the new dexel's rings would clear every RGP's rings.
+  private isLatticeCellFree(rgp: RgpXYObject, cell: DexelCell): boolean {
+    const spacing = getLatticeSpacing(rgp);
+    const center = cell.map((coordinate) => coordinate * spacing);
+    const distanceSquaredTo = (position: ArrayLike<number>) =>
+      center.reduce((sum, coordinate, index) => sum + (position[index] - coordinate) ** 2, 0);
+
+    return this.objects.every((simObject) => {
+      if (simObject.type === 'dexel') {
+        return distanceSquaredTo(simObject.position) >= (spacing / 2) ** 2;
+      }
+      if (simObject.type === 'rgpXY') {
+        const clearance = spacing / 2 + getLatticeSpacing(simObject) / 2;
+        return distanceSquaredTo([0, 0, 0]) >= clearance ** 2;
+      }
+      return true;
+    });
+  }
+
+  private addObject(objectDef: SimObjectDefinition, rgpById: Map<string, RgpXYObject>): SimObject {
+    let simObject: SimObject;
+    if (objectDef.type === 'twirl') {
+      const initialPhase = clamp(objectDef.initialPulsePhase ?? 0, 0, 1);
+      const phaseTriangle = pulseTriangle(initialPhase);
+      const invertPulse = objectDef.invertPulse ?? false;
+      const initialTriangle = invertPulse ? 1 - phaseTriangle : phaseTriangle;
+      const initialScale =
+        objectDef.initialPulseScale ??
+        (0.25 + 0.75 * clamp(initialTriangle, 0, 1));
+      simObject = {
+        type: 'twirl',
+        id: objectDef.id,
+        ...resolveGhostEmitter(objectDef),
+        rotationY: objectDef.initialRotationY ?? 0,
+        speedPerTick: objectDef.speedPerTick,
+        direction: objectDef.direction,
+        plane: objectDef.plane,
+        shellSize: objectDef.shellSize ?? DEFAULT_SHELL_SIZE,
+        baseColor: objectDef.baseColor ?? 'azure',
+        visible: objectDef.visible ?? true,
+        shadingIntensity: clamp(objectDef.shadingIntensity ?? this.shadingIntensity, 0, 1),
+        opacity: clamp(objectDef.opacity ?? 1, 0, 1),
+        beltHalfAngle: Math.max(0.01, objectDef.beltHalfAngle),
+        pulsesPerRevolution: Math.max(0, objectDef.pulsesPerRevolution ?? DEFAULT_PULSES_PER_REVOLUTION),
+        pulsePhase: initialPhase,
+        pulseScale: initialScale,
+        invertPulse,
+      };
+      this.objects.push(simObject);
+    } else if (objectDef.type === 'rgpXY') {
+      const primary = createRgpRingState(RGP_PRIMARY_CONFIG);
+      const secondary = createRgpRingState(RGP_SECONDARY_CONFIG);
+      primary.visible = objectDef.primaryVisible ?? true;
+      secondary.visible = objectDef.secondaryVisible ?? true;
+      const rgpObject: RgpXYObject = {
+        type: 'rgpXY',
+        id: objectDef.id,
+        ...resolveGhostEmitter(objectDef),
+        size: Math.max(0.1, objectDef.size),
+        visible: objectDef.visible ?? true,
+        speedPerTick: 1,
+        direction: 1,
+        primary,
+        secondary,
+        sphereColor: new Float32Array(RGP_SPHERE_COLOR),
+        sphereOpacity: RGP_SPHERE_OPACITY,
+        sphereVisible: objectDef.sphereVisible ?? true,
+        primaryTwirl: null,
+        secondaryTwirl: null,
+        latticeDepth: Math.max(1, Math.floor(objectDef.latticeDepth ?? DEFAULT_LATTICE_DEPTH)),
+        latticeBudget: Math.max(0, Math.floor(objectDef.latticeBudget ?? DEFAULT_LATTICE_BUDGET)),
+        autoGrowBeats: Math.max(0, objectDef.autoGrowBeats ?? 0),
+        growBeatAccumulator: 0,
+      };
+      simObject = rgpObject;
+      this.objects.push(rgpObject);
+      rgpById.set(rgpObject.id, rgpObject);
+    } else if (objectDef.type === 'dexel') {
+      const baseSpeed = objectDef.speedPerTick ?? 1;
+      const direction = objectDef.direction ?? 1;
+      const primarySpeedRatio = objectDef.primarySpeedRatio ?? DEXEL_PRIMARY_RATIO;
+      const secondarySpeedRatio = objectDef.secondarySpeedRatio ?? DEXEL_SECONDARY_RATIO;
+
+      const primary = createRgpRingState({
+        ...RGP_PRIMARY_CONFIG,
+        speedPerTick: baseSpeed * primarySpeedRatio,
+        direction,
+        initialRotationY: 0,
+        initialPulsePhase: 0,
+        initialPulseScale: 1,
+        pulsesPerRevolution: 0,
+        invertPulse: RGP_PRIMARY_CONFIG.invertPulse,
+      });
+      const secondary = createRgpRingState({
+        ...RGP_SECONDARY_CONFIG,
+        speedPerTick: baseSpeed * secondarySpeedRatio,
+        direction,
+        initialRotationY: 0,
+        initialPulsePhase: 0,
+        initialPulseScale: 1,
+        pulsesPerRevolution: 0,
+        invertPulse: RGP_SECONDARY_CONFIG.invertPulse,
+      });
+
+      primary.pulseScale = 1;
+      primary.pulsePhase = 0;
+      primary.pulsesPerRevolution = 0;
+      primary.rotationY = 0;
+      secondary.pulseScale = 1;
+      secondary.pulsePhase = 0;
+      secondary.pulsesPerRevolution = 0;
+      secondary.rotationY = 0;
+
+      const dexelObject: DexelObject = {
+        type: 'dexel',
+        id: objectDef.id,
+        ...resolveGhostEmitter(objectDef),
+        anchorId: objectDef.anchorId ?? null,
+        axis: objectDef.axis,
+        sign: objectDef.sign,
+        size: Math.max(0.1, objectDef.size),
+        speedPerTick: Math.max(0.1, baseSpeed),
+        direction: direction >= 0 ? 1 : -1,
+        visible: objectDef.visible ?? false,
+        position: new Float32Array([0, 0, 0]),
+        primary,
+        secondary,
+        primarySpeedRatio,
+        secondarySpeedRatio,
+        lattice: objectDef.lattice
+          ? { cell: [objectDef.lattice.cell[0], objectDef.lattice.cell[1], objectDef.lattice.cell[2]], depth: objectDef.lattice.depth }
+          : null,
+      };
+
+      this.syncDexelRingSpeeds(dexelObject);
+      simObject = dexelObject;
+      this.objects.push(dexelObject);
+      this.updateDexelAssetPosition(dexelObject);
+    } else if (objectDef.type === 'twirl8') {
+      const def = objectDef as Twirl8ObjectDefinition;
+      const hasExplicitSize = typeof def.size === 'number' && Number.isFinite(def.size);
+      const rawSize = hasExplicitSize ? def.size : def.width;
+      const size = Math.max(0.1, rawSize ?? 1);
+      let lobeWidth: number;
+      if (hasExplicitSize) {
+        lobeWidth = Math.max(0.01, def.width ?? size);
+      } else {
+        lobeWidth = Math.max(0.01, size);
+      }
+      const lobeAngle = (def.lobeRotationDeg ?? 20) * DEG_TO_RAD;
+      const twirl8Object: Twirl8Object = {
+        type: 'twirl8',
+        id: def.id,
+        ...resolveGhostEmitter(def),
+        axis: def.axis,
+        radius: Math.max(0.01, def.radius),
+        color: def.color,
+        backColor: def.backColor ?? def.color,
+        opacity: clamp(def.opacity ?? 1, 0, 1),
+        visible: def.visible ?? true,
+        size,
+        width: lobeWidth,
+        lobeAngle,
+        lobeOrientation: 1,
+        wasCollapsed: false,
+        rotationY: (def.initialRotationDeg ?? 0) * DEG_TO_RAD,
+        speedPerTick: Math.max(0.1, def.speedPerTick ?? 1),
+        direction: def.direction ?? 1,
+        invertPulse: def.invertPulse ?? false,
+        linkedRingState: null,
+        linkedRingType: null,
+      };
+      simObject = twirl8Object;
+      this.objects.push(twirl8Object);
+
+      let targetRgp: RgpXYObject | null = null;
+      if (rgpById.size === 1) {
+        const iterator = rgpById.values().next();
+        targetRgp = iterator.value ?? null;
+      } else {
+        targetRgp = rgpById.get('rgp-xy') ?? rgpById.values().next().value ?? null;
+      }
+      if (targetRgp) {
+        const idLower = twirl8Object.id.toLowerCase();
+        if (idLower.includes('k1')) {
+          targetRgp.primaryTwirl = twirl8Object;
+          twirl8Object.linkedRingState = targetRgp.primary;
+          twirl8Object.linkedRingType = 'primary';
+        } else if (idLower.includes('p2')) {
+          targetRgp.secondaryTwirl = twirl8Object;
+          twirl8Object.linkedRingState = targetRgp.secondary;
+          twirl8Object.linkedRingType = 'secondary';
+        }
+      }
+    } else if (objectDef.type === 'twirling-axis') {
+      const scriptSource = objectDef.rotationScript ?? DEFAULT_TWIRLING_AXIS_SCRIPT;
+      const { steps, normalized } = safeParseRotationScript(scriptSource);
+      simObject = {
+        type: 'twirling-axis',
+        id: objectDef.id,
+        ...resolveGhostEmitter(objectDef),
+        rotationX: objectDef.initialRotationX ?? 0,
+        rotationY: objectDef.initialRotationY ?? 0,
+        rotationZ: objectDef.initialRotationZ ?? 0,
+        speedPerTick: objectDef.speedPerTick,
+        direction: objectDef.direction,
+        visible: objectDef.visible ?? true,
+        size: Math.max(0.01, objectDef.size ?? 1),
+        opacity: clamp(objectDef.opacity ?? 1, 0, 1),
+        rotationScript: steps,
+        rotationScriptSource: normalized,
+        scriptIndex: 0,
+        beatAccumulator: 0,
+        currentDirection: objectDef.direction >= 0 ? 1 : -1,
+      };
+      this.objects.push(simObject);
+    } else {
+      simObject = {
+        type: 'sphere',
+        id: objectDef.id,
+        ...resolveGhostEmitter(objectDef),
+        rotationY: objectDef.initialRotationY ?? 0,
+        speedPerTick: objectDef.speedPerTick,
+        direction: objectDef.direction,
+        plane: objectDef.plane,
+        shellSize: objectDef.shellSize ?? DEFAULT_SHELL_SIZE,
+        baseColor: objectDef.baseColor ?? 'azure',
+        visible: objectDef.visible ?? true,
+        shadingIntensity: clamp(objectDef.shadingIntensity ?? this.shadingIntensity, 0, 1),
+        opacity: clamp(objectDef.opacity ?? 1, 0, 1),
+      };
+      this.objects.push(simObject);
+    }
+    return simObject;
+  }
+
+  private advanceTwirlingAxis(simObject: TwirlingAxisObject, beats: number): void {
+    if (beats <= 0) {
+      return;
+    }
+
+    if (simObject.rotationScript.length === 0) {
+      return;
+    }
+
+    const speedMultiplier = Math.max(0.01, Math.abs(simObject.speedPerTick));
+    simObject.beatAccumulator += beats * speedMultiplier;
+    while (simObject.beatAccumulator >= 1) {
+      simObject.beatAccumulator -= 1;
+
+      const step = simObject.rotationScript[simObject.scriptIndex];
+      if (!step) {
+        break;
+      }
+
+      const angleRad = (step.angleDeg * Math.PI) / 180;
+      const rotationSign = (simObject.direction >= 0 ? 1 : -1) * (simObject.speedPerTick >= 0 ? 1 : -1) * simObject.currentDirection;
+      const delta = angleRad * step.direction * rotationSign;
+
+      switch (step.axis) {
+        case 'x':
+          simObject.rotationX += delta;
+          break;
+        case 'y':
+          simObject.rotationY += delta;
+          break;
+        case 'z':
+          simObject.rotationZ += delta;
+          break;
+      }
+
+      simObject.scriptIndex = (simObject.scriptIndex + 1) % simObject.rotationScript.length;
+      simObject.currentDirection = (simObject.currentDirection === 1 ? -1 : 1);
+
+      if (simObject.emitGhost) {
+        this.emitObjectGhosts(simObject);
+      }
+    }
+  }
+
+  private emitObjectGhosts(simObject: SimObject): void {
+    const emit = (point: string, position: ArrayLike<number>, color: ArrayLike<number>, opacity: number) => {
+      this.ghostTrails.emit({
+        emitterId: `${simObject.id}:${point}`,
+        ownerId: simObject.id,
+        position,
+        color,
+        radius: GHOST_POINT_RADIUS,
+        opacity: clamp(opacity * 0.7, 0.05, 1),
+      });
+    };
+    const origin = [0, 0, 0];
+
+    switch (simObject.type) {
+      case 'twirling-axis':
+        if (simObject.ghostPoint === 'tips') {
+          this.emitGhostParticlesFromAxis(simObject);
+        } else {
+          emit('center', origin, BASE_COLOR_RGB.white, simObject.opacity);
+        }
+        break;
+      case 'sphere':
+      case 'twirl': {
+        const color = BASE_COLOR_RGB[simObject.baseColor];
+        if (simObject.ghostPoint !== 'rim') {
+          emit('center', origin, color, simObject.opacity);
+          break;
+        }
+        const pulse = simObject.type === 'twirl' ? simObject.pulseScale : 1;
+        const radius = (simObject.shellSize / DEFAULT_SHELL_SIZE) * pulse;
+        emit('rim', transformPoint(computePlaneRotation(simObject.plane, simObject.rotationY), [radius, 0, 0]), color, simObject.opacity);
+        break;
+      }
+      case 'rgpXY':
+      case 'dexel': {
+        const center = simObject.type === 'dexel' ? simObject.position : origin;
+        if (simObject.ghostPoint !== 'poles') {
+          emit('center', center, RGP_SPHERE_COLOR, 1);
+          break;
+        }
+        for (const [point, ring] of [['primary', simObject.primary], ['secondary', simObject.secondary]] as const) {
+          if (ring.visible) {
+            emit(point, getRgpRingPole(simObject.size, ring, center), BASE_COLOR_RGB[ring.baseColor], ring.opacity);
+          }
+        }
+        break;
+      }
+      case 'twirl8': {
+        const color = BASE_COLOR_RGB[simObject.color];
+        if (simObject.ghostPoint !== 'lobeTips') {
+          emit('center', origin, color, simObject.opacity);
+          break;
+        }
+        const pulse = getTwirl8Pulse(simObject);
+        const modelMatrix = computeTwirl8ModelMatrix(simObject.axis, simObject.radius * pulse, simObject.rotationY);
+        const tip = TWIRL8_LOBE_TIP_DISTANCE * simObject.size * pulse;
+        emit('lobe+', transformPoint(modelMatrix, [tip, 0, 0]), color, simObject.opacity);
+        emit('lobe-', transformPoint(modelMatrix, [-tip, 0, 0]), color, simObject.opacity);
+        break;
+      }
+      default:
+        break;
+    }
+  }
+
+  private emitGhostParticlesFromAxis(simObject: TwirlingAxisObject): void {
+    const halfLength = TWIRLING_AXIS_BASE_LENGTH / 2;
+    const { modelMatrix } = computeTwirlingAxisMatrices(simObject);
+    const sizeScale = Math.max(0.01, simObject.size);
+    const ballRadius = TWIRLING_AXIS_BASE_RADIUS * TWIRLING_AXIS_BALL_SCALE * sizeScale * 0.5;
+    const ghostOpacity = clamp(simObject.opacity * 0.7, 0.05, 1);
+
+    const xTip = transformPoint(modelMatrix, [halfLength, 0, 0]);
+    const yTip = transformPoint(modelMatrix, [0, halfLength, 0]);
+
+    // One emitter per tip, coloured like the axis it traces.
+    const emission = { ownerId: simObject.id, radius: ballRadius, opacity: ghostOpacity };
+    this.ghostTrails.emit({ ...emission, emitterId: `${simObject.id}:x`, position: xTip, color: AXIS_COLORS.x });
+    this.ghostTrails.emit({ ...emission, emitterId: `${simObject.id}:y`, position: yTip, color: AXIS_COLORS.y });
+  }
+
+  private serializeObject(simObject: SimObject): SceneObjectRecord {
+    switch (simObject.type) {
+      case 'sphere':
+        return {
+          definition: {
+            type: 'sphere',
+            id: simObject.id,
+            emitGhost: simObject.emitGhost,
+            ghostPoint: simObject.ghostPoint,
+            speedPerTick: simObject.speedPerTick,
+            direction: simObject.direction,
+            plane: simObject.plane,
+            shellSize: simObject.shellSize,
+            baseColor: simObject.baseColor,
+            visible: simObject.visible,
+            shadingIntensity: simObject.shadingIntensity,
+            opacity: simObject.opacity,
+          },
+          state: { rotationY: simObject.rotationY },
+        };
+      case 'twirl':
+        return {
+          definition: {
+            type: 'twirl',
+            id: simObject.id,
+            emitGhost: simObject.emitGhost,
+            ghostPoint: simObject.ghostPoint,
+            speedPerTick: simObject.speedPerTick,
+            direction: simObject.direction,
+            plane: simObject.plane,
+            shellSize: simObject.shellSize,
+            baseColor: simObject.baseColor,
+            visible: simObject.visible,
+            shadingIntensity: simObject.shadingIntensity,
+            opacity: simObject.opacity,
+            beltHalfAngle: simObject.beltHalfAngle,
+            pulsesPerRevolution: simObject.pulsesPerRevolution,
+            invertPulse: simObject.invertPulse,
+          },
+          state: {
+            rotationY: simObject.rotationY,
+            pulsePhase: simObject.pulsePhase,
+            pulseScale: simObject.pulseScale,
+          },
+        };
+      case 'twirling-axis':
+        return {
+          definition: {
+            type: 'twirling-axis',
+            id: simObject.id,
+            emitGhost: simObject.emitGhost,
+            ghostPoint: simObject.ghostPoint,
+            speedPerTick: simObject.speedPerTick,
+            direction: simObject.direction,
+            visible: simObject.visible,
+            size: simObject.size,
+            opacity: simObject.opacity,
+            rotationScript: simObject.rotationScriptSource,
+          },
+          state: {
+            rotationX: simObject.rotationX,
+            rotationY: simObject.rotationY,
+            rotationZ: simObject.rotationZ,
+            scriptIndex: simObject.scriptIndex,
+            beatAccumulator: simObject.beatAccumulator,
+            currentDirection: simObject.currentDirection,
+          },
+        };
+      case 'rgpXY':
+        return {
+          definition: {
+            type: 'rgpXY',
+            id: simObject.id,
+            emitGhost: simObject.emitGhost,
+            ghostPoint: simObject.ghostPoint,
+            size: simObject.size,
+            visible: simObject.visible,
+            primaryVisible: simObject.primary.visible,
+            secondaryVisible: simObject.secondary.visible,
+            sphereVisible: simObject.sphereVisible,
+            latticeDepth: simObject.latticeDepth,
+            latticeBudget: simObject.latticeBudget,
+            autoGrowBeats: simObject.autoGrowBeats,
+          },
+          state: {
+            primary: { ...simObject.primary },
+            secondary: { ...simObject.secondary },
+            sphereOpacity: simObject.sphereOpacity,
+            growBeatAccumulator: simObject.growBeatAccumulator,
+          },
+        };
+      case 'dexel':
+        return {
+          definition: {
+            type: 'dexel',
+            id: simObject.id,
+            emitGhost: simObject.emitGhost,
+            ghostPoint: simObject.ghostPoint,
+            axis: simObject.axis,
+            sign: simObject.sign,
+            size: simObject.size,
+            speedPerTick: simObject.speedPerTick,
+            direction: simObject.direction,
+            visible: simObject.visible,
+            anchorId: simObject.anchorId ?? undefined,
+            primarySpeedRatio: simObject.primarySpeedRatio,
+            secondarySpeedRatio: simObject.secondarySpeedRatio,
+            ...(simObject.lattice
+              ? { lattice: { cell: [...simObject.lattice.cell] as DexelCell, depth: simObject.lattice.depth } }
+              : {}),
+          },
+          state: {
+            primary: { ...simObject.primary },
+            secondary: { ...simObject.secondary },
+          },
+        };
+      case 'twirl8': {
+        const linkedRgp = this.objects.find(
+          (object): object is RgpXYObject =>
+            object.type === 'rgpXY' && (object.primaryTwirl === simObject || object.secondaryTwirl === simObject),
+        );
+        return {
+          definition: {
+            type: 'twirl8',
+            id: simObject.id,
+            emitGhost: simObject.emitGhost,
+            ghostPoint: simObject.ghostPoint,
+            axis: simObject.axis,
+            radius: simObject.radius,
+            color: simObject.color,
+            backColor: simObject.backColor,
+            opacity: simObject.opacity,
+            visible: simObject.visible,
+            size: simObject.size,
+            width: simObject.width,
+            lobeRotationDeg: simObject.lobeAngle * RAD_TO_DEG,
+            speedPerTick: simObject.speedPerTick,
+            direction: simObject.direction,
+            initialRotationDeg: simObject.rotationY * RAD_TO_DEG,
+            invertPulse: simObject.invertPulse,
+          },
+          state: {
+            lobeOrientation: simObject.lobeOrientation,
+            wasCollapsed: simObject.wasCollapsed,
+            linkedRgpId: linkedRgp?.id ?? null,
+            linkedRingType: linkedRgp ? simObject.linkedRingType : null,
+          },
+        };
+      }
+      default:
+        throw new Error('Unsupported sim object type.');
+    }
+  }
+
+  private restoreObjectState(simObject: SimObject, state: SceneObjectState): void {
+    const finite = (value: unknown): value is number => typeof value === 'number' && Number.isFinite(value);
+
+    switch (simObject.type) {
+      case 'sphere':
+        if (finite(state.rotationY)) {
+          simObject.rotationY = state.rotationY;
+        }
+        break;
+      case 'twirl':
+        if (finite(state.rotationY)) {
+          simObject.rotationY = state.rotationY;
+        }
+        if (finite(state.pulsePhase)) {
+          simObject.pulsePhase = clamp(state.pulsePhase, 0, 1);
+        }
+        if (finite(state.pulseScale)) {
+          simObject.pulseScale = state.pulseScale;
+        }
+        break;
+      case 'twirling-axis':
+        if (finite(state.rotationX)) {
+          simObject.rotationX = state.rotationX;
+        }
+        if (finite(state.rotationY)) {
+          simObject.rotationY = state.rotationY;
+        }
+        if (finite(state.rotationZ)) {
+          simObject.rotationZ = state.rotationZ;
+        }
+        if (finite(state.scriptIndex) && simObject.rotationScript.length > 0) {
+          simObject.scriptIndex = Math.floor(state.scriptIndex) % simObject.rotationScript.length;
+        }
+        if (finite(state.beatAccumulator)) {
+          simObject.beatAccumulator = state.beatAccumulator;
+        }
+        if (state.currentDirection !== undefined) {
+          simObject.currentDirection = state.currentDirection >= 0 ? 1 : -1;
+        }
+        break;
+      case 'rgpXY':
+      case 'dexel':
+        if (state.primary) {
+          Object.assign(simObject.primary, state.primary);
+        }
+        if (state.secondary) {
+          Object.assign(simObject.secondary, state.secondary);
+        }
+        if (simObject.type === 'rgpXY' && finite(state.sphereOpacity)) {
+          simObject.sphereOpacity = clamp(state.sphereOpacity, 0, 1);
+        }
+        if (simObject.type === 'rgpXY' && finite(state.growBeatAccumulator)) {
+          simObject.growBeatAccumulator = Math.max(0, state.growBeatAccumulator);
+        }
+        break;
+      case 'twirl8':
+        if (state.lobeOrientation !== undefined) {
+          simObject.lobeOrientation = state.lobeOrientation >= 0 ? 1 : -1;
+        }
+        if (typeof state.wasCollapsed === 'boolean') {
+          simObject.wasCollapsed = state.wasCollapsed;
+        }
+        break;
+      default:
+        break;
+    }
+  }
+
+  private relinkTwirl8(
+    twirl8: Twirl8Object,
+    rgpId: string | null,
+    ringType: 'primary' | 'secondary' | null,
+  ): void {
+    for (const simObject of this.objects) {
+      if (simObject.type !== 'rgpXY') {
+        continue;
+      }
+      if (simObject.primaryTwirl === twirl8) {
+        simObject.primaryTwirl = null;
+      }
+      if (simObject.secondaryTwirl === twirl8) {
+        simObject.secondaryTwirl = null;
+      }
+    }
+    twirl8.linkedRingState = null;
+    twirl8.linkedRingType = null;
+
+    const target = this.objects.find(
+      (object): object is RgpXYObject => object.type === 'rgpXY' && object.id === rgpId,
+    );
+    if (!target || !ringType) {
+      return;
+    }
+    if (ringType === 'primary') {
+      target.primaryTwirl = twirl8;
+      twirl8.linkedRingState = target.primary;
+    } else {
+      target.secondaryTwirl = twirl8;
+      twirl8.linkedRingState = target.secondary;
+    }
+    twirl8.linkedRingType = ringType;
+  }
+}
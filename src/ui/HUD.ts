@@ -1,4 +1,168 @@
 // HUD.ts — provides playback controls, speed selection, and timeline scrubber
+import type { App } from '../app/App';
+import { PLAYBACK_RATE_PRESETS } from '../engine/Time';
+
+const SCRUB_SPAN_BEATS = 360;
+
 export class HUD {
-  // TODO: Build interactive HUD components to control simulation flow.
+  public readonly element: HTMLElement;
+
+  private readonly playButton: HTMLButtonElement;
+  private readonly backButton: HTMLButtonElement;
+  private readonly cameraPathButton: HTMLButtonElement;
+  private readonly presetButtons = new Map<number, HTMLButtonElement>();
+  private readonly readout: HTMLElement;
+  private readonly scrubber: HTMLInputElement;
+  private scrubMax = SCRUB_SPAN_BEATS;
+  private scrubbing = false;
+  private frameHandle: number | null = null;
+  private readonly unsubscribe: () => void;
+
+  constructor(private readonly app: App) {
+    this.element = document.createElement('div');
+    this.element.className = 'hud';
+
+    const transport = document.createElement('div');
+    transport.className = 'hud__group';
+
+    this.backButton = this.createButton('−1', 'Step back one beat', () => {
+      this.app.seekToBeat(Math.max(0, this.app.getSimulationBeat() - 1));
+    });
+    this.playButton = this.createButton('Play', 'Play or pause the simulation', () => {
+      if (this.app.isSimulationRunning()) {
+        this.app.stopSimulation();
+      } else {
+        this.app.startSimulation();
+      }
+    });
+    this.playButton.classList.add('hud__button--play');
+    const forwardButton = this.createButton('+1', 'Step forward one beat', () => {
+      this.app.stepSimulationBeats(1);
+    });
+    transport.append(this.backButton, this.playButton, forwardButton);
+
+    this.cameraPathButton = this.createButton('Cam', 'Let the segment\'s camera path drive the view', () => {
+      if (this.app.isCameraPathPlaying()) {
+        this.app.stopCameraPath();
+      } else {
+        this.app.playCameraPath();
+      }
+    });
+    transport.appendChild(this.cameraPathButton);
+
+    const presets = document.createElement('div');
+    presets.className = 'hud__group';
+    for (const rate of PLAYBACK_RATE_PRESETS) {
+      const button = this.createButton(`${rate}×`, `Play at ${rate}× speed`, () => {
+        this.app.setPlaybackRate(rate);
+      });
+      this.presetButtons.set(rate, button);
+      presets.appendChild(button);
+    }
+
+    this.scrubber = document.createElement('input');
+    this.scrubber.type = 'range';
+    this.scrubber.className = 'hud__scrubber';
+    this.scrubber.min = '0';
+    this.scrubber.step = '1';
+    this.scrubber.title = 'Seek to beat';
+    this.scrubber.addEventListener('pointerdown', () => {
+      this.scrubbing = true;
+    });
+    for (const type of ['pointerup', 'pointercancel'] as const) {
+      this.scrubber.addEventListener(type, () => {
+        this.scrubbing = false;
+      });
+    }
+    this.scrubber.addEventListener('input', () => {
+      this.scrubbing = true;
+      this.readout.textContent = `Beat ${this.scrubber.value} · seeking`;
+    });
+    this.scrubber.addEventListener('change', () => {
+      this.scrubbing = false;
+      const beat = Number.parseFloat(this.scrubber.value);
+      if (Number.isFinite(beat)) {
+        this.app.seekToBeat(beat);
+      }
+    });
+
+    this.readout = document.createElement('span');
+    this.readout.className = 'hud__readout';
+
+    this.element.append(transport, this.scrubber, this.readout, presets);
+
+    this.unsubscribe = this.app.onSimChange(() => this.refreshControls());
+    this.refreshControls();
+  }
+
+  mount(host: HTMLElement): void {
+    host.appendChild(this.element);
+    if (this.frameHandle === null) {
+      const loop = () => {
+        this.refreshReadout();
+        this.frameHandle = requestAnimationFrame(loop);
+      };
+      this.frameHandle = requestAnimationFrame(loop);
+    }
+  }
+
+  dispose(): void {
+    if (this.frameHandle !== null) {
+      cancelAnimationFrame(this.frameHandle);
+      this.frameHandle = null;
+    }
+    this.unsubscribe();
+    this.element.remove();
+  }
+
+  private createButton(label: string, title: string, onClick: () => void): HTMLButtonElement {
+    const button = document.createElement('button');
+    button.type = 'button';
+    button.className = 'hud__button';
+    button.textContent = label;
+    button.title = title;
+    button.addEventListener('click', onClick);
+    return button;
+  }
+
+  private refreshControls(): void {
+    const running = this.app.isSimulationRunning();
+    this.playButton.textContent = running ? 'Pause' : 'Play';
+    this.playButton.classList.toggle('is-active', running);
+    this.backButton.disabled = this.app.getSimulationBeat() <= 0;
+
+    const rate = this.app.getPlaybackRate();
+    for (const [preset, button] of this.presetButtons) {
+      button.classList.toggle('is-active', preset === rate);
+    }
+    this.refreshReadout();
+  }
+
+  private refreshReadout(): void {
+    if (this.scrubbing) {
+      return;
+    }
+
+    const beat = this.app.getSimulationBeat();
+    if (beat > this.scrubMax) {
+      this.scrubMax = (Math.floor(beat / SCRUB_SPAN_BEATS) + 1) * SCRUB_SPAN_BEATS;
+    }
+    const max = String(this.scrubMax);
+    if (this.scrubber.max !== max) {
+      this.scrubber.max = max;
+    }
+    const value = String(Math.floor(beat));
+    if (this.scrubber.value !== value) {
+      this.scrubber.value = value;
+    }
+
+    const text = `Beat ${beat.toFixed(1)} · Tick ${this.app.getSimulationTick()}`;
+    if (this.readout.textContent !== text) {
+      this.readout.textContent = text;
+    }
+    this.backButton.disabled = beat <= 0;
+    // Dragging the view stops the path without a sim change, so the toggle is polled here.
+    this.cameraPathButton.disabled = !this.app.hasCameraPath();
+    this.cameraPathButton.classList.toggle('is-active', this.app.isCameraPathPlaying());
+  }
 }
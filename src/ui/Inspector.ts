@@ -1,4 +1,189 @@
 // Inspector.ts — renders live object inspection and debug overlays
+import type { App } from '../app/App';
+
+type SimObjectView = ReturnType<App['getSimObjects']>[number];
+type InspectorRow = [label: string, value: string];
+
+interface RingView {
+  rotationY: number;
+  pulsePhase: number;
+  pulseScale: number;
+  contracted: boolean;
+}
+
 export class Inspector {
-  // TODO: Surface simulation state and diagnostics for developers.
+  public readonly element: HTMLElement;
+
+  private readonly title: HTMLElement;
+  private readonly body: HTMLElement;
+  private readonly toggleButton: HTMLButtonElement;
+  private readonly values = new Map<string, HTMLElement>();
+  private rowKey = '';
+  private open = true;
+  private frameHandle: number | null = null;
+
+  constructor(private readonly app: App) {
+    this.element = document.createElement('div');
+    this.element.className = 'inspector';
+
+    const header = document.createElement('div');
+    header.className = 'inspector__header';
+
+    this.title = document.createElement('span');
+    this.title.className = 'inspector__title';
+
+    this.toggleButton = document.createElement('button');
+    this.toggleButton.type = 'button';
+    this.toggleButton.className = 'inspector__toggle';
+    this.toggleButton.setAttribute('aria-label', 'Toggle inspector');
+    this.toggleButton.addEventListener('click', () => {
+      this.open = !this.open;
+      this.element.classList.toggle('is-collapsed', !this.open);
+      this.toggleButton.textContent = this.open ? '−' : '+';
+    });
+    this.toggleButton.textContent = '−';
+
+    header.append(this.title, this.toggleButton);
+
+    this.body = document.createElement('dl');
+    this.body.className = 'inspector__body';
+
+    this.element.append(header, this.body);
+  }
+
+  mount(host: HTMLElement): void {
+    host.appendChild(this.element);
+    if (this.frameHandle === null) {
+      const loop = () => {
+        this.refresh();
+        this.frameHandle = requestAnimationFrame(loop);
+      };
+      this.frameHandle = requestAnimationFrame(loop);
+    }
+  }
+
+  dispose(): void {
+    if (this.frameHandle !== null) {
+      cancelAnimationFrame(this.frameHandle);
+      this.frameHandle = null;
+    }
+    this.element.remove();
+  }
+
+  private refresh(): void {
+    const selected = this.app.getSelectedSimObject();
+    this.element.classList.toggle('is-empty', !selected);
+    const titleText = selected ? `${selected.id} · ${selected.type}` : 'No object selected';
+    if (this.title.textContent !== titleText) {
+      this.title.textContent = titleText;
+    }
+    if (!this.open) {
+      return;
+    }
+
+    const rows = selected ? this.collectRows(selected) : [];
+    const key = rows.map(([label]) => label).join('\u0000');
+    if (key !== this.rowKey) {
+      this.rebuild(rows);
+      this.rowKey = key;
+    }
+    for (const [label, value] of rows) {
+      const cell = this.values.get(label);
+      if (cell && cell.textContent !== value) {
+        cell.textContent = value;
+      }
+    }
+  }
+
+  private rebuild(rows: ReadonlyArray<InspectorRow>): void {
+    this.body.innerHTML = '';
+    this.values.clear();
+    for (const [label] of rows) {
+      const term = document.createElement('dt');
+      term.textContent = label;
+      const value = document.createElement('dd');
+      this.body.append(term, value);
+      this.values.set(label, value);
+    }
+  }
+
+  private collectRows(simObject: SimObjectView): InspectorRow[] {
+    const rows: InspectorRow[] = [];
+    switch (simObject.type) {
+      case 'sphere':
+        rows.push(['rotationY', formatNumber(simObject.rotationY)]);
+        break;
+      case 'twirl':
+        rows.push(
+          ['rotationY', formatNumber(simObject.rotationY)],
+          ['pulsePhase', formatNumber(simObject.pulsePhase)],
+          ['pulseScale', formatNumber(simObject.pulseScale)],
+        );
+        break;
+      case 'twirling-axis':
+        rows.push(
+          ['rotationX', formatNumber(simObject.rotationX)],
+          ['rotationY', formatNumber(simObject.rotationY)],
+          ['rotationZ', formatNumber(simObject.rotationZ)],
+          ['scriptIndex', `${simObject.scriptIndex} / ${simObject.rotationScript.length}`],
+          ['beatAccumulator', formatNumber(simObject.beatAccumulator)],
+          ['currentDirection', String(simObject.currentDirection)],
+        );
+        break;
+      case 'rgpXY': {
+        rows.push(
+          ...ringRows('primary', simObject.primary),
+          ...ringRows('secondary', simObject.secondary),
+          ['growBeatAccumulator', formatNumber(simObject.growBeatAccumulator)],
+        );
+        const dexels = this.app.getLatticeDexels(simObject.id);
+        const deepest = dexels.reduce((depth, dexel) => Math.max(depth, dexel.lattice?.depth ?? 0), 0);
+        rows.push(['dexels', `${dexels.length} / ${simObject.latticeBudget} · depth ${deepest} / ${simObject.latticeDepth}`]);
+        break;
+      }
+      case 'dexel':
+        rows.push(
+          ['anchor', simObject.anchorId ?? '—'],
+          ['position', formatVector(simObject.position)],
+          ...(simObject.lattice
+            ? ([
+                ['cell', simObject.lattice.cell.join(', ')],
+                ['depth', String(simObject.lattice.depth)],
+              ] as InspectorRow[])
+            : []),
+          ...ringRows('primary', simObject.primary),
+          ...ringRows('secondary', simObject.secondary),
+        );
+        break;
+      case 'twirl8':
+        rows.push(
+          ['rotationY', formatNumber(simObject.rotationY)],
+          ['lobeOrientation', String(simObject.lobeOrientation)],
+          ['wasCollapsed', String(simObject.wasCollapsed)],
+          ['linkedRing', simObject.linkedRingType ?? '—'],
+        );
+        if (simObject.linkedRingState) {
+          rows.push(...ringRows('linked', simObject.linkedRingState));
+        }
+        break;
+    }
+    return rows;
+  }
+}
+
+function ringRows(prefix: string, ring: RingView): InspectorRow[] {
+  return [
+    [`${prefix}.rotationY`, formatNumber(ring.rotationY)],
+    [`${prefix}.pulsePhase`, formatNumber(ring.pulsePhase)],
+    [`${prefix}.pulseScale`, formatNumber(ring.pulseScale)],
+    [`${prefix}.contracted`, String(ring.contracted)],
+  ];
+}
+
+function formatNumber(value: number): string {
+  return value.toFixed(3);
+}
+
+function formatVector(vector: ArrayLike<number>): string {
+  return `(${formatNumber(vector[0])}, ${formatNumber(vector[1])}, ${formatNumber(vector[2])})`;
 }
@@ -0,0 +1,296 @@
+// Shortcuts.ts — dispatches keyboard shortcuts and renders the remappable key help overlay
+import type { App } from '../app/App';
+import { log } from '../app/log/db';
+import { chordFromEvent, describeChord, Keymap, type KeyActionDefinition } from '../app/keymap';
+
+export class Shortcuts {
+  public readonly element: HTMLElement;
+
+  private readonly list: HTMLElement;
+  private readonly handlers = new Map<string, () => void>();
+  private capturingActionId: string | null = null;
+  private readonly unsubscribeKeymap: () => void;
+  private readonly unsubscribeSim: () => void;
+  private detachKeys: (() => void) | null = null;
+
+  constructor(
+    private readonly app: App,
+    private readonly keymap = new Keymap(),
+  ) {
+    this.registerHandlers();
+
+    this.element = document.createElement('div');
+    this.element.className = 'shortcuts';
+    this.element.hidden = true;
+    this.element.addEventListener('click', (event) => {
+      if (event.target === this.element) {
+        this.close();
+      }
+    });
+
+    const dialog = document.createElement('div');
+    dialog.className = 'shortcuts__dialog';
+    dialog.setAttribute('role', 'dialog');
+    dialog.setAttribute('aria-label', 'Keyboard shortcuts');
+
+    const header = document.createElement('div');
+    header.className = 'shortcuts__header';
+    const title = document.createElement('span');
+    title.className = 'shortcuts__title';
+    title.textContent = 'Keyboard Shortcuts';
+    const closeButton = document.createElement('button');
+    closeButton.type = 'button';
+    closeButton.className = 'shortcuts__close';
+    closeButton.setAttribute('aria-label', 'Close keyboard shortcuts');
+    closeButton.textContent = '×';
+    closeButton.addEventListener('click', () => this.close());
+    header.append(title, closeButton);
+
+    this.list = document.createElement('div');
+    this.list.className = 'shortcuts__list';
+
+    const footer = document.createElement('div');
+    footer.className = 'shortcuts__footer';
+    const hint = document.createElement('span');
+    hint.className = 'shortcuts__hint';
+    hint.textContent = 'Click a binding, then press the new key. Esc cancels.';
+    const resetButton = document.createElement('button');
+    resetButton.type = 'button';
+    resetButton.className = 'shortcuts__reset';
+    resetButton.textContent = 'Reset to Defaults';
+    resetButton.addEventListener('click', () => {
+      this.capturingActionId = null;
+      this.keymap.resetToDefaults();
+    });
+    footer.append(hint, resetButton);
+
+    dialog.append(header, this.list, footer);
+    this.element.appendChild(dialog);
+
+    this.unsubscribeKeymap = this.keymap.onChange(() => this.renderList());
+    this.unsubscribeSim = this.app.onSimChange(() => {
+      if (this.isOpen()) {
+        this.renderList();
+      }
+    });
+  }
+
+  mount(host: HTMLElement): void {
+    host.appendChild(this.element);
+    if (!this.detachKeys) {
+      const keyDown = (event: KeyboardEvent) => this.handleKeyDown(event);
+      window.addEventListener('keydown', keyDown);
+      this.detachKeys = () => window.removeEventListener('keydown', keyDown);
+    }
+  }
+
+  dispose(): void {
+    this.detachKeys?.();
+    this.detachKeys = null;
+    this.unsubscribeKeymap();
+    this.unsubscribeSim();
+    this.element.remove();
+  }
+
+  isOpen(): boolean {
+    return !this.element.hidden;
+  }
+
+  open(): void {
+    this.element.hidden = false;
+    this.renderList();
+  }
+
+  close(): void {
+    this.capturingActionId = null;
+    this.element.hidden = true;
+  }
+
+  private handleKeyDown(event: KeyboardEvent): void {
+    const target = event.target as HTMLElement | null;
+    if (target && (target.isContentEditable || /^(INPUT|TEXTAREA|SELECT)$/.test(target.tagName))) {
+      return;
+    }
+
+    if (this.capturingActionId) {
+      event.preventDefault();
+      if (event.code === 'Escape') {
+        this.capturingActionId = null;
+        this.renderList();
+        return;
+      }
+      const chord = chordFromEvent(event);
+      if (chord) {
+        const actionId = this.capturingActionId;
+        this.capturingActionId = null;
+        this.keymap.rebind(actionId, chord);
+      }
+      return;
+    }
+
+    if (event.code === 'Escape' && this.isOpen()) {
+      event.preventDefault();
+      this.close();
+      return;
+    }
+    if (event.repeat) {
+      return;
+    }
+    const chord = chordFromEvent(event);
+    const actionId = chord ? this.keymap.findAction(chord) : null;
+    const handler = actionId ? this.handlers.get(actionId) : undefined;
+    if (handler) {
+      event.preventDefault();
+      handler();
+    }
+  }
+
+  private registerHandlers(): void {
+    const app = this.app;
+    this.handlers.set('playPause', () => {
+      if (app.isSimulationRunning()) {
+        app.stopSimulation();
+      } else {
+        app.startSimulation();
+      }
+    });
+    this.handlers.set('reset', () => app.resetSimulation());
+    this.handlers.set('stepBack', () => app.seekToBeat(Math.max(0, app.getSimulationBeat() - 1)));
+    this.handlers.set('stepForward', () => app.stepSimulationBeats(1));
+    this.handlers.set('slower', () => app.stepPlaybackRate(-1));
+    this.handlers.set('faster', () => app.stepPlaybackRate(1));
+
+    for (const axis of ['x', 'y', 'z'] as const) {
+      const suffix = axis.toUpperCase();
+      this.handlers.set(`look${suffix}`, () => app.lookAlongAxis(axis, true));
+      this.handlers.set(`lookNeg${suffix}`, () => app.lookAlongAxis(axis, false));
+      this.handlers.set(`toggleAxis${suffix}`, () => app.setAxisVisibility(axis, !app.isAxisVisible(axis)));
+    }
+    this.handlers.set('cameraPath', () => {
+      if (app.isCameraPathPlaying()) {
+        app.stopCameraPath();
+      } else {
+        app.playCameraPath();
+      }
+    });
+
+    for (let slot = 1; slot <= 9; slot += 1) {
+      this.handlers.set(`segment${slot}`, () => {
+        const segment = app.getSimulationSegments()[slot - 1];
+        if (segment && !segment.error) {
+          app.selectSimulationSegment(segment.id);
+        }
+      });
+      this.handlers.set(`recallBookmark${slot}`, () => {
+        app.recallCameraBookmark(slot - 1);
+      });
+      this.handlers.set(`saveBookmark${slot}`, () => {
+        const existing = app.getCameraBookmarks()[slot - 1];
+        app.saveCameraBookmark(existing?.name ?? '', slot - 1);
+      });
+    }
+
+    this.handlers.set('toggleQuadView', () => {
+      app.setViewLayout(app.getViewLayout() === 'quad' ? 'single' : 'quad');
+    });
+    this.handlers.set('toggleProjection', () => {
+      app.setProjectionMode(app.getProjectionMode() === 'orthographic' ? 'perspective' : 'orthographic');
+    });
+    this.handlers.set('capture', () => {
+      app.captureSnapshot().catch((error: unknown) => {
+        log('capture', error instanceof Error ? error.message : String(error), { level: 'error' });
+      });
+    });
+    this.handlers.set('toggleHelp', () => {
+      if (this.isOpen()) {
+        this.close();
+      } else {
+        this.open();
+      }
+    });
+  }
+
+  private renderList(): void {
+    this.list.innerHTML = '';
+    let currentGroup: string | null = null;
+    let section: HTMLElement | null = null;
+
+    for (const action of this.keymap.getActions()) {
+      if (action.group !== currentGroup || !section) {
+        currentGroup = action.group;
+        const heading = document.createElement('h3');
+        heading.className = 'shortcuts__group';
+        heading.textContent = action.group;
+        section = document.createElement('dl');
+        section.className = 'shortcuts__rows';
+        this.list.append(heading, section);
+      }
+      section.append(...this.createRow(action));
+    }
+  }
+
+  private createRow(action: KeyActionDefinition): [HTMLElement, HTMLElement] {
+    const label = document.createElement('dt');
+    label.className = 'shortcuts__label';
+    label.textContent = this.describeAction(action);
+    label.classList.toggle('is-inactive', !this.isActionAvailable(action));
+
+    const keys = document.createElement('dd');
+    keys.className = 'shortcuts__keys';
+    const button = document.createElement('button');
+    button.type = 'button';
+    button.className = 'shortcuts__binding';
+    button.title = 'Click, then press the new key';
+    button.classList.toggle('is-custom', this.keymap.isCustomized(action.id));
+
+    if (this.capturingActionId === action.id) {
+      button.classList.add('is-capturing');
+      button.textContent = 'Press a key…';
+    } else {
+      const chords = this.keymap.getBindings(action.id);
+      if (chords.length === 0) {
+        button.textContent = '—';
+      }
+      for (const chord of chords) {
+        const kbd = document.createElement('kbd');
+        kbd.textContent = describeChord(chord);
+        button.appendChild(kbd);
+      }
+    }
+    button.addEventListener('click', () => {
+      this.capturingActionId = this.capturingActionId === action.id ? null : action.id;
+      this.renderList();
+    });
+    keys.appendChild(button);
+    return [label, keys];
+  }
+
+  private describeAction(action: KeyActionDefinition): string {
+    const slot = Number(action.id.match(/(\d)$/)?.[1] ?? 0);
+    if (action.group === 'Segments') {
+      const segment = this.app.getSimulationSegments()[slot - 1];
+      return segment ? `${action.label} · ${segment.name}` : action.label;
+    }
+    if (action.id.startsWith('recallBookmark')) {
+      const bookmark = this.app.getCameraBookmarks()[slot - 1];
+      return bookmark ? `${action.label} · ${bookmark.name}` : action.label;
+    }
+    return action.label;
+  }
+
+  // Segment and bookmark slots without anything behind them stay listed, just dimmed.
+  private isActionAvailable(action: KeyActionDefinition): boolean {
+    const slot = Number(action.id.match(/(\d)$/)?.[1] ?? 0);
+    if (action.group === 'Segments') {
+      const segment = this.app.getSimulationSegments()[slot - 1];
+      return Boolean(segment && !segment.error);
+    }
+    if (action.id.startsWith('recallBookmark')) {
+      return Boolean(this.app.getCameraBookmarks()[slot - 1]);
+    }
+    if (action.id === 'cameraPath') {
+      return this.app.hasCameraPath();
+    }
+    return true;
+  }
+}
@@ -0,0 +1,178 @@
+// assetPicker.ts — "Add Asset" picker: lists registered assets and builds a config form from their declared fields
+import type { App } from '../app/App';
+import { listAssetDefinitions, type AssetConfigField, type AssetDefinition } from '../assets/registry';
+
+type ConfigValue = string | number | boolean;
+
+interface ConfigInput {
+  key: string;
+  /** The value to send, or undefined to leave the asset default in place. */
+  read(): ConfigValue | undefined;
+}
+
+export function createAssetPicker(app: App): HTMLElement {
+  const assets = listAssetDefinitions();
+
+  const details = document.createElement('details');
+  details.className = 'properties-subobject asset-picker';
+
+  const summary = document.createElement('summary');
+  summary.className = 'properties-subobject-summary';
+  const title = document.createElement('span');
+  title.className = 'properties-subobject-summary-title';
+  title.textContent = 'Add Asset';
+  summary.appendChild(title);
+  details.appendChild(summary);
+
+  const body = document.createElement('div');
+  body.className = 'properties-subobject-body';
+
+  const assetGroup = document.createElement('div');
+  assetGroup.className = 'properties-group';
+  const assetLabel = document.createElement('label');
+  assetLabel.className = 'properties-label';
+  assetLabel.textContent = 'Asset';
+  assetLabel.htmlFor = 'asset-picker-select';
+  const assetSelect = document.createElement('select');
+  assetSelect.id = 'asset-picker-select';
+  assetSelect.className = 'properties-select';
+  for (const asset of assets) {
+    const option = document.createElement('option');
+    option.value = asset.id;
+    option.textContent = asset.label;
+    option.title = asset.description ?? '';
+    assetSelect.appendChild(option);
+  }
+  assetGroup.append(assetLabel, assetSelect);
+
+  const description = document.createElement('div');
+  description.className = 'properties-subobject-description';
+
+  const form = document.createElement('div');
+  form.className = 'asset-picker__form';
+
+  const addButton = document.createElement('button');
+  addButton.type = 'button';
+  addButton.className = 'properties-button';
+  addButton.textContent = 'Add to Scene';
+
+  const status = document.createElement('div');
+  status.className = 'properties-status';
+
+  body.append(assetGroup, description, form, addButton, status);
+  details.appendChild(body);
+
+  let inputs: ConfigInput[] = [];
+
+  const renderForm = () => {
+    const asset = assets.find((candidate) => candidate.id === assetSelect.value);
+    form.replaceChildren();
+    status.textContent = '';
+    inputs = [];
+    if (!asset) {
+      description.textContent = '';
+      return;
+    }
+    description.textContent = asset.description ?? '';
+    const defaults = asset.defaultConfig as Record<string, unknown>;
+    for (const [key, field] of Object.entries(asset.fields)) {
+      inputs.push(createConfigInput(asset, key, field, defaults[key], form));
+    }
+  };
+
+  assetSelect.addEventListener('change', renderForm);
+
+  addButton.addEventListener('click', () => {
+    const config: Record<string, unknown> = {};
+    for (const input of inputs) {
+      const value = input.read();
+      if (value !== undefined) {
+        config[input.key] = value;
+      }
+    }
+    try {
+      const ids = app.addAsset(assetSelect.value, config);
+      status.textContent = `Added ${ids.join(', ')}.`;
+    } catch (error) {
+      status.textContent = error instanceof Error ? error.message : String(error);
+    }
+  });
+
+  renderForm();
+  return details;
+}
+
+// Options without a default start blank and are left out of the config until filled in.
+function createConfigInput(
+  asset: AssetDefinition,
+  key: string,
+  field: AssetConfigField,
+  defaultValue: unknown,
+  form: HTMLElement,
+): ConfigInput {
+  const id = `asset-picker-${asset.id}-${key}`;
+
+  if (field.kind === 'boolean') {
+    const toggle = document.createElement('label');
+    toggle.className = 'properties-subobject-toggle';
+    const checkbox = document.createElement('input');
+    checkbox.type = 'checkbox';
+    checkbox.id = id;
+    checkbox.checked = defaultValue === true;
+    const text = document.createElement('span');
+    text.textContent = key;
+    toggle.append(checkbox, text);
+    form.appendChild(toggle);
+    return { key, read: () => checkbox.checked };
+  }
+
+  const group = document.createElement('div');
+  group.className = 'properties-group';
+  const label = document.createElement('label');
+  label.className = 'properties-label';
+  label.textContent = key;
+  label.htmlFor = id;
+  group.appendChild(label);
+  form.appendChild(group);
+
+  if (field.kind === 'choice') {
+    const select = document.createElement('select');
+    select.id = id;
+    select.className = 'properties-select';
+    const options: ReadonlyArray<ConfigValue | undefined> = defaultValue === undefined ? [undefined, ...field.options] : field.options;
+    for (const choice of options) {
+      const option = document.createElement('option');
+      option.textContent = choice === undefined ? '(default)' : String(choice);
+      select.appendChild(option);
+    }
+    select.selectedIndex = Math.max(0, options.indexOf(defaultValue as ConfigValue | undefined));
+    group.appendChild(select);
+    return { key, read: () => options[select.selectedIndex] };
+  }
+
+  const input = document.createElement('input');
+  input.id = id;
+  input.value = defaultValue === undefined ? '' : String(defaultValue);
+  group.appendChild(input);
+
+  if (field.kind === 'number') {
+    input.type = 'number';
+    input.step = 'any';
+    input.className = 'properties-number properties-number--compact';
+    return {
+      key,
+      read: () => {
+        const value = Number.parseFloat(input.value);
+        if (Number.isFinite(value)) {
+          return value;
+        }
+        input.value = defaultValue === undefined ? '' : String(defaultValue);
+        return undefined;
+      },
+    };
+  }
+
+  input.type = 'text';
+  input.className = 'properties-number';
+  return { key, read: () => (input.value === '' ? undefined : input.value) };
+}
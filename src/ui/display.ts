@@ -1,5 +1,10 @@
 // display.ts — builds the Display tab UI for scene visibility controls
 import { App } from '../app/App';
+import { EXPORT_MAX_BYTES, sanitizeExportName, uploadExport } from '../app/frameExport';
+import { log } from '../app/log/db';
+import { VIDEO_BITS_PER_SECOND, VIDEO_FRAME_RATES } from '../app/videoRecorder';
+import type { ProjectionMode } from '../app/viewLayout';
+import type { GhostTrailStyle } from '../sim/GhostTrails';
 import { showLogWindow } from './logWindow';
 
 type AxisKey = 'x' | 'y' | 'z';
@@ -56,6 +61,201 @@ export function createDisplayTab(app: App): HTMLElement {
   container.appendChild(axisGroup);
   container.appendChild(secondaryAxesRow);
 
+  const quadRow = document.createElement('label');
+  quadRow.className = 'tab-panel__checkbox';
+  const quadCheckbox = document.createElement('input');
+  quadCheckbox.type = 'checkbox';
+  quadCheckbox.addEventListener('change', () => {
+    app.setViewLayout(quadCheckbox.checked ? 'quad' : 'single');
+  });
+  const quadLabel = document.createElement('span');
+  quadLabel.textContent = 'Four-Pane View (Top / Front / Side)';
+  quadRow.appendChild(quadCheckbox);
+  quadRow.appendChild(quadLabel);
+  container.appendChild(quadRow);
+
+  const projectionRow = document.createElement('div');
+  projectionRow.className = 'display-projection';
+  const projectionLabel = document.createElement('span');
+  projectionLabel.className = 'display-axis-opacity__label';
+  projectionLabel.textContent = 'Projection';
+  const projectionSelect = document.createElement('select');
+  projectionSelect.className = 'display-projection__select';
+  for (const [value, text] of [
+    ['perspective', 'Perspective'],
+    ['orthographic', 'Orthographic'],
+  ] as const) {
+    const option = document.createElement('option');
+    option.value = value;
+    option.textContent = text;
+    projectionSelect.appendChild(option);
+  }
+  projectionSelect.addEventListener('change', () => {
+    app.setProjectionMode(projectionSelect.value as ProjectionMode);
+  });
+  projectionRow.appendChild(projectionLabel);
+  projectionRow.appendChild(projectionSelect);
+  container.appendChild(projectionRow);
+
+  const ghostGroup = document.createElement('div');
+  ghostGroup.className = 'display-ghosts';
+
+  const ghostLabel = document.createElement('span');
+  ghostLabel.className = 'display-axis-opacity__label';
+  ghostLabel.textContent = 'Ghost Trails';
+
+  const ghostOptions = document.createElement('div');
+  ghostOptions.className = 'display-video__options';
+  const ghostStyleSelect = document.createElement('select');
+  ghostStyleSelect.className = 'display-projection__select';
+  ghostStyleSelect.title = 'Trail style';
+  for (const [value, text] of [
+    ['balls', 'Balls'],
+    ['lines', 'Line Strips'],
+  ] as const) {
+    const option = document.createElement('option');
+    option.value = value;
+    option.textContent = text;
+    ghostStyleSelect.appendChild(option);
+  }
+  ghostStyleSelect.addEventListener('change', () => {
+    app.setGhostTrailStyle(ghostStyleSelect.value as GhostTrailStyle);
+  });
+
+  const ghostLifetimeInput = document.createElement('input');
+  ghostLifetimeInput.type = 'number';
+  ghostLifetimeInput.min = '0';
+  ghostLifetimeInput.step = '1';
+  ghostLifetimeInput.className = 'display-axis-radius__input';
+  ghostLifetimeInput.title = 'Beats before a trail particle fades out (0 = never)';
+  ghostLifetimeInput.addEventListener('change', () => {
+    const raw = Number.parseInt(ghostLifetimeInput.value, 10);
+    if (Number.isFinite(raw) && raw >= 0) {
+      app.setGhostLifetimeBeats(raw);
+    }
+    ghostLifetimeInput.value = String(app.getGhostLifetimeBeats());
+  });
+  ghostOptions.append(ghostStyleSelect, ghostLifetimeInput);
+
+  const ghostClearButton = document.createElement('button');
+  ghostClearButton.type = 'button';
+  ghostClearButton.className = 'display-video__button';
+  ghostClearButton.textContent = 'Clear Trails';
+  ghostClearButton.addEventListener('click', () => {
+    app.clearGhostTrails();
+  });
+
+  ghostGroup.append(ghostLabel, ghostOptions, ghostClearButton);
+  container.appendChild(ghostGroup);
+
+  const videoGroup = document.createElement('div');
+  videoGroup.className = 'display-video';
+
+  const videoLabel = document.createElement('span');
+  videoLabel.className = 'display-axis-opacity__label';
+  videoLabel.textContent = 'WebM Recording';
+
+  const videoOptions = document.createElement('div');
+  videoOptions.className = 'display-video__options';
+  const frameRateSelect = document.createElement('select');
+  frameRateSelect.className = 'display-projection__select';
+  frameRateSelect.title = 'Frame rate';
+  for (const rate of VIDEO_FRAME_RATES) {
+    const option = document.createElement('option');
+    option.value = String(rate);
+    option.textContent = `${rate} fps`;
+    frameRateSelect.appendChild(option);
+  }
+  frameRateSelect.value = '60';
+  const destinationSelect = document.createElement('select');
+  destinationSelect.className = 'display-projection__select';
+  destinationSelect.title = 'Where the finished video goes';
+  // The reporter caps uploads, so say up front how long a take fits.
+  const uploadSeconds = Math.floor((EXPORT_MAX_BYTES * 8) / VIDEO_BITS_PER_SECOND);
+  for (const [value, text] of [
+    ['download', 'Download'],
+    ['export', `Upload to export/ (up to ~${uploadSeconds} s)`],
+  ] as const) {
+    const option = document.createElement('option');
+    option.value = value;
+    option.textContent = text;
+    destinationSelect.appendChild(option);
+  }
+  videoOptions.append(frameRateSelect, destinationSelect);
+
+  const burnInRow = document.createElement('label');
+  burnInRow.className = 'tab-panel__checkbox';
+  const burnInCheckbox = document.createElement('input');
+  burnInCheckbox.type = 'checkbox';
+  burnInCheckbox.checked = true;
+  const burnInLabel = document.createElement('span');
+  burnInLabel.textContent = 'Burn In Segment and Beat';
+  burnInRow.appendChild(burnInCheckbox);
+  burnInRow.appendChild(burnInLabel);
+
+  const videoButton = document.createElement('button');
+  videoButton.type = 'button';
+  videoButton.className = 'display-video__button';
+  const videoStatus = document.createElement('span');
+  videoStatus.className = 'display-video__status';
+
+  const downloadVideo = (blob: Blob, fileName: string) => {
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = fileName;
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  // A take that is too big for the reporter, or whose upload fails, is downloaded instead of lost.
+  const saveVideo = async (blob: Blob) => {
+    const segmentId = app.getSelectedSimulationSegmentId() ?? 'scene';
+    const stamp = new Date().toISOString().replace(/[:.]/g, '-');
+    const fileName = `${sanitizeExportName(`${segmentId}-${stamp}`)}.webm`;
+    if (destinationSelect.value === 'export' && blob.size > EXPORT_MAX_BYTES) {
+      downloadVideo(blob, fileName);
+      videoStatus.textContent = `Too large to upload; downloaded ${fileName} instead`;
+      return;
+    }
+    if (destinationSelect.value === 'export') {
+      videoStatus.textContent = 'Uploading…';
+      try {
+        await uploadExport(fileName, blob);
+        videoStatus.textContent = `Saved export/${fileName}`;
+        return;
+      } catch (error) {
+        log('capture', error instanceof Error ? error.message : String(error), { level: 'error' });
+      }
+      downloadVideo(blob, fileName);
+      videoStatus.textContent = `Upload failed; downloaded ${fileName} instead`;
+      return;
+    }
+    downloadVideo(blob, fileName);
+    videoStatus.textContent = `Downloaded ${fileName}`;
+  };
+
+  videoButton.addEventListener('click', async () => {
+    try {
+      if (app.isVideoRecording()) {
+        await saveVideo(await app.stopVideoRecording());
+      } else {
+        app.startVideoRecording({
+          frameRate: Number(frameRateSelect.value),
+          burnIn: burnInCheckbox.checked,
+        });
+        videoStatus.textContent = 'Recording…';
+      }
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      videoStatus.textContent = message;
+      log('capture', message, { level: 'error' });
+    }
+  });
+
+  videoGroup.append(videoLabel, videoOptions, burnInRow, videoButton, videoStatus);
+  container.appendChild(videoGroup);
+
   const logButton = document.createElement('button');
   logButton.type = 'button';
   logButton.className = 'display-log-button';
@@ -132,6 +332,17 @@ export function createDisplayTab(app: App): HTMLElement {
       checkboxes[axis].checked = visibility[axis];
     });
     secondaryCheckbox.checked = app.getSecondaryAxesVisible();
+    quadCheckbox.checked = app.getViewLayout() === 'quad';
+    projectionSelect.value = app.getProjectionMode();
+    ghostStyleSelect.value = app.getGhostTrailStyle();
+    if (document.activeElement !== ghostLifetimeInput) {
+      ghostLifetimeInput.value = String(app.getGhostLifetimeBeats());
+    }
+    const videoRecording = app.isVideoRecording();
+    videoButton.textContent = videoRecording ? 'Stop Recording' : 'Start Recording';
+    videoButton.classList.toggle('is-recording', videoRecording);
+    frameRateSelect.disabled = videoRecording;
+    burnInCheckbox.disabled = videoRecording;
     const opacity = app.getAxisOpacity();
     opacitySlider.value = String(opacity);
     opacityValue.textContent = `${Math.round(opacity * 100)}%`;
@@ -1,20 +1,11 @@
 // properties.ts — renders the Properties tab as expandable editors for each sim object
 import { App } from '../app/App';
+import { BASE_COLORS } from '../engine/assets/simTypes';
+import { createAssetPicker } from './assetPicker';
 
 type ObjectUpdate = Parameters<App['updateSelectedSimObject']>[0];
 
-const BASE_COLOR_OPTIONS = [
-  { value: 'crimson', label: 'Crimson' },
-  { value: 'red', label: 'Red' },
-  { value: 'amber', label: 'Amber' },
-  { value: 'gold', label: 'Gold' },
-  { value: 'lime', label: 'Lime' },
-  { value: 'teal', label: 'Teal' },
-  { value: 'azure', label: 'Azure' },
-  { value: 'violet', label: 'Violet' },
-  { value: 'magenta', label: 'Magenta' },
-  { value: 'white', label: 'White' },
-] as const;
+const BASE_COLOR_OPTIONS = BASE_COLORS.map((value) => ({ value, label: value[0].toUpperCase() + value.slice(1) }));
 
 type SimObjectView = ReturnType<App['getSimObjects']>[number];
 
@@ -84,6 +75,7 @@ export function createPropertiesTab(app: App): HTMLElement {
   container.appendChild(controlsBar);
   container.appendChild(header);
   container.appendChild(description);
+  container.appendChild(createAssetPicker(app));
   container.appendChild(list);
 
   type ObjectControls = {
@@ -116,6 +108,12 @@ export function createPropertiesTab(app: App): HTMLElement {
     beltInput?: HTMLInputElement;
     pulseInput?: HTMLInputElement;
     sizeInput?: HTMLInputElement;
+    latticeDepthInput?: HTMLInputElement;
+    latticeBudgetInput?: HTMLInputElement;
+    autoGrowInput?: HTMLInputElement;
+    dexelSummary?: HTMLElement;
+    primaryRatioInput?: HTMLInputElement;
+    secondaryRatioInput?: HTMLInputElement;
     scriptInput?: HTMLInputElement;
     scriptSelect?: HTMLSelectElement;
     twirl8SizeInput?: HTMLInputElement;
@@ -128,6 +126,7 @@ export function createPropertiesTab(app: App): HTMLElement {
 
   const objectControls = new Map<string, ObjectControls>();
   const openObjects = new Set<string>();
+  let highlightedId: string | null = null;
 
   const updateSimControls = () => {
     const running = app.isSimulationRunning();
@@ -360,6 +359,12 @@ export function createPropertiesTab(app: App): HTMLElement {
     }
 
     let sizeInput: HTMLInputElement | undefined;
+    let latticeDepthInput: HTMLInputElement | undefined;
+    let latticeBudgetInput: HTMLInputElement | undefined;
+    let autoGrowInput: HTMLInputElement | undefined;
+    let dexelSummary: HTMLElement | undefined;
+    let primaryRatioInput: HTMLInputElement | undefined;
+    let secondaryRatioInput: HTMLInputElement | undefined;
     let scriptInput: HTMLInputElement | undefined;
     let scriptSelect: HTMLSelectElement | undefined;
     let sphereOpacitySlider: HTMLInputElement | undefined;
@@ -812,7 +817,47 @@ export function createPropertiesTab(app: App): HTMLElement {
         scriptSelect.dataset.prev = scriptSelect.value;
       }
 
-      if (isRgp) {
+      if (isRgp && simObject.type === 'rgpXY') {
+        const createLatticeInput = (
+          key: 'latticeDepth' | 'latticeBudget' | 'autoGrowBeats',
+          labelText: string,
+          value: number,
+          min: number,
+        ): HTMLInputElement => {
+          const group = document.createElement('div');
+          group.className = 'properties-group';
+          const label = document.createElement('label');
+          label.className = 'properties-label';
+          label.textContent = labelText;
+          label.htmlFor = `properties-${key}-${simObject.id}`;
+          const input = document.createElement('input');
+          input.type = 'number';
+          input.id = `properties-${key}-${simObject.id}`;
+          input.min = String(min);
+          input.step = '1';
+          input.className = 'properties-number properties-number--compact';
+          input.value = String(value);
+          input.dataset.prev = input.value;
+          input.addEventListener('change', () => {
+            const raw = Number.parseFloat(input.value);
+            if (!Number.isFinite(raw)) {
+              input.value = input.dataset.prev ?? String(value);
+              return;
+            }
+            const next = Math.max(min, Math.floor(raw));
+            input.value = String(next);
+            input.dataset.prev = input.value;
+            applyUpdate({ [key]: next } as ObjectUpdate);
+          });
+          group.appendChild(label);
+          group.appendChild(input);
+          form.appendChild(group);
+          return input;
+        };
+        latticeDepthInput = createLatticeInput('latticeDepth', 'Lattice Depth', simObject.latticeDepth, 1);
+        latticeBudgetInput = createLatticeInput('latticeBudget', 'Lattice Budget', simObject.latticeBudget, 0);
+        autoGrowInput = createLatticeInput('autoGrowBeats', 'Auto-Grow Every (beats, 0 = off)', simObject.autoGrowBeats, 0);
+
         const dexelButton = document.createElement('button');
         dexelButton.type = 'button';
         dexelButton.textContent = 'Spawn Dexel';
@@ -822,6 +867,70 @@ export function createPropertiesTab(app: App): HTMLElement {
           app.spawnDexelForSelectedRgp();
         });
         form.appendChild(dexelButton);
+
+        const growButton = document.createElement('button');
+        growButton.type = 'button';
+        growButton.textContent = 'Grow Lattice';
+        growButton.className = 'properties-button';
+        growButton.addEventListener('click', () => {
+          app.selectSimObject(simObject.id);
+          app.growDexelLatticeForSelectedRgp();
+        });
+        form.appendChild(growButton);
+
+        dexelSummary = document.createElement('div');
+        dexelSummary.className = 'properties-status';
+        dexelSummary.textContent = describeDexels(app, simObject.id);
+        form.appendChild(dexelSummary);
+
+        const removeDexelsButton = document.createElement('button');
+        removeDexelsButton.type = 'button';
+        removeDexelsButton.textContent = 'Remove All Dexels';
+        removeDexelsButton.className = 'properties-button';
+        removeDexelsButton.addEventListener('click', () => {
+          app.removeLatticeDexels(simObject.id);
+        });
+        form.appendChild(removeDexelsButton);
+      }
+
+      if (isDexel && simObject.type === 'dexel') {
+        const createRatioInput = (
+          key: 'primarySpeedRatio' | 'secondarySpeedRatio',
+          labelText: string,
+          value: number,
+        ): HTMLInputElement => {
+          const group = document.createElement('div');
+          group.className = 'properties-group';
+          const label = document.createElement('label');
+          label.className = 'properties-label';
+          label.textContent = labelText;
+          label.htmlFor = `properties-${key}-${simObject.id}`;
+          const input = document.createElement('input');
+          input.type = 'number';
+          input.id = `properties-${key}-${simObject.id}`;
+          input.min = '0';
+          input.step = '0.05';
+          input.className = 'properties-number properties-number--compact';
+          input.value = value.toFixed(2);
+          input.dataset.prev = input.value;
+          input.addEventListener('change', () => {
+            const raw = Number.parseFloat(input.value);
+            if (!Number.isFinite(raw)) {
+              input.value = input.dataset.prev ?? value.toFixed(2);
+              return;
+            }
+            const next = Math.max(0, raw);
+            input.value = next.toFixed(2);
+            input.dataset.prev = input.value;
+            applyUpdate({ [key]: next } as ObjectUpdate);
+          });
+          group.appendChild(label);
+          group.appendChild(input);
+          form.appendChild(group);
+          return input;
+        };
+        primaryRatioInput = createRatioInput('primarySpeedRatio', 'K1 Speed Ratio', simObject.primarySpeedRatio);
+        secondaryRatioInput = createRatioInput('secondarySpeedRatio', 'P2 Speed Ratio', simObject.secondarySpeedRatio);
       }
     }
 
@@ -855,7 +964,7 @@ export function createPropertiesTab(app: App): HTMLElement {
       pulseGroup.className = 'properties-group';
       const pulseLabel = document.createElement('label');
       pulseLabel.className = 'properties-label';
-      pulseLabel.textContent = 'Pulse Speed';
+      pulseLabel.textContent = 'Pulses / Rev';
       pulseLabel.htmlFor = `properties-pulse-${simObject.id}`;
       pulseInput = document.createElement('input');
       pulseInput.type = 'number';
@@ -863,12 +972,12 @@ export function createPropertiesTab(app: App): HTMLElement {
       pulseInput.step = '0.05';
       pulseInput.min = '0';
       pulseInput.className = 'properties-number properties-number--compact';
-      pulseInput.value = simObject.pulseSpeed.toFixed(2);
+      pulseInput.value = simObject.pulsesPerRevolution.toFixed(2);
       pulseInput.addEventListener('change', () => {
         const value = Number.parseFloat(pulseInput!.value);
-        const clamped = Number.isFinite(value) ? Math.max(0, value) : simObject.pulseSpeed;
+        const clamped = Number.isFinite(value) ? Math.max(0, value) : simObject.pulsesPerRevolution;
         pulseInput!.value = clamped.toFixed(2);
-        applyUpdate({ pulseSpeed: clamped } as ObjectUpdate);
+        applyUpdate({ pulsesPerRevolution: clamped } as ObjectUpdate);
       });
       pulseGroup.appendChild(pulseLabel);
       pulseGroup.appendChild(pulseInput);
@@ -1116,6 +1225,26 @@ export function createPropertiesTab(app: App): HTMLElement {
     if (segmentsGroup) {
       form.appendChild(segmentsGroup);
     }
+
+    const actions = document.createElement('div');
+    actions.className = 'properties-object-actions';
+    const duplicateButton = document.createElement('button');
+    duplicateButton.type = 'button';
+    duplicateButton.textContent = 'Duplicate';
+    duplicateButton.className = 'properties-button';
+    duplicateButton.addEventListener('click', () => {
+      app.duplicateSimObject(simObject.id);
+    });
+    const deleteButton = document.createElement('button');
+    deleteButton.type = 'button';
+    deleteButton.textContent = 'Delete';
+    deleteButton.className = 'properties-button';
+    deleteButton.addEventListener('click', () => {
+      app.removeSimObject(simObject.id);
+    });
+    actions.appendChild(duplicateButton);
+    actions.appendChild(deleteButton);
+    form.appendChild(actions);
     details.appendChild(form);
 
     details.addEventListener('toggle', () => {
@@ -1147,6 +1276,12 @@ export function createPropertiesTab(app: App): HTMLElement {
       beltInput,
       pulseInput,
       sizeInput,
+      latticeDepthInput,
+      latticeBudgetInput,
+      autoGrowInput,
+      dexelSummary,
+      primaryRatioInput,
+      secondaryRatioInput,
       scriptInput,
       scriptSelect,
       sphereOpacitySlider,
@@ -1308,7 +1443,7 @@ export function createPropertiesTab(app: App): HTMLElement {
     }
 
     if (controls.pulseInput) {
-      const pulseValue = simObject.type === 'twirl' ? simObject.pulseSpeed : 0;
+      const pulseValue = simObject.type === 'twirl' ? simObject.pulsesPerRevolution : 0;
       controls.pulseInput.value = pulseValue.toFixed(2);
     }
 
@@ -1321,6 +1456,36 @@ export function createPropertiesTab(app: App): HTMLElement {
       controls.sizeInput.dataset.prev = controls.sizeInput.value;
     }
 
+    if (simObject.type === 'rgpXY') {
+      const latticeValues: Array<[HTMLInputElement | undefined, number]> = [
+        [controls.latticeDepthInput, simObject.latticeDepth],
+        [controls.latticeBudgetInput, simObject.latticeBudget],
+        [controls.autoGrowInput, simObject.autoGrowBeats],
+      ];
+      for (const [input, value] of latticeValues) {
+        if (input && document.activeElement !== input) {
+          input.value = String(value);
+          input.dataset.prev = input.value;
+        }
+      }
+      if (controls.dexelSummary) {
+        controls.dexelSummary.textContent = describeDexels(app, simObject.id);
+      }
+    }
+
+    if (simObject.type === 'dexel') {
+      const ratioValues: Array<[HTMLInputElement | undefined, number]> = [
+        [controls.primaryRatioInput, simObject.primarySpeedRatio],
+        [controls.secondaryRatioInput, simObject.secondarySpeedRatio],
+      ];
+      for (const [input, value] of ratioValues) {
+        if (input && document.activeElement !== input) {
+          input.value = value.toFixed(2);
+          input.dataset.prev = input.value;
+        }
+      }
+    }
+
     if (controls.sphereOpacitySlider && controls.sphereOpacityValue) {
       if (simObject.type === 'rgpXY') {
         controls.sphereOpacitySlider.value = simObject.sphereOpacity.toFixed(2);
@@ -1460,6 +1625,13 @@ export function createPropertiesTab(app: App): HTMLElement {
       objectControls.delete(id);
       openObjects.delete(id);
     }
+
+    // Selection can come from the viewport, so bring the highlighted card into view when it changes.
+    if (selectedId !== highlightedId) {
+      highlightedId = selectedId;
+      const selectedControls = selectedId ? objectControls.get(selectedId) : undefined;
+      selectedControls?.details.scrollIntoView({ block: 'nearest' });
+    }
   };
 
   const unsubscribe = app.onSimChange(() => {
@@ -1476,6 +1648,15 @@ export function createPropertiesTab(app: App): HTMLElement {
   return container;
 }
 
+// Count summary shown on an RGP card: dexels it spawned and dexel assets anchored to it.
+function describeDexels(app: App, rgpId: string): string {
+  const spawned = app.getLatticeDexels(rgpId).length;
+  const attached = app
+    .getSimObjects()
+    .filter((simObject) => simObject.type === 'dexel' && simObject.anchorId === rgpId && !simObject.lattice).length;
+  return `Dexels: ${spawned} spawned · ${attached} attached`;
+}
+
 function createRadio(name: string, value: string, labelText: string) {
   const wrapper = document.createElement('label');
   wrapper.className = 'properties-radio';
@@ -1,5 +1,7 @@
 // sim.ts — builds the Simulation tab UI for segment browsing and selection
 import { App } from '../app/App';
+import { CAPTURE_SCALES } from '../app/frameExport';
+import { log } from '../app/log/db';
 
 export function createSimTab(app: App, openPropertiesTab: () => void): HTMLElement {
   const container = document.createElement('div');
@@ -20,6 +22,232 @@ export function createSimTab(app: App, openPropertiesTab: () => void): HTMLEleme
   container.appendChild(segmentLabel);
   container.appendChild(segmentList);
 
+  const sceneFileLabel = document.createElement('div');
+  sceneFileLabel.className = 'sim-objects-label';
+  sceneFileLabel.textContent = 'Scene File';
+
+  const sceneFileControls = document.createElement('div');
+  sceneFileControls.className = 'sim-scene-file-controls';
+
+  const exportButton = document.createElement('button');
+  exportButton.type = 'button';
+  exportButton.textContent = 'Export Scene';
+  exportButton.className = 'sim-button';
+
+  const importButton = document.createElement('button');
+  importButton.type = 'button';
+  importButton.textContent = 'Import Scene';
+  importButton.className = 'sim-button';
+
+  const importInput = document.createElement('input');
+  importInput.type = 'file';
+  importInput.accept = '.json,application/json';
+  importInput.hidden = true;
+
+  exportButton.addEventListener('click', () => {
+    const scene = app.exportScene();
+    const blob = new Blob([JSON.stringify(scene, null, 2)], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `${scene.segmentId ?? 'scene'}.netty.json`;
+    link.click();
+    URL.revokeObjectURL(url);
+    log('scene', `Exported scene with ${scene.objects.length} objects`);
+  });
+
+  importButton.addEventListener('click', () => {
+    importInput.click();
+  });
+
+  importInput.addEventListener('change', async () => {
+    const file = importInput.files?.[0];
+    importInput.value = '';
+    if (!file) {
+      return;
+    }
+    try {
+      app.importScene(JSON.parse(await file.text()));
+      openPropertiesTab();
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      log('scene', `Failed to import ${file.name}: ${message}`, { level: 'error' });
+    }
+  });
+
+  sceneFileControls.appendChild(exportButton);
+  sceneFileControls.appendChild(importButton);
+  sceneFileControls.appendChild(importInput);
+  container.appendChild(sceneFileLabel);
+  container.appendChild(sceneFileControls);
+
+  const captureLabel = document.createElement('div');
+  captureLabel.className = 'sim-objects-label';
+  captureLabel.textContent = 'Capture';
+
+  const captureHint = document.createElement('p');
+  captureHint.className = 'sim-bookmark-hint';
+  captureHint.textContent = 'PNGs are written to export/ by dev/error-reporter.mjs; recordings export one frame per tick.';
+
+  const captureControls = document.createElement('div');
+  captureControls.className = 'sim-capture-controls';
+
+  const scaleSelect = document.createElement('select');
+  scaleSelect.className = 'sim-capture-scale';
+  scaleSelect.title = 'Resolution multiplier';
+  for (const scale of CAPTURE_SCALES) {
+    const option = document.createElement('option');
+    option.value = String(scale);
+    option.textContent = `${scale}×`;
+    scaleSelect.appendChild(option);
+  }
+
+  const captureButton = document.createElement('button');
+  captureButton.type = 'button';
+  captureButton.textContent = 'Capture';
+  captureButton.className = 'sim-button';
+
+  const beatsInput = document.createElement('input');
+  beatsInput.type = 'number';
+  beatsInput.min = '1';
+  beatsInput.step = '1';
+  beatsInput.value = '16';
+  beatsInput.className = 'sim-capture-beats';
+  beatsInput.title = 'Beats to record';
+
+  const recordButton = document.createElement('button');
+  recordButton.type = 'button';
+  recordButton.className = 'sim-button';
+
+  const captureStatus = document.createElement('p');
+  captureStatus.className = 'sim-bookmark-hint';
+
+  const reportCaptureError = (error: unknown) => {
+    const message = error instanceof Error ? error.message : String(error);
+    captureStatus.textContent = message;
+    log('capture', message, { level: 'error' });
+  };
+
+  captureButton.addEventListener('click', async () => {
+    captureButton.disabled = true;
+    captureStatus.textContent = 'Capturing…';
+    try {
+      const fileName = await app.captureSnapshot(Number(scaleSelect.value));
+      captureStatus.textContent = `Saved export/${fileName}`;
+    } catch (error) {
+      reportCaptureError(error);
+    } finally {
+      captureButton.disabled = app.isRecording();
+    }
+  });
+
+  recordButton.addEventListener('click', async () => {
+    if (app.isRecording()) {
+      app.cancelRecording();
+      return;
+    }
+    const beats = Number.parseInt(beatsInput.value, 10);
+    if (!Number.isFinite(beats) || beats < 1) {
+      captureStatus.textContent = 'Enter a whole number of beats to record.';
+      return;
+    }
+    try {
+      const frames = await app.recordBeats(beats, {
+        scale: Number(scaleSelect.value),
+        onProgress: (frame, total) => {
+          captureStatus.textContent = `Recording frame ${frame} / ${total}…`;
+        },
+      });
+      captureStatus.textContent = `Wrote ${frames} frames to export/`;
+    } catch (error) {
+      reportCaptureError(error);
+    }
+  });
+
+  captureControls.append(scaleSelect, captureButton, beatsInput, recordButton);
+  container.appendChild(captureLabel);
+  container.appendChild(captureHint);
+  container.appendChild(captureControls);
+  container.appendChild(captureStatus);
+
+  const refreshCaptureControls = () => {
+    const recording = app.isRecording();
+    recordButton.textContent = recording ? 'Cancel Recording' : 'Record Beats';
+    captureButton.disabled = recording;
+    beatsInput.disabled = recording;
+    scaleSelect.disabled = recording;
+  };
+
+  const bookmarkLabel = document.createElement('div');
+  bookmarkLabel.className = 'sim-objects-label';
+  bookmarkLabel.textContent = 'Camera Bookmarks';
+
+  const bookmarkHint = document.createElement('p');
+  bookmarkHint.className = 'sim-bookmark-hint';
+  bookmarkHint.textContent = 'Press Shift+1–9 to fly to a bookmark, Alt+1–9 to save the current view into that slot (H lists all keys).';
+
+  const bookmarkForm = document.createElement('form');
+  bookmarkForm.className = 'sim-bookmark-form';
+
+  const bookmarkNameInput = document.createElement('input');
+  bookmarkNameInput.type = 'text';
+  bookmarkNameInput.placeholder = 'Bookmark name';
+  bookmarkNameInput.className = 'sim-bookmark-name';
+
+  const saveBookmarkButton = document.createElement('button');
+  saveBookmarkButton.type = 'submit';
+  saveBookmarkButton.textContent = 'Save View';
+  saveBookmarkButton.className = 'sim-button';
+
+  const bookmarkList = document.createElement('ol');
+  bookmarkList.className = 'sim-bookmark-list';
+
+  bookmarkForm.addEventListener('submit', (event) => {
+    event.preventDefault();
+    if (app.saveCameraBookmark(bookmarkNameInput.value)) {
+      bookmarkNameInput.value = '';
+    }
+  });
+
+  bookmarkForm.appendChild(bookmarkNameInput);
+  bookmarkForm.appendChild(saveBookmarkButton);
+  container.appendChild(bookmarkLabel);
+  container.appendChild(bookmarkHint);
+  container.appendChild(bookmarkForm);
+  container.appendChild(bookmarkList);
+
+  const refreshBookmarkList = () => {
+    bookmarkList.innerHTML = '';
+    const bookmarks = app.getCameraBookmarks();
+    saveBookmarkButton.disabled = app.getSelectedSimulationSegmentId() === null;
+    bookmarks.forEach((bookmark, slot) => {
+      const item = document.createElement('li');
+      item.className = 'sim-bookmark';
+
+      const recallButton = document.createElement('button');
+      recallButton.type = 'button';
+      recallButton.className = 'sim-bookmark__recall';
+      recallButton.textContent = `${slot + 1} · ${bookmark.name}`;
+      recallButton.addEventListener('click', () => {
+        app.recallCameraBookmark(slot);
+      });
+
+      const deleteButton = document.createElement('button');
+      deleteButton.type = 'button';
+      deleteButton.className = 'sim-bookmark__delete';
+      deleteButton.textContent = '×';
+      deleteButton.title = `Delete “${bookmark.name}”`;
+      deleteButton.addEventListener('click', () => {
+        app.deleteCameraBookmark(slot);
+      });
+
+      item.appendChild(recallButton);
+      item.appendChild(deleteButton);
+      bookmarkList.appendChild(item);
+    });
+    bookmarkList.hidden = bookmarks.length === 0;
+  };
+
   const refreshSegmentList = () => {
     segmentList.innerHTML = '';
     const segments = app.getSimulationSegments();
@@ -30,6 +258,13 @@ export function createSimTab(app: App, openPropertiesTab: () => void): HTMLEleme
       if (segment.id === selectedSegment) {
         item.classList.add('is-selected');
       }
+      if (segment.error) {
+        item.classList.add('is-broken');
+        item.textContent = `${segment.name} (broken)`;
+        item.title = segment.error;
+        segmentList.appendChild(item);
+        continue;
+      }
       item.addEventListener('click', () => {
         if (segment.id !== app.getSelectedSimulationSegmentId()) {
           app.selectSimulationSegment(segment.id);
@@ -65,9 +300,13 @@ export function createSimTab(app: App, openPropertiesTab: () => void): HTMLEleme
   window.addEventListener('popstate', handlePopState);
   const unsubscribe = app.onSimChange(() => {
     refreshSegmentList();
+    refreshBookmarkList();
+    refreshCaptureControls();
   });
 
   refreshSegmentList();
+  refreshBookmarkList();
+  refreshCaptureControls();
 
   container.addEventListener('DOMNodeRemoved', () => {
     unsubscribe();
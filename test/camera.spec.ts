@@ -0,0 +1,249 @@
+// camera.spec.ts — checks bookmark fly-tos, camera paths, projections, pane layout, and scene bookmarks
+import { describe, expect, it } from 'vitest';
+import { CameraController, interpolateCameraState, type CameraState } from '../src/app/camera';
+import { CameraPath } from '../src/app/cameraPath';
+import { VIEW_PANES, getPaneRect, getPaneViewport } from '../src/app/viewLayout';
+import { SCENE_FILE_FORMAT, SCENE_FILE_VERSION, migrateSceneDocument } from '../src/app/sceneFile';
+import { mat4Multiply, sphericalToCartesian } from '../src/app/math3d';
+
+const FRONT: CameraState = { azimuth: 0, elevation: 0, distance: 4, panX: 0, panY: 0, panZ: 0 };
+const SIDE: CameraState = { azimuth: Math.PI / 2, elevation: 0, distance: 8, panX: 2, panY: 0, panZ: -2 };
+const RING_DEFINITION = { type: 'twirl', id: 'ring', speedPerTick: 1, direction: 1, plane: 'GB', beltHalfAngle: 0.2 };
+
+function direction(state: CameraState): [number, number, number] {
+  return sphericalToCartesian(1, state.azimuth, state.elevation, [0, 0, 0]);
+}
+
+describe('interpolateCameraState', () => {
+  it('returns the endpoints at t = 0 and t = 1', () => {
+    const start = interpolateCameraState(FRONT, SIDE, 0);
+    const end = interpolateCameraState(FRONT, SIDE, 1);
+    expect(start.azimuth).toBeCloseTo(0, 6);
+    expect(end.azimuth).toBeCloseTo(Math.PI / 2, 6);
+    expect(end.distance).toBe(8);
+    expect([end.panX, end.panY, end.panZ]).toEqual([2, 0, -2]);
+  });
+
+  it('moves the view direction along the great circle', () => {
+    const mid = interpolateCameraState(FRONT, SIDE, 0.5);
+    expect(mid.azimuth).toBeCloseTo(Math.PI / 4, 6);
+    expect(mid.elevation).toBeCloseTo(0, 6);
+    expect(mid.distance).toBe(6);
+  });
+
+  it('keeps a unit direction when swinging between opposite views', () => {
+    const back: CameraState = { ...FRONT, azimuth: Math.PI };
+    const mid = interpolateCameraState(FRONT, back, 0.5);
+    const [x, y, z] = direction(mid);
+    expect(Math.hypot(x, y, z)).toBeCloseTo(1, 6);
+    expect(z).toBeCloseTo(0, 6);
+    expect(direction(interpolateCameraState(FRONT, back, 1))[2]).toBeCloseTo(-1, 6);
+  });
+});
+
+describe('CameraController.flyTo', () => {
+  it('eases toward the target and lands on it when the duration elapses', () => {
+    const camera = new CameraController();
+    camera.setState(FRONT);
+    camera.flyTo(SIDE, 1000);
+    camera.update(0);
+    expect(camera.isFlying()).toBe(true);
+    camera.update(500);
+    expect(camera.getState().azimuth).toBeCloseTo(Math.PI / 4, 3);
+    camera.update(1000);
+    expect(camera.isFlying()).toBe(false);
+    expect(camera.getState()).toMatchObject({ distance: 8, panX: 2, panZ: -2 });
+    expect(camera.getState().azimuth).toBeCloseTo(Math.PI / 2, 6);
+  });
+
+  it('stops flying when the state is set directly', () => {
+    const camera = new CameraController();
+    camera.setState(FRONT);
+    camera.flyTo(SIDE, 1000);
+    camera.update(0);
+    camera.setState({ distance: 3 });
+    camera.update(1000);
+    expect(camera.isFlying()).toBe(false);
+    expect(camera.getState()).toMatchObject({ azimuth: 0, distance: 3 });
+  });
+});
+
+describe('CameraPath', () => {
+  it('blends keyframes and inherits fields they leave out', () => {
+    const path = new CameraPath();
+    path.addKeyframe({ beat: 0, state: { azimuth: 0 } });
+    path.addKeyframe({ beat: 100, state: { azimuth: Math.PI / 2, distance: 8 } });
+
+    expect(path.sample(-5, FRONT)).toEqual(FRONT);
+    expect(path.sample(50, FRONT)).toMatchObject({ distance: 6 });
+    expect(path.sample(50, FRONT).azimuth).toBeCloseTo(Math.PI / 4, 6);
+    expect(path.sample(500, FRONT)).toMatchObject({ azimuth: Math.PI / 2, distance: 8, elevation: 0 });
+  });
+
+  it('accumulates orbit spans as a function of the beat', () => {
+    const path = new CameraPath();
+    path.setOrbit(1, 10);
+    path.setOrbit(0, 100);
+    expect(path.sample(10, FRONT).azimuth).toBe(0);
+    expect(path.sample(55, FRONT).azimuth).toBeCloseTo((45 * Math.PI) / 180, 6);
+    expect(path.sample(400, FRONT).azimuth).toBeCloseTo((90 * Math.PI) / 180, 6);
+  });
+
+  it('pans to the follow target when it resolves', () => {
+    const path = new CameraPath();
+    path.setFollow({ targetId: 'd1' });
+    const resolve = (target: { targetId: string }) =>
+      target.targetId === 'd1' ? ([1, 2, 3] as [number, number, number]) : null;
+    expect(path.sample(0, FRONT, resolve)).toMatchObject({ panX: 1, panY: 2, panZ: 3 });
+    path.setFollow({ targetId: 'missing' });
+    expect(path.sample(0, FRONT, resolve)).toMatchObject({ panX: 0, panY: 0, panZ: 0 });
+  });
+
+  it('drives the controller until the view is taken back', () => {
+    const camera = new CameraController();
+    camera.setState(FRONT);
+    const path = new CameraPath();
+    path.setOrbit(2, 0);
+    camera.playPath(path);
+    camera.updatePath(45);
+    expect(camera.getState().azimuth).toBeCloseTo(Math.PI / 2, 6);
+    camera.flyTo(SIDE, 100);
+    expect(camera.isPlayingPath()).toBe(false);
+  });
+});
+
+describe('projections and panes', () => {
+  function project(camera: CameraController, point: [number, number, number]): [number, number] {
+    const m = mat4Multiply(camera.getProjectionMatrix(1), camera.getViewMatrix());
+    const [x, y, z] = point;
+    const w = m[3] * x + m[7] * y + m[11] * z + m[15];
+    return [(m[0] * x + m[4] * y + m[8] * z + m[12]) / w, (m[1] * x + m[5] * y + m[9] * z + m[13]) / w];
+  }
+
+  it('keeps on-screen size independent of depth in orthographic mode', () => {
+    const camera = new CameraController();
+    camera.setState(FRONT);
+    camera.setProjection('orthographic');
+    const [near] = project(camera, [1, 0, 2]);
+    const [far] = project(camera, [1, 0, -2]);
+    expect(near).toBeCloseTo(far, 6);
+    camera.setProjection('perspective');
+    expect(project(camera, [1, 0, 2])[0]).toBeGreaterThan(project(camera, [1, 0, -2])[0]);
+  });
+
+  it('points each axis-aligned pane straight at its plane', () => {
+    const expectations = { top: [1, 0, 0], front: [1, 0, 0], side: [0, 0, -1] } as const;
+    for (const pane of VIEW_PANES) {
+      if (!pane.orientation) {
+        continue;
+      }
+      const camera = new CameraController();
+      camera.setState({ ...pane.orientation, distance: 4 });
+      camera.setProjection('orthographic');
+      // A unit step along the pane's screen-right axis lands right of centre and on the centre line.
+      const [x, y] = project(camera, [...expectations[pane.id as keyof typeof expectations]] as [number, number, number]);
+      expect(x).toBeGreaterThan(0);
+      expect(y).toBeCloseTo(0, 3);
+    }
+  });
+
+  it('tiles the canvas with four panes in the quad layout', () => {
+    expect(VIEW_PANES.filter((pane) => getPaneRect(pane, 'single'))).toHaveLength(1);
+    const viewports = VIEW_PANES.map((pane) => getPaneViewport(getPaneRect(pane, 'quad')!, 801, 600));
+    expect(viewports.reduce((area, viewport) => area + viewport.width * viewport.height, 0)).toBe(801 * 600);
+    const top = viewports[VIEW_PANES.findIndex((pane) => pane.id === 'top')];
+    expect(top).toEqual({ x: 0, y: 300, width: 401, height: 300 });
+  });
+});
+
+describe('scene file bookmarks', () => {
+  it('migrates version 1 documents to an empty bookmark list', () => {
+    const scene = migrateSceneDocument({
+      format: SCENE_FILE_FORMAT,
+      version: 1,
+      camera: FRONT,
+      objects: [],
+    });
+    expect(scene.version).toBe(SCENE_FILE_VERSION);
+    expect(scene.cameraBookmarks).toEqual([]);
+  });
+
+  it('converts version 2 pulse speeds to pulses per revolution', () => {
+    const ring = { speedPerTick: 2, pulseSpeed: 0.8, pulsePhase: 0.4 };
+    const scene = migrateSceneDocument({
+      format: SCENE_FILE_FORMAT,
+      version: 2,
+      camera: FRONT,
+      objects: [
+        { definition: { ...RING_DEFINITION, pulseSpeed: 0.75 }, state: {} },
+        { definition: { type: 'rgpXY', id: 'rgp', size: 24 }, state: { primary: ring, secondary: ring } },
+      ],
+      dexels: [{ sourceId: 'rgp', axis: 'x', sign: 1, size: 24, primary: ring, secondary: ring }],
+    });
+    expect(scene.objects[0].definition).toEqual({ ...RING_DEFINITION, pulsesPerRevolution: 1.125 });
+    expect(scene.objects[1].state.primary).not.toHaveProperty('pulseSpeed');
+    expect(scene.objects[1].state.primary?.pulsesPerRevolution).toBeCloseTo(0.6, 9);
+    expect(scene.objects[2].state.secondary?.pulsesPerRevolution).toBeCloseTo(0.6, 9);
+  });
+
+  it('rejects unknown types, missing fields and duplicate ids, and defaults the clock', () => {
+    const load = (objects: unknown[], simulation?: unknown) =>
+      migrateSceneDocument({ format: SCENE_FILE_FORMAT, version: SCENE_FILE_VERSION, camera: FRONT, objects, simulation });
+    expect(() => load([{ definition: { type: 'cube', id: 'box' } }])).toThrow('Scene object box has unknown type "cube".');
+    expect(() => load([{ definition: { type: 'sphere', id: 'ball', speedPerTick: 1, direction: 1 } }])).toThrow(
+      'Scene object ball (sphere) has a missing or invalid plane.',
+    );
+    expect(() => load([{ definition: RING_DEFINITION }, { definition: RING_DEFINITION }])).toThrow(
+      'Scene object id ring is used more than once.',
+    );
+    expect(load([{ definition: RING_DEFINITION }], {}).simulation).toEqual({ beat: 0, speed: 30 });
+  });
+
+  it('drops ring and camera fields that are not valid values', () => {
+    const scene = migrateSceneDocument({
+      format: SCENE_FILE_FORMAT,
+      version: SCENE_FILE_VERSION,
+      camera: { ...FRONT, distance: null, panX: 'left' },
+      objects: [
+        {
+          definition: { type: 'rgpXY', id: 'rgp', size: 24 },
+          state: { primary: { rotationY: 1, speedPerTick: null, plane: 'XY', visible: false }, secondary: 'spin' },
+        },
+      ],
+    });
+    expect(scene.objects[0].state).toEqual({ primary: { rotationY: 1, visible: false } });
+    expect(scene.camera).not.toHaveProperty('distance');
+    expect(scene.camera).not.toHaveProperty('panX');
+    expect(scene.camera.azimuth).toBe(FRONT.azimuth);
+  });
+
+  it('turns version 3 dexels into first-generation lattice dexel objects', () => {
+    const ring = { speedPerTick: 1, pulsePhase: 0 };
+    const scene = migrateSceneDocument({
+      format: SCENE_FILE_FORMAT,
+      version: 3,
+      camera: FRONT,
+      objects: [{ definition: { type: 'dexel', id: 'rgp-dexel-1', axis: 'x', sign: 1, size: 24 }, state: {} }],
+      dexels: [{ sourceId: 'rgp', axis: 'z', sign: -1, size: 24, primary: ring, secondary: ring }],
+    });
+    expect(scene).not.toHaveProperty('dexels');
+    expect(scene.objects[1].definition).toMatchObject({
+      type: 'dexel',
+      id: 'rgp-dexel-2',
+      anchorId: 'rgp',
+      lattice: { cell: [0, 0, -1], depth: 1 },
+    });
+    expect(scene.objects[1].state.primary).toEqual(ring);
+  });
+
+  it('drops malformed bookmarks', () => {
+    const scene = migrateSceneDocument({
+      format: SCENE_FILE_FORMAT,
+      version: SCENE_FILE_VERSION,
+      camera: FRONT,
+      cameraBookmarks: [{ name: 'Side', camera: SIDE }, { name: 3 }, null],
+      objects: [],
+    });
+    expect(scene.cameraBookmarks).toEqual([{ name: 'Side', camera: SIDE }]);
+  });
+});
@@ -1,2 +1,183 @@
-// dsl.spec.ts — placeholder tests for parser and timeline coordination
-export {}; // TODO: Add Vitest suites covering DSL parsing and scheduling.
+// dsl.spec.ts — checks parser output, scene compilation, and timeline scheduling
+import { describe, expect, it } from 'vitest';
+import { ParseError, Parser, tokenize } from '../src/dsl/parser';
+import { Timeline, applyEasing, parseEasing, type AnimatableProperty } from '../src/dsl/timeline';
+import { compileScene } from '../src/segments';
+
+describe('tokenize', () => {
+  it('reads numbers, strings, lists and comments', () => {
+    const tokens = tokenize('MAKE sphere "core id" size=.5 offset=[1, -2e1] # trailing');
+    expect(tokens.map((token) => token.type)).toEqual([
+      'ident', 'ident', 'string', 'ident', 'equals', 'number', 'ident', 'equals',
+      'lbracket', 'number', 'comma', 'number', 'rbracket', 'eof',
+    ]);
+    expect(tokens[2].value).toBe('core id');
+    expect(tokens[5].value).toBe(0.5);
+    expect(tokens[11].value).toBe(-20);
+  });
+
+  it('reports the location of unexpected characters', () => {
+    expect(() => tokenize('MAKE sphere a\n  size=@', 'bad.ncmd')).toThrow('bad.ncmd:2:8: Unexpected character');
+  });
+});
+
+describe('Parser', () => {
+  it('parses statements into typed actions', () => {
+    const actions = new Parser('scene.ncmd').parse(
+      [
+        'make sphere core plane=GB visible=true',
+        'STYLE core opacity=0.4; DELETE core',
+        'ANIM core opacity from=0 to=1 end=8 ease=ease-in',
+        'AT 12 FIELD core pulsesPerRevolution=2',
+      ].join('\n'),
+    );
+
+    expect(actions.map((action) => action.kind)).toEqual(['make', 'style', 'delete', 'anim', 'at']);
+    expect(actions[0]).toMatchObject({
+      kind: 'make',
+      assetId: 'sphere',
+      instanceId: 'core',
+      config: { plane: 'GB', visible: true },
+      location: { line: 1, column: 1 },
+    });
+    expect(actions[3]).toMatchObject({ property: 'opacity', properties: { from: 0, to: 1, end: 8, ease: 'ease-in' } });
+    expect(actions[4]).toMatchObject({ beat: 12, action: { kind: 'field', target: 'core', properties: { pulsesPerRevolution: 2 } } });
+  });
+
+  it('parses camera path statements', () => {
+    const actions = new Parser().parse('CAMERA key beat=30 azimuthDeg=90 ease=ease-out\nAT 60 camera ORBIT degreesPerBeat=0.5');
+    expect(actions[0]).toMatchObject({ kind: 'camera', mode: 'key', properties: { beat: 30, azimuthDeg: 90 } });
+    expect(actions[1]).toMatchObject({ kind: 'at', action: { kind: 'camera', mode: 'orbit' } });
+  });
+
+  it.each([
+    ['MAKE cube a', 'Unknown asset "cube"'],
+    ['MAKE sphere a\nMAKE sphere a', 'Instance "a" is already declared'],
+    ['JUMP a', 'Unknown command "JUMP"'],
+    ['STYLE a', 'STYLE requires at least one key=value pair'],
+    ['STYLE a opacity=1 opacity=2', 'Duplicate property "opacity"'],
+    ['AT -1 DELETE a', 'AT beat must not be negative'],
+    ['AT 1 AT 2 DELETE a', 'AT statements cannot be nested'],
+    ['MAKE sphere a visible=3', 'Property "visible" of sphere expects a boolean'],
+    ['CAMERA spin degreesPerBeat=1', 'Unknown camera mode "spin"'],
+  ])('rejects %j', (source, message) => {
+    expect(() => new Parser().parse(source)).toThrow(ParseError);
+    expect(() => new Parser().parse(source)).toThrow(message);
+  });
+});
+
+describe('compileScene', () => {
+  it('splits assets, ghosts and script actions', () => {
+    const blueprint = compileScene(
+      [
+        'SEGMENT demo name="Demo Scene"',
+        'MAKE ring-twirl k1 ringPlane=GB',
+        'GHOST marker position=[0, 1, 0] color=[1, 0, 0]',
+        'AT 4 DELETE k1',
+      ].join('\n'),
+      'demo.ncmd',
+    );
+
+    expect(blueprint).toMatchObject({ id: 'demo', name: 'Demo Scene', source: 'demo.ncmd' });
+    expect(blueprint.assets).toEqual([{ assetId: 'ring-twirl', instanceId: 'k1', config: { ringPlane: 'GB' } }]);
+    expect(blueprint.ghosts).toEqual([
+      { id: 'marker', position: [0, 1, 0], color: [1, 0, 0], radius: 0.2, opacity: 0.4 },
+    ]);
+    expect(blueprint.script?.map((action) => action.kind)).toEqual(['at']);
+  });
+
+  it('defaults the segment id to the file name and allows one SEGMENT', () => {
+    expect(compileScene('MAKE sphere a', 'scenes/orbit.ncmd').id).toBe('orbit');
+    expect(() => compileScene('SEGMENT a\nSEGMENT b', 'two.ncmd')).toThrow('Only one SEGMENT statement');
+  });
+
+  it('reads viewer settings from the SEGMENT statement', () => {
+    const blueprint = compileScene(
+      'SEGMENT pray cameraLock=true snapToAxis=true speed=12 background=[1, 1, 1] axisY=false elevationDeg=90',
+      'pray.ncmd',
+    );
+    expect(blueprint.settings).toEqual({
+      cameraLock: true,
+      snapToAxis: true,
+      simSpeed: 12,
+      backgroundColor: [1, 1, 1],
+      axisVisibility: { y: false },
+      camera: { elevation: Math.PI / 2 },
+    });
+    expect(compileScene('SEGMENT plain', 'plain.ncmd').settings).toEqual({});
+    expect(() => compileScene('SEGMENT fast speed=240', 'fast.ncmd')).toThrow();
+  });
+});
+
+describe('easing', () => {
+  it('parses named curves and validates bezier control points', () => {
+    expect(parseEasing('ease-out')).toBe('ease-out');
+    expect(parseEasing([0.1, 0.2, 0.3, 0.4])).toEqual([0.1, 0.2, 0.3, 0.4]);
+    expect(parseEasing([1.5, 0, 0.5, 1])).toBeNull();
+    expect(parseEasing('bounce')).toBeNull();
+  });
+
+  it('clamps progress and keeps curve endpoints fixed', () => {
+    expect(applyEasing('linear', 1.5)).toBe(1);
+    expect(applyEasing('step', 0.99)).toBe(0);
+    expect(applyEasing('step', 1)).toBe(1);
+    expect(applyEasing('ease-in-out', 0)).toBe(0);
+    expect(applyEasing('ease-in-out', 1)).toBe(1);
+    expect(applyEasing('ease-in-out', 0.5)).toBeCloseTo(0.5, 4);
+    expect(applyEasing('ease-in', 0.25)).toBeLessThan(0.25);
+    expect(applyEasing('ease-out', 0.25)).toBeGreaterThan(0.25);
+  });
+});
+
+describe('Timeline', () => {
+  function createTimeline() {
+    const writes: Array<[string, AnimatableProperty, number]> = [];
+    const timeline = new Timeline({
+      setProperty: (targetId, property, value) => writes.push([targetId, property, value]),
+    });
+    return { timeline, writes };
+  }
+
+  it('interpolates keyframes and writes the final value once', () => {
+    const { timeline, writes } = createTimeline();
+    timeline.addKeyframe('core', 'opacity', { beat: 0, value: 0 });
+    timeline.addKeyframe('core', 'opacity', { beat: 10, value: 1 });
+
+    expect(timeline.sample('core', 'opacity', 2.5)).toBeCloseTo(0.25);
+    timeline.update(5);
+    timeline.update(12);
+    timeline.update(14);
+    expect(writes).toEqual([
+      ['core', 'opacity', 0.5],
+      ['core', 'opacity', 1],
+    ]);
+  });
+
+  it('fires events in beat order and re-arms them on rewind', () => {
+    const { timeline } = createTimeline();
+    const fired: string[] = [];
+    timeline.schedule(4, () => fired.push('b'), 'b');
+    timeline.schedule(2, () => {
+      fired.push('a');
+      timeline.schedule(3, () => fired.push('nested'), 'nested');
+    }, 'a');
+
+    timeline.update(1);
+    expect(fired).toEqual([]);
+    timeline.update(5);
+    expect(fired).toEqual(['a', 'nested', 'b']);
+
+    timeline.update(2.5);
+    timeline.update(5);
+    expect(fired).toEqual(['a', 'nested', 'b', 'nested', 'b']);
+
+    timeline.rewind();
+    expect(timeline.getEventLabels().every((event) => !event.fired)).toBe(true);
+  });
+
+  it('rejects non-finite keyframes and events', () => {
+    const { timeline } = createTimeline();
+    expect(() => timeline.addKeyframe('core', 'size', { beat: Number.NaN, value: 1 })).toThrow('finite beat');
+    expect(() => timeline.schedule(Number.POSITIVE_INFINITY, () => undefined)).toThrow('non-finite beat');
+  });
+});
@@ -0,0 +1,63 @@
+// frameExport.spec.ts — checks frame naming, pixel row flipping, export uploads, and WebM recorder helpers
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { flipPixelRows, formatFrameName, sanitizeExportName, uploadExport } from '../src/app/frameExport';
+import { formatBurnIn, pickWebmMimeType } from '../src/app/videoRecorder';
+
+describe('frame names', () => {
+  it('pads frame numbers so files sort in order', () => {
+    expect(formatFrameName('RGP_Pray', 7, 120)).toBe('RGP_Pray-00007.png');
+    expect(formatFrameName('clip', 12, 200000)).toBe('clip-000012.png');
+  });
+
+  it('keeps names inside the export directory', () => {
+    expect(sanitizeExportName('../etc/passwd')).toBe('etc-passwd');
+    expect(sanitizeExportName('my scene: take 2')).toBe('my-scene-take-2');
+    expect(sanitizeExportName('   ')).toBe('netty');
+  });
+});
+
+describe('flipPixelRows', () => {
+  it('reverses row order and forces opaque alpha', () => {
+    // Two rows of one pixel each: bottom row red (as WebGL returns it first), top row blue.
+    const pixels = new Uint8Array([255, 0, 0, 128, 0, 0, 255, 0]);
+    expect(Array.from(flipPixelRows(pixels, 1, 2))).toEqual([0, 0, 255, 255, 255, 0, 0, 255]);
+  });
+});
+
+describe('uploadExport', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('posts the blob to the export route with an encoded name', async () => {
+    const fetchMock = vi.fn().mockResolvedValue(new Response('Created', { status: 201 }));
+    vi.stubGlobal('fetch', fetchMock);
+    await uploadExport('frame 1.png', new Blob(['png'], { type: 'image/png' }), 'http://host/export');
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+    const [url, init] = fetchMock.mock.calls[0];
+    expect(url).toBe('http://host/export?name=frame%201.png');
+    expect(init.method).toBe('POST');
+    expect(init.headers).toEqual({ 'Content-Type': 'image/png' });
+  });
+
+  it('reports rejected uploads and unreachable servers', async () => {
+    vi.stubGlobal('fetch', vi.fn().mockResolvedValue(new Response('Invalid export filename', { status: 400 })));
+    await expect(uploadExport('x.png', new Blob([]), 'http://host/export')).rejects.toThrow(/400 Invalid export filename/);
+    vi.stubGlobal('fetch', vi.fn().mockRejectedValue(new TypeError('Failed to fetch')));
+    await expect(uploadExport('x.png', new Blob([]), 'http://host/export')).rejects.toThrow(/error-reporter/);
+  });
+});
+
+describe('WebM recorder helpers', () => {
+  it('prefers VP9, falls back to VP8 and plain WebM, and reports no support', () => {
+    expect(pickWebmMimeType(() => true)).toBe('video/webm;codecs=vp9');
+    expect(pickWebmMimeType((type) => type !== 'video/webm;codecs=vp9')).toBe('video/webm;codecs=vp8');
+    expect(pickWebmMimeType((type) => type === 'video/webm')).toBe('video/webm');
+    expect(pickWebmMimeType(() => false)).toBeNull();
+  });
+
+  it('burns in the segment name and whole beat', () => {
+    expect(formatBurnIn('RGP Pray', 127.8)).toBe('RGP Pray · beat 127');
+    expect(formatBurnIn(null, 0)).toBe('No segment · beat 0');
+  });
+});
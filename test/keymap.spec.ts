@@ -0,0 +1,105 @@
+// keymap.spec.ts — checks default bindings, chord parsing, remapping conflicts, and persistence
+import { describe, expect, it } from 'vitest';
+import { KEY_ACTIONS, Keymap, chordFromEvent, describeChord } from '../src/app/keymap';
+
+function createStorage(): Pick<Storage, 'getItem' | 'setItem' | 'removeItem'> & { data: Map<string, string> } {
+  const data = new Map<string, string>();
+  return {
+    data,
+    getItem: (key) => data.get(key) ?? null,
+    setItem: (key, value) => {
+      data.set(key, value);
+    },
+    removeItem: (key) => {
+      data.delete(key);
+    },
+  };
+}
+
+function keyEvent(code: string, modifiers: { ctrl?: boolean; alt?: boolean; shift?: boolean; meta?: boolean } = {}) {
+  return {
+    code,
+    ctrlKey: modifiers.ctrl ?? false,
+    altKey: modifiers.alt ?? false,
+    shiftKey: modifiers.shift ?? false,
+    metaKey: modifiers.meta ?? false,
+  };
+}
+
+describe('keymap defaults', () => {
+  it('never binds one chord to two actions', () => {
+    const chords = KEY_ACTIONS.flatMap((action) => action.defaultKeys);
+    expect(new Set(chords).size).toBe(chords.length);
+  });
+
+  it('maps the documented keys', () => {
+    const keymap = new Keymap(null);
+    expect(keymap.findAction('Space')).toBe('playPause');
+    expect(keymap.findAction('Digit3')).toBe('segment3');
+    expect(keymap.findAction('KeyX')).toBe('lookX');
+    expect(keymap.findAction('BracketLeft')).toBe('slower');
+    expect(keymap.findAction('BracketRight')).toBe('faster');
+    expect(keymap.findAction('Shift+Digit2')).toBe('recallBookmark2');
+    expect(keymap.findAction('KeyQ')).toBeNull();
+  });
+});
+
+describe('chords', () => {
+  it('orders modifiers and ignores bare modifier presses', () => {
+    expect(chordFromEvent(keyEvent('KeyX', { shift: true, ctrl: true }))).toBe('Ctrl+Shift+KeyX');
+    expect(chordFromEvent(keyEvent('ShiftLeft', { shift: true }))).toBeNull();
+    expect(chordFromEvent(keyEvent('Space'))).toBe('Space');
+  });
+
+  it('describes chords with the printed key', () => {
+    expect(describeChord('Shift+Digit1')).toBe('Shift+1');
+    expect(describeChord('BracketLeft')).toBe('[');
+    expect(describeChord('Alt+KeyZ')).toBe('Alt+Z');
+  });
+});
+
+describe('remapping', () => {
+  it('moves a chord away from its previous action', () => {
+    const keymap = new Keymap(null);
+    keymap.rebind('reset', 'Space');
+    expect(keymap.findAction('Space')).toBe('reset');
+    expect(keymap.getBindings('playPause')).toEqual([]);
+    expect(keymap.findAction('KeyR')).toBeNull();
+  });
+
+  it('persists only remapped actions and restores them', () => {
+    const storage = createStorage();
+    const keymap = new Keymap(storage);
+    keymap.rebind('faster', 'Equal');
+
+    const stored = JSON.parse(storage.data.get('nettysimulation.keymap.v1') ?? '{}');
+    expect(stored).toEqual({ faster: ['Equal'] });
+
+    const restored = new Keymap(storage);
+    expect(restored.findAction('Equal')).toBe('faster');
+    expect(restored.findAction('BracketRight')).toBeNull();
+    expect(restored.isCustomized('faster')).toBe(true);
+    expect(restored.isCustomized('slower')).toBe(false);
+  });
+
+  it('resets to the defaults and clears storage', () => {
+    const storage = createStorage();
+    const keymap = new Keymap(storage);
+    let changes = 0;
+    keymap.onChange(() => {
+      changes += 1;
+    });
+    keymap.rebind('playPause', 'KeyP');
+    keymap.resetToDefaults();
+    expect(changes).toBe(2);
+    expect(keymap.findAction('Space')).toBe('playPause');
+    expect(storage.data.size).toBe(0);
+  });
+
+  it('rejects unknown actions and ignores malformed storage', () => {
+    expect(() => new Keymap(null).rebind('nope', 'KeyA')).toThrow(/Unknown key action/);
+    const storage = createStorage();
+    storage.setItem('nettysimulation.keymap.v1', '{"playPause": 7, "ghost": ["KeyA"]');
+    expect(new Keymap(storage).findAction('Space')).toBe('playPause');
+  });
+});
@@ -0,0 +1,141 @@
+// math3d.spec.ts — checks vector helpers and column-major matrix builders
+import { describe, expect, it } from 'vitest';
+import {
+  addVec3,
+  clamp,
+  crossVec3,
+  lengthVec3,
+  mat3FromMat4,
+  mat4FromXRotation,
+  mat4FromYRotation,
+  mat4FromZRotation,
+  mat4Identity,
+  mat4Invert,
+  mat4LookAt,
+  mat4Multiply,
+  mat4Orthographic,
+  mat4Perspective,
+  mat4Scale,
+  mat4ScaleUniform,
+  normalizeTuple,
+  normalizeVec3,
+  scaleVec3,
+  sphericalToCartesian,
+  transformDirection,
+  transformPoint,
+  type Vec3,
+} from '../src/app/math3d';
+
+function transformHomogeneous(matrix: Float32Array, [x, y, z]: Vec3): [number, number, number, number] {
+  return [0, 1, 2, 3].map(
+    (row) => matrix[row] * x + matrix[4 + row] * y + matrix[8 + row] * z + matrix[12 + row],
+  ) as [number, number, number, number];
+}
+
+function expectCloseArray(actual: ArrayLike<number>, expected: ArrayLike<number>): void {
+  expect(actual.length).toBe(expected.length);
+  for (let i = 0; i < expected.length; i += 1) {
+    expect(actual[i]).toBeCloseTo(expected[i], 5);
+  }
+}
+
+describe('vector helpers', () => {
+  it('clamps values into range', () => {
+    expect(clamp(5, 0, 1)).toBe(1);
+    expect(clamp(-5, 0, 1)).toBe(0);
+    expect(clamp(0.5, 0, 1)).toBe(0.5);
+  });
+
+  it('adds, scales and measures vectors', () => {
+    expect(addVec3([1, 2, 3], [4, 5, 6])).toEqual([5, 7, 9]);
+    expect(scaleVec3([1, -2, 3], 2)).toEqual([2, -4, 6]);
+    expect(lengthVec3([2, 3, 6])).toBe(7);
+  });
+
+  it('follows the right-hand rule for cross products', () => {
+    expect(crossVec3([1, 0, 0], [0, 1, 0])).toEqual([0, 0, 1]);
+    expect(crossVec3([0, 1, 0], [1, 0, 0])).toEqual([0, 0, -1]);
+  });
+
+  it('normalizes without dividing by zero', () => {
+    expectCloseArray(normalizeTuple([0, 3, 4]), [0, 0.6, 0.8]);
+    expect(normalizeTuple([0, 0, 0])).toEqual([0, 0, 0]);
+    expect(normalizeVec3([0, 0, 5])).toBeInstanceOf(Float32Array);
+    expectCloseArray(normalizeVec3([0, 0, 5]), [0, 0, 1]);
+  });
+
+  it('converts spherical coordinates around a target', () => {
+    expectCloseArray(sphericalToCartesian(2, 0, 0, [1, 1, 1]), [1, 1, 3]);
+    expectCloseArray(sphericalToCartesian(2, Math.PI / 2, 0, [0, 0, 0]), [2, 0, 0]);
+    expectCloseArray(sphericalToCartesian(2, 0, Math.PI / 2, [0, 0, 0]), [0, 2, 0]);
+  });
+});
+
+describe('matrix builders', () => {
+  it('leaves points unchanged under identity', () => {
+    expect(transformHomogeneous(mat4Identity(), [1, 2, 3])).toEqual([1, 2, 3, 1]);
+  });
+
+  it('rotates about each axis', () => {
+    const quarter = Math.PI / 2;
+    expectCloseArray(transformHomogeneous(mat4FromYRotation(quarter), [1, 0, 0]), [0, 0, -1, 1]);
+    expectCloseArray(transformHomogeneous(mat4FromXRotation(quarter), [0, 1, 0]), [0, 0, -1, 1]);
+    expectCloseArray(transformHomogeneous(mat4FromZRotation(quarter), [1, 0, 0]), [0, -1, 0, 1]);
+  });
+
+  it('undoes a rotation with its opposite angle', () => {
+    for (const rotate of [mat4FromXRotation, mat4FromYRotation, mat4FromZRotation]) {
+      expectCloseArray(mat4Multiply(rotate(0.7), rotate(-0.7)), mat4Identity());
+    }
+  });
+
+  it('multiplies so the right-hand matrix applies first', () => {
+    const combined = mat4Multiply(mat4ScaleUniform(2), mat4FromYRotation(Math.PI / 2));
+    expectCloseArray(transformHomogeneous(combined, [1, 0, 0]), [0, 0, -2, 1]);
+    expectCloseArray(transformHomogeneous(mat4Scale(1, 2, 3), [1, 1, 1]), [1, 2, 3, 1]);
+  });
+
+  it('inverts affine and projective matrices', () => {
+    const model = mat4Multiply(mat4FromYRotation(0.4), mat4Scale(2, 3, 4));
+    expectCloseArray(mat4Multiply(model, mat4Invert(model)!), mat4Identity());
+    const projection = mat4Perspective(1, 1.5, 0.1, 50);
+    expectCloseArray(mat4Multiply(mat4Invert(projection)!, projection), mat4Identity());
+    expect(mat4Invert(mat4Scale(1, 0, 1))).toBeNull();
+  });
+
+  it('transforms points with the perspective divide and directions without translation', () => {
+    const model = mat4Scale(2, 2, 2);
+    model[12] = 5;
+    expectCloseArray(transformPoint(model, [1, 2, 3]), [7, 4, 6]);
+    expectCloseArray(transformDirection(model, [1, 2, 3]), [2, 4, 6]);
+    const projection = mat4Perspective(Math.PI / 2, 1, 1, 10);
+    expectCloseArray(transformPoint(projection, [0, 0, -10]), [0, 0, 1]);
+  });
+
+  it('extracts the upper-left 3×3 block', () => {
+    const matrix = Float32Array.from({ length: 16 }, (_, index) => index);
+    expect(Array.from(mat3FromMat4(matrix))).toEqual([0, 1, 2, 4, 5, 6, 8, 9, 10]);
+  });
+
+  it('maps the near and far planes to the clip-space depth range', () => {
+    const projection = mat4Perspective(Math.PI / 2, 1, 1, 10);
+    const near = transformHomogeneous(projection, [0, 0, -1]);
+    const far = transformHomogeneous(projection, [0, 0, -10]);
+    expect(near[2] / near[3]).toBeCloseTo(-1, 5);
+    expect(far[2] / far[3]).toBeCloseTo(1, 5);
+  });
+
+  it('maps the orthographic box onto the clip cube', () => {
+    const projection = mat4Orthographic(-2, 4, -1, 3, 1, 11);
+    expectCloseArray(transformHomogeneous(projection, [-2, -1, -1]), [-1, -1, -1, 1]);
+    expectCloseArray(transformHomogeneous(projection, [4, 3, -11]), [1, 1, 1, 1]);
+    expectCloseArray(transformHomogeneous(projection, [1, 1, -6]), [0, 0, 0, 1]);
+  });
+
+  it('places the eye at the origin looking down -Z', () => {
+    const view = mat4LookAt([0, 0, 5], [0, 0, 0], [0, 1, 0]);
+    expectCloseArray(transformHomogeneous(view, [0, 0, 5]), [0, 0, 0, 1]);
+    expectCloseArray(transformHomogeneous(view, [0, 0, 0]), [0, 0, -5, 1]);
+    expectCloseArray(transformHomogeneous(view, [0, 1, 5]), [0, 1, 0, 1]);
+  });
+});
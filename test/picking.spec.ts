@@ -0,0 +1,67 @@
+// picking.spec.ts — checks viewport rays and shape intersection used for click selection
+import { describe, expect, it } from 'vitest';
+import { mat4LookAt, mat4Perspective, mat4Scale, mat4ScaleUniform, mat4Multiply, mat4FromXRotation } from '../src/app/math3d';
+import { TWIRL_MESH_HALF_HEIGHT, createPickRay, pickNearest, type PickCandidate } from '../src/app/picking';
+
+const bounds = { left: 0, top: 0, width: 200, height: 100 } as DOMRect;
+const view = mat4LookAt([0, 0, 10], [0, 0, 0], [0, 1, 0]);
+const projection = mat4Perspective(Math.PI / 3, 2, 0.1, 100);
+
+function translation(x: number, y: number, z: number): Float32Array {
+  const matrix = mat4ScaleUniform(1);
+  matrix[12] = x;
+  matrix[13] = y;
+  matrix[14] = z;
+  return matrix;
+}
+
+describe('createPickRay', () => {
+  it('shoots from the camera through the viewport centre', () => {
+    const ray = createPickRay(100, 50, bounds, view, projection)!;
+    const length = Math.hypot(...ray.direction);
+    expect(ray.origin[2]).toBeCloseTo(9.9, 4);
+    expect(ray.direction[0] / length).toBeCloseTo(0, 5);
+    expect(ray.direction[1] / length).toBeCloseTo(0, 5);
+    expect(ray.direction[2] / length).toBeCloseTo(-1, 5);
+  });
+
+  it('maps screen up to world up', () => {
+    const ray = createPickRay(100, 0, bounds, view, projection)!;
+    expect(ray.direction[1]).toBeGreaterThan(0);
+  });
+
+  it('returns null for an empty viewport', () => {
+    expect(createPickRay(0, 0, { ...bounds, width: 0 } as DOMRect, view, projection)).toBeNull();
+  });
+});
+
+describe('pickNearest', () => {
+  const centreRay = createPickRay(100, 50, bounds, view, projection)!;
+
+  it('prefers the shape the ray reaches first', () => {
+    const candidates: PickCandidate<string>[] = [
+      { value: 'far', modelMatrix: translation(0, 0, -3), shape: { kind: 'sphere' } },
+      { value: 'near', modelMatrix: translation(0, 0, 3), shape: { kind: 'sphere' } },
+    ];
+    expect(pickNearest(centreRay, candidates)).toBe('near');
+  });
+
+  it('misses shapes off the ray', () => {
+    expect(pickNearest(centreRay, [{ value: 'side', modelMatrix: translation(5, 0, 0), shape: { kind: 'sphere' } }])).toBeNull();
+  });
+
+  it('looks through the hole of a band seen along its axis but hits it edge-on', () => {
+    const band = { kind: 'band', halfHeight: TWIRL_MESH_HALF_HEIGHT } as const;
+    const faceOn = mat4Multiply(mat4FromXRotation(Math.PI / 2), mat4Scale(2, 0.2, 2));
+    expect(pickNearest(centreRay, [{ value: 'ring', modelMatrix: faceOn, shape: band }])).toBeNull();
+    expect(pickNearest(centreRay, [{ value: 'ring', modelMatrix: mat4Scale(2, 0.2, 2), shape: band }])).toBe('ring');
+  });
+
+  it('hits figure-8 lobes but not the notch above the crossing', () => {
+    const shape = { kind: 'figure8', halfWidth: 2, halfHeight: 0.5 } as const;
+    const lobe = createPickRay(110, 50, bounds, view, projection)!;
+    expect(pickNearest(lobe, [{ value: 'twirl8', modelMatrix: mat4ScaleUniform(1), shape }])).toBe('twirl8');
+    const notch = createPickRay(100, 46, bounds, view, projection)!;
+    expect(pickNearest(notch, [{ value: 'twirl8', modelMatrix: mat4ScaleUniform(1), shape }])).toBeNull();
+  });
+});
@@ -0,0 +1,186 @@
+// segments.spec.ts — checks asset builds and segment expansion produce loadable object definitions
+import { describe, expect, it } from 'vitest';
+import { getAssetDefinition, instantiateAsset, listAssetDefinitions, nextAssetInstanceId } from '../src/assets/registry';
+import { AXES, SPIN_PLANES, type SimObjectDefinition } from '../src/engine/assets/simTypes';
+import { SEGMENT_BLUEPRINTS, buildAllSegments } from '../src/segments';
+import { Simulation } from '../src/sim/World';
+
+type FieldCheck = (value: unknown) => boolean;
+type DefinitionOf<TType extends SimObjectDefinition['type']> = Extract<SimObjectDefinition, { type: TType }>;
+
+// Fields each definition type must carry, with the check the renderer and world rely on. Keys are
+// typed against the definition, so a renamed field fails to compile.
+const REQUIRED_FIELDS: { [TType in SimObjectDefinition['type']]: Partial<Record<keyof DefinitionOf<TType>, FieldCheck>> } = {
+  sphere: { speedPerTick: isFiniteNumber, direction: isDirection, plane: isPlane, shellSize: isPositive, baseColor: isString },
+  twirl: {
+    speedPerTick: isFiniteNumber,
+    direction: isDirection,
+    plane: isPlane,
+    shellSize: isPositive,
+    baseColor: isString,
+    beltHalfAngle: isPositive,
+    pulsesPerRevolution: isFiniteNumber,
+  },
+  'twirling-axis': { speedPerTick: isFiniteNumber, direction: isDirection },
+  rgpXY: { size: isPositive },
+  twirl8: { axis: isAxis, radius: isPositive, color: isString },
+  dexel: { axis: isAxis, sign: isDirection, size: isPositive },
+};
+
+function isFiniteNumber(value: unknown): boolean {
+  return typeof value === 'number' && Number.isFinite(value);
+}
+
+function isPositive(value: unknown): boolean {
+  return isFiniteNumber(value) && (value as number) > 0;
+}
+
+function isDirection(value: unknown): boolean {
+  return value === 1 || value === -1;
+}
+
+function isPlane(value: unknown): boolean {
+  return (SPIN_PLANES as ReadonlyArray<unknown>).includes(value);
+}
+
+function isAxis(value: unknown): boolean {
+  return (AXES as ReadonlyArray<unknown>).includes(value);
+}
+
+function isString(value: unknown): boolean {
+  return typeof value === 'string' && value.length > 0;
+}
+
+function expectValidDefinition(definition: SimObjectDefinition): void {
+  const checks = REQUIRED_FIELDS[definition.type];
+  expect(checks, `unknown type ${definition.type}`).toBeDefined();
+  expect(isString(definition.id)).toBe(true);
+  expectFields(definition, checks);
+}
+
+function expectFields<TDefinition extends SimObjectDefinition>(
+  definition: TDefinition,
+  checks: Partial<Record<keyof TDefinition, FieldCheck>>,
+): void {
+  for (const field of Object.keys(checks) as Array<keyof TDefinition>) {
+    const value = definition[field];
+    expect(checks[field]?.(value), `${definition.id}.${String(field)} = ${JSON.stringify(value)}`).toBe(true);
+  }
+}
+
+describe('asset registry', () => {
+  it.each(listAssetDefinitions().map((asset) => [asset.id, asset] as const))(
+    '%s builds valid definitions from its defaults',
+    (assetId, asset) => {
+      const { simObjects } = asset.build({ instanceId: `${assetId}-test`, config: {} });
+      expect(simObjects.length).toBeGreaterThan(0);
+      simObjects.forEach(expectValidDefinition);
+      expect(new Set(simObjects.map((object) => object.id)).size).toBe(simObjects.length);
+
+      const world = new Simulation();
+      world.load(simObjects);
+      expect(world.objects.map((object) => object.id)).toEqual(simObjects.map((object) => object.id));
+    },
+  );
+
+  it('applies config overrides on top of defaults', () => {
+    const [ring, twirl] = instantiateAsset('pair', 'ring-twirl', { ringPlane: 'YG', direction: -1 }).simObjects;
+    expect(ring).toMatchObject({ id: 'pair-ring', type: 'twirl', plane: 'YG', direction: -1, groupId: 'pair' });
+    expect(twirl).toMatchObject({ id: 'pair-twirl8', type: 'twirl8', direction: -1, groupRole: 'twirl8' });
+  });
+
+  it.each(listAssetDefinitions().map((asset) => [asset.id, asset] as const))(
+    'declares an editor for every default of %s that accepts the default value',
+    (_id, asset) => {
+      for (const [key, value] of Object.entries(asset.defaultConfig)) {
+        const field = asset.fields[key];
+        expect(field, key).toBeDefined();
+        if (field.kind === 'choice') {
+          expect(field.options, key).toContain(value);
+        } else {
+          expect(typeof value, key).toBe(field.kind === 'text' ? 'string' : field.kind);
+        }
+      }
+    },
+  );
+
+  it('picks the first instance id whose objects are all free', () => {
+    const taken = new Set(['sphere-1', 'ring-twirl-1-twirl8']);
+    expect(nextAssetInstanceId('sphere', (id) => taken.has(id))).toBe('sphere-2');
+    expect(nextAssetInstanceId('ring-twirl', (id) => taken.has(id))).toBe('ring-twirl-2');
+    expect(nextAssetInstanceId('dexel', (id) => taken.has(id))).toBe('dexel-1');
+  });
+
+  it('throws for unknown assets', () => {
+    expect(() => getAssetDefinition('cube')).toThrow('Asset cube is not registered.');
+  });
+});
+
+describe('buildAllSegments', () => {
+  it('expands nested children depth-first after their parent', () => {
+    const [segment] = buildAllSegments([
+      {
+        id: 'nested',
+        name: 'Nested',
+        assets: [
+          {
+            assetId: 'rgpXY',
+            instanceId: 'root',
+            children: [
+              {
+                assetId: 'ring-twirl',
+                instanceId: 'pair',
+                children: [{ assetId: 'dexel', instanceId: 'leaf', config: { anchorId: 'root' } }],
+              },
+              { assetId: 'sphere', instanceId: 'shell' },
+            ],
+          },
+          { assetId: 'twirling-axis', instanceId: 'axis' },
+        ],
+      },
+    ]);
+
+    expect(segment.error).toBeUndefined();
+    expect(segment.assets.map((asset) => asset.instanceId)).toEqual(['root', 'pair', 'leaf', 'shell', 'axis']);
+    expect(segment.objects.map((object) => object.id)).toEqual([
+      'root',
+      'pair-ring',
+      'pair-twirl8',
+      'leaf',
+      'shell',
+      'axis',
+    ]);
+    segment.objects.forEach(expectValidDefinition);
+  });
+
+  it('reports build failures on the segment instead of throwing', () => {
+    const [segment] = buildAllSegments([
+      { id: 'broken', name: 'Broken', assets: [{ assetId: 'sphere', instanceId: 'a', children: [{ assetId: 'cube', instanceId: 'b' }] }] },
+    ]);
+    expect(segment.error).toBe('Asset cube is not registered.');
+    expect(segment.objects).toEqual([]);
+  });
+
+  it('passes segment settings through and defaults them to none', () => {
+    const [locked, plain] = buildAllSegments([
+      { id: 'locked', name: 'Locked', assets: [], settings: { cameraLock: true, simSpeed: 20 } },
+      { id: 'plain', name: 'Plain', assets: [] },
+    ]);
+    expect(locked.settings).toEqual({ cameraLock: true, simSpeed: 20 });
+    expect(plain.settings).toEqual({});
+  });
+
+  it('builds every registered segment into loadable objects', () => {
+    const segments = buildAllSegments();
+    expect(segments.slice(0, SEGMENT_BLUEPRINTS.length).map((segment) => segment.id)).toEqual(
+      SEGMENT_BLUEPRINTS.map((blueprint) => blueprint.id),
+    );
+    expect(new Set(segments.map((segment) => segment.id)).size).toBe(segments.length);
+
+    for (const segment of segments) {
+      expect(segment.error, segment.id).toBeUndefined();
+      segment.objects.forEach(expectValidDefinition);
+      new Simulation().load(segment.objects);
+    }
+  });
+});
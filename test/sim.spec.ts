@@ -1,2 +1,492 @@
-// sim.spec.ts — placeholder tests for simulation kernels and coupling
-export {}; // TODO: Add Vitest suites validating simulation behaviors.
+// sim.spec.ts — headless checks for the simulation world, rotation scripts, ring pulse phases, and ghost trails
+import { describe, expect, it } from 'vitest';
+import { Time } from '../src/engine/Time';
+import {
+  ROTATION_PER_BEAT,
+  Simulation,
+  parseRotationScript,
+  updateRgpPulse,
+  createRgpRingState,
+  getRgpRingPole,
+  getRgpRingRadius,
+  getTwirl8Pulse,
+  type DexelObject,
+  type RgpXYObject,
+  type SphereObject,
+  type TwirlObject,
+  type Twirl8Object,
+  type TwirlingAxisObject,
+} from '../src/sim/World';
+import type { SimObjectDefinition } from '../src/engine/assets/simTypes';
+import { GHOST_VERTEX_FLOATS, GhostTrails, MAX_GHOST_PARTICLES } from '../src/sim/GhostTrails';
+
+// 30 beats/sec at 60 ticks/sec: every tick advances half a beat.
+function runTicks(world: Simulation, ticks: number): Time {
+  const time = new Time({ beatsPerSecond: 30 });
+  time.onTick((step) => world.step(step.beats));
+  time.step(ticks);
+  return time;
+}
+
+function loadWorld(definitions: SimObjectDefinition[]): Simulation {
+  const world = new Simulation();
+  world.load(definitions);
+  return world;
+}
+
+describe('parseRotationScript', () => {
+  it('parses signed axis tokens into steps', () => {
+    const { steps } = parseRotationScript('+X90 -Y45 +z180');
+    expect(steps).toEqual([
+      { axis: 'x', direction: 1, angleDeg: 90 },
+      { axis: 'y', direction: -1, angleDeg: 45 },
+      { axis: 'z', direction: 1, angleDeg: 180 },
+    ]);
+  });
+
+  it('normalizes case and whitespace', () => {
+    expect(parseRotationScript('  +x90\t-y90\n+Z30 ').normalized).toBe('+X90 -Y90 +Z30');
+  });
+
+  it('rejects empty scripts', () => {
+    expect(() => parseRotationScript('')).toThrow('Rotation script is empty');
+    expect(() => parseRotationScript('   ')).toThrow('Rotation script is empty');
+  });
+
+  it.each(['X90', '+W90', '+X', '+X9.5', '+X-90', '++X90'])('rejects malformed token %s', (token) => {
+    expect(() => parseRotationScript(token)).toThrow(`Invalid token: ${token}`);
+  });
+
+  it('rejects zero angles', () => {
+    expect(() => parseRotationScript('+X0')).toThrow('Invalid angle in token: +X0');
+  });
+});
+
+describe('updateRgpPulse', () => {
+  it('walks the triangle wave and flips direction on contraction', () => {
+    const ring = createRgpRingState({
+      shellScale: 1,
+      speedPerTick: 1,
+      direction: 1,
+      plane: 'GB',
+      baseColor: 'white',
+      shadingIntensity: 0.35,
+      opacity: 1,
+      beltHalfAngle: 0.18,
+      pulsesPerRevolution: 1,
+      initialRotationY: 0,
+      initialPulsePhase: 0.5,
+      initialPulseScale: 1,
+      invertPulse: false,
+      visible: true,
+    });
+
+    // A quarter revolution (45 beats) at one pulse per revolution is a quarter cycle.
+    updateRgpPulse(ring, 45);
+    expect(ring.pulsePhase).toBeCloseTo(0.75);
+    expect(ring.pulseScale).toBeCloseTo(0.5);
+    expect(ring.direction).toBe(1);
+
+    updateRgpPulse(ring, 45);
+    expect(ring.pulsePhase).toBeCloseTo(0);
+    expect(ring.contracted).toBe(true);
+    expect(ring.direction).toBe(-1);
+
+    updateRgpPulse(ring, 45);
+    expect(ring.contracted).toBe(false);
+    expect(ring.direction).toBe(-1);
+  });
+
+  it('leaves rings with no pulse speed untouched', () => {
+    const ring = createRgpRingState({
+      shellScale: 1,
+      speedPerTick: 1,
+      direction: 1,
+      plane: 'YG',
+      baseColor: 'red',
+      shadingIntensity: 0.45,
+      opacity: 1,
+      beltHalfAngle: 0.22,
+      pulsesPerRevolution: 0,
+      initialRotationY: 0,
+      initialPulsePhase: 0.3,
+      initialPulseScale: 0.6,
+      invertPulse: false,
+      visible: true,
+    });
+    updateRgpPulse(ring, 10);
+    expect(ring.pulsePhase).toBe(0.3);
+    expect(ring.pulseScale).toBe(0.6);
+  });
+});
+
+describe('Simulation golden states', () => {
+  it('advances RGP ring pulses and rotations over 120 beats', () => {
+    const world = loadWorld([{ type: 'rgpXY', id: 'rgp-xy', size: 24 }]);
+    runTicks(world, 240);
+    const rgp = world.findObject('rgp-xy') as RgpXYObject;
+
+    // 120 beats is two thirds of a revolution at one pulse per revolution.
+    expect(rgp.primary.pulsePhase).toBeCloseTo(2 / 3, 6);
+    expect(rgp.primary.pulseScale).toBeCloseTo(2 / 3, 6);
+    expect(rgp.primary.direction).toBe(1);
+    expect(rgp.primary.rotationY).toBeCloseTo(Math.PI / 6 + 120 * ROTATION_PER_BEAT, 6);
+
+    // The secondary ring starts half a cycle ahead and contracts on tick 177, reversing its spin.
+    expect(rgp.secondary.pulsePhase).toBeCloseTo(1 / 6, 6);
+    expect(rgp.secondary.pulseScale).toBeCloseTo(1 / 3, 6);
+    expect(rgp.secondary.direction).toBe(-1);
+    expect(rgp.secondary.rotationY).toBeCloseTo(Math.PI / 6 + (177 - 63) * 0.5 * ROTATION_PER_BEAT, 6);
+  });
+
+  it('inverts the pulse of twirls flagged invertPulse', () => {
+    const base = {
+      type: 'twirl',
+      speedPerTick: 1,
+      direction: 1,
+      plane: 'GB',
+      shellSize: 24,
+      baseColor: 'white',
+      beltHalfAngle: 0.18,
+      pulsesPerRevolution: 1.5,
+    } as const;
+    const world = loadWorld([
+      { ...base, id: 'white-ring', invertPulse: true },
+      { ...base, id: 'plain-ring' },
+    ]);
+    runTicks(world, 60);
+
+    const white = world.findObject('white-ring') as TwirlObject;
+    const plain = world.findObject('plain-ring') as TwirlObject;
+    expect(white.pulsePhase).toBeCloseTo(0.25, 6);
+    expect(plain.pulsePhase).toBeCloseTo(0.25, 6);
+    expect(plain.pulseScale).toBeCloseTo(0.25 + 0.75 * 0.5, 6);
+    expect(white.pulseScale).toBeCloseTo(0.25 + 0.75 * 0.5, 6);
+
+    runTicks(world, 60);
+    expect(plain.pulseScale).toBeCloseTo(1, 6);
+    expect(white.pulseScale).toBeCloseTo(0.25, 6);
+  });
+
+  it('locks pulses to the ring spin whatever the step size', () => {
+    const ring = { type: 'twirl', id: 'ring', direction: 1, plane: 'GB', shellSize: 24, baseColor: 'white', beltHalfAngle: 0.18 } as const;
+    const world = loadWorld([
+      { ...ring, id: 'slow', speedPerTick: 1, pulsesPerRevolution: 2 },
+      { ...ring, id: 'fast', speedPerTick: 2, pulsesPerRevolution: 1 },
+    ]);
+    const coarse = loadWorld([{ ...ring, id: 'slow', speedPerTick: 1, pulsesPerRevolution: 2 }]);
+
+    for (let beat = 0; beat < 45; beat += 1) {
+      world.step(1);
+    }
+    coarse.step(45);
+
+    // A quarter turn at two pulses per revolution is half a cycle; doubling the spin matches it.
+    const slow = world.findObject('slow') as TwirlObject;
+    expect(slow.pulsePhase).toBeCloseTo(0.5, 9);
+    expect((world.findObject('fast') as TwirlObject).pulsePhase).toBeCloseTo(0.5, 9);
+    expect((coarse.findObject('slow') as TwirlObject).pulsePhase).toBeCloseTo(slow.pulsePhase, 9);
+  });
+
+  it('steps twirling-axis scripts once per beat and emits ghosts', () => {
+    const world = loadWorld([
+      { type: 'twirling-axis', id: 'axis', speedPerTick: 1, direction: 1, rotationScript: '+X90 -Y90' },
+    ]);
+    runTicks(world, 5);
+    const axis = world.findObject('axis') as TwirlingAxisObject;
+
+    expect(axis.scriptIndex).toBe(0);
+    expect(axis.beatAccumulator).toBeCloseTo(0.5);
+    expect(axis.rotationX).toBeCloseTo(Math.PI / 2);
+    expect(axis.rotationY).toBeCloseTo(Math.PI / 2);
+    expect(axis.currentDirection).toBe(1);
+    expect(world.ghostParticles).toHaveLength(4);
+  });
+
+  it('skips hidden objects', () => {
+    const world = loadWorld([
+      { type: 'sphere', id: 'hidden', speedPerTick: 1, direction: 1, plane: 'YG', shellSize: 32, baseColor: 'azure', visible: false },
+    ]);
+    runTicks(world, 120);
+    expect((world.findObject('hidden') as SphereObject).rotationY).toBe(0);
+  });
+});
+
+describe('Dexel lattice', () => {
+  const cells = (world: Simulation) => world.getLatticeDexels('rgp').map((dexel) => dexel.lattice!.cell.join(','));
+
+  it('grows one generation at a time along the remaining axes', () => {
+    const world = loadWorld([{ type: 'rgpXY', id: 'rgp', size: 24, latticeDepth: 2 }]);
+    const rgp = world.findObject('rgp') as RgpXYObject;
+
+    expect(world.growDexelLattice(rgp)).toBe(2);
+    expect(cells(world)).toEqual(['0,1,0', '0,-1,0']);
+
+    expect(world.growDexelLattice(rgp)).toBe(8);
+    expect(world.getLatticeDexels('rgp').slice(2).every((dexel) => dexel.lattice!.depth === 2 && dexel.axis !== 'y')).toBe(true);
+    expect(new Set(cells(world)).size).toBe(10);
+
+    const spacing = 2 * getRgpRingRadius(24, rgp.primary, 1);
+    const corner = world.getLatticeDexels('rgp').find((dexel) => dexel.lattice!.cell.join(',') === '1,1,0')!;
+    expect(Array.from(corner.position)).toEqual([spacing, spacing, 0].map((value) => Math.fround(value)));
+
+    expect(world.growDexelLattice(rgp)).toBe(0);
+  });
+
+  it('stops at the budget and skips cells taken by dexel assets', () => {
+    const world = loadWorld([
+      { type: 'rgpXY', id: 'rgp', size: 24, latticeBudget: 5 },
+      { type: 'dexel', id: 'asset', axis: 'y', sign: 1, size: 24, anchorId: 'rgp' },
+    ]);
+    const rgp = world.findObject('rgp') as RgpXYObject;
+
+    expect(world.growDexelLattice(rgp)).toBe(1);
+    expect(cells(world)).toEqual(['0,-1,0']);
+    expect(world.spawnDexel(rgp)).toBe(false);
+    expect(world.growDexelLattice(rgp)).toBe(4);
+    expect(world.growDexelLattice(rgp)).toBe(0);
+    expect(world.getLatticeDexels('rgp')).toHaveLength(5);
+  });
+
+  it('keeps spawned dexels clear of every RGP in the scene', () => {
+    const world = loadWorld([
+      { type: 'rgpXY', id: 'rgp', size: 24 },
+      { type: 'rgpXY', id: 'large', size: 48 },
+    ]);
+    const rgp = world.findObject('rgp') as RgpXYObject;
+    expect(world.spawnDexel(rgp)).toBe(false);
+    expect(world.growDexelLattice(rgp)).toBe(0);
+
+    const small = loadWorld([
+      { type: 'rgpXY', id: 'rgp', size: 24 },
+      { type: 'rgpXY', id: 'small', size: 12 },
+    ]);
+    expect(small.growDexelLattice(small.findObject('rgp') as RgpXYObject)).toBe(2);
+  });
+
+  it('auto-grows every N beats', () => {
+    const world = loadWorld([{ type: 'rgpXY', id: 'rgp', size: 24, autoGrowBeats: 10 }]);
+    runTicks(world, 19);
+    expect(world.getLatticeDexels('rgp')).toHaveLength(0);
+    runTicks(world, 1);
+    expect(world.getLatticeDexels('rgp')).toHaveLength(2);
+    runTicks(world, 20);
+    expect(world.getLatticeDexels('rgp')).toHaveLength(10);
+  });
+
+  it('spawns dexels as sim objects that go with their RGP', () => {
+    const world = loadWorld([
+      { type: 'rgpXY', id: 'rgp', size: 24 },
+      { type: 'dexel', id: 'asset', axis: 'x', sign: 1, size: 24, anchorId: 'rgp' },
+    ]);
+    const rgp = world.findObject('rgp') as RgpXYObject;
+    world.growDexelLattice(rgp);
+    expect(world.objects.map((object) => object.id)).toEqual(['rgp', 'asset', 'rgp-dexel-1', 'rgp-dexel-2']);
+
+    world.removeObject('rgp-dexel-1');
+    world.spawnDexel(rgp);
+    expect(world.findObject('rgp-dexel-3')).toMatchObject({ anchorId: 'rgp', lattice: { depth: 1 } });
+    expect(world.removeLatticeDexels('rgp')).toBe(2);
+    expect(world.findObject('asset')).not.toBeNull();
+
+    world.growDexelLattice(rgp);
+    world.removeObject('rgp');
+    expect(world.objects.map((object) => object.id)).toEqual(['asset']);
+    expect((world.findObject('asset') as DexelObject).anchorId).toBeNull();
+  });
+});
+
+describe('Simulation serialization', () => {
+  it('round-trips through JSON and keeps stepping in lockstep', () => {
+    const world = loadWorld([
+      { type: 'rgpXY', id: 'rgp-xy', size: 24 },
+      { type: 'twirl8', id: 'K1', axis: 'y', radius: 24, color: 'white' },
+      { type: 'twirling-axis', id: 'axis', speedPerTick: 1, direction: 1 },
+      { type: 'dexel', id: 'dexel', axis: 'x', sign: 1, size: 24, anchorId: 'rgp-xy', visible: true },
+    ]);
+    runTicks(world, 90);
+    world.spawnDexel(world.findObject('rgp-xy') as RgpXYObject);
+
+    const json = JSON.stringify(world.serialize());
+    const copy = new Simulation();
+    copy.restore(JSON.parse(json));
+    expect(JSON.stringify(copy.serialize())).toBe(json);
+
+    runTicks(world, 90);
+    runTicks(copy, 90);
+    expect(copy.serialize()).toEqual(world.serialize());
+  });
+
+  it('leaves the world untouched when a snapshot fails to restore', () => {
+    const world = loadWorld([{ type: 'rgpXY', id: 'rgp-xy', size: 24 }]);
+    const broken = { objects: [...world.serialize().objects, { definition: null, state: {} }] };
+    expect(() => world.restore(broken as never)).toThrow();
+    expect(world.objects.map((object) => object.id)).toEqual(['rgp-xy']);
+  });
+
+  it('duplicates objects with their current state under free copy ids', () => {
+    const world = loadWorld([
+      { type: 'rgpXY', id: 'rgp-xy', size: 24 },
+      { type: 'twirl8', id: 'K1', axis: 'y', radius: 24, color: 'white' },
+    ]);
+    runTicks(world, 45);
+    const rgp = world.findObject('rgp-xy') as RgpXYObject;
+    world.spawnDexel(rgp);
+
+    const rgpCopy = world.duplicateObject('rgp-xy') as RgpXYObject;
+    expect(rgpCopy.id).toBe('rgp-xy-copy');
+    expect(rgpCopy.primary).toEqual(rgp.primary);
+    expect(world.duplicateObject('rgp-xy')?.id).toBe('rgp-xy-copy-2');
+    expect(world.getLatticeDexels('rgp-xy-copy')).toHaveLength(0);
+
+    const twirlCopy = world.duplicateObject('K1') as Twirl8Object;
+    expect(twirlCopy.linkedRingType).toBeNull();
+    expect(rgp.primaryTwirl?.id).toBe('K1');
+
+    const dexelCopy = world.duplicateObject('rgp-xy-dexel-1') as DexelObject;
+    expect(dexelCopy.anchorId).toBe('rgp-xy');
+    expect(dexelCopy.lattice?.depth).toBe(2);
+    expect(world.getLatticeDexels('rgp-xy')).toHaveLength(2);
+    for (const dexel of world.objects) {
+      if (dexel.type === 'dexel' && dexel !== dexelCopy) {
+        expect(Array.from(dexelCopy.position)).not.toEqual(Array.from(dexel.position));
+      }
+    }
+    expect(world.duplicateObject('missing')).toBeNull();
+  });
+
+  it('refuses to duplicate a spawned dexel past its lattice budget', () => {
+    const world = loadWorld([{ type: 'rgpXY', id: 'rgp', size: 24, latticeBudget: 2 }]);
+    const rgp = world.findObject('rgp') as RgpXYObject;
+    world.spawnDexel(rgp);
+
+    expect(world.duplicateObject('rgp-dexel-1')?.id).toBe('rgp-dexel-1-copy');
+    expect(world.duplicateObject('rgp-dexel-1')).toBeNull();
+    expect(world.getLatticeDexels('rgp')).toHaveLength(2);
+  });
+});
+
+describe('GhostTrails', () => {
+  const emitAt = (trails: GhostTrails, emitterId: string, x: number, lifetimeBeats?: number) =>
+    trails.emit({ emitterId, ownerId: emitterId.split(':')[0], position: [x, 0, 0], color: [1, 0, 0], radius: 0.1, opacity: 0.8, lifetimeBeats });
+  const markAt = (trails: GhostTrails, emitterId: string, x: number) =>
+    trails.emit({ emitterId, ownerId: emitterId, position: [x, 0, 0], color: [1, 0, 0], radius: 0.1, opacity: 0.8, persistent: true });
+
+  it('fades particles linearly and drops them when their lifetime ends', () => {
+    const trails = new GhostTrails();
+    trails.setLifetimeBeats(4);
+    const particle = emitAt(trails, 'axis:x', 0);
+    trails.step(1);
+    expect(trails.getOpacity(particle)).toBeCloseTo(0.6, 6);
+    trails.step(3);
+    expect(trails.particles).toHaveLength(0);
+  });
+
+  it('keeps persistent markers through Clear Trails and the particle cap', () => {
+    const trails = new GhostTrails();
+    markAt(trails, 'ghost-core', 0);
+    for (let index = 0; index < MAX_GHOST_PARTICLES + 10; index += 1) {
+      emitAt(trails, 'axis:x', index);
+    }
+    expect(trails.particles).toHaveLength(MAX_GHOST_PARTICLES);
+    expect(trails.particles[0].emitterId).toBe('ghost-core');
+
+    trails.step(1000);
+    trails.clearTrails();
+    expect(trails.particles.map((particle) => particle.emitterId)).toEqual(['ghost-core']);
+  });
+
+  it('caps and clears never-fading trails like any other trail', () => {
+    const trails = new GhostTrails();
+    trails.setLifetimeBeats(0);
+    markAt(trails, 'ghost-core', 0);
+    for (let index = 0; index < MAX_GHOST_PARTICLES + 10; index += 1) {
+      emitAt(trails, 'axis:x', index);
+    }
+    expect(trails.particles).toHaveLength(MAX_GHOST_PARTICLES);
+    expect(trails.particles[0].emitterId).toBe('ghost-core');
+    expect(trails.getOpacity(trails.particles[1])).toBeCloseTo(0.8, 6);
+
+    trails.clearTrails();
+    expect(trails.particles.map((particle) => particle.emitterId)).toEqual(['ghost-core']);
+  });
+
+  it('batches line strips per emitter and leaves single markers as balls', () => {
+    const trails = new GhostTrails();
+    emitAt(trails, 'axis:x', 0);
+    emitAt(trails, 'axis:y', 1);
+    markAt(trails, 'ghost-core', 9);
+    emitAt(trails, 'axis:x', 2);
+    emitAt(trails, 'axis:y', 3);
+
+    const lines = trails.buildBatches('lines');
+    expect(lines.strips).toEqual([{ offset: 0, count: 2 }, { offset: 2, count: 2 }]);
+    expect(lines.points).toEqual({ offset: 4, count: 1 });
+    const xs = [0, 1, 2, 3, 4].map((vertex) => lines.vertices[vertex * GHOST_VERTEX_FLOATS]);
+    expect(xs).toEqual([0, 2, 1, 3, 9]);
+
+    const balls = trails.buildBatches('balls');
+    expect(balls.strips).toEqual([]);
+    expect(balls.points).toEqual({ offset: 0, count: 5 });
+  });
+
+  it('removes only the trails of a deleted twirling axis', () => {
+    const world = loadWorld([
+      { type: 'twirling-axis', id: 'a', speedPerTick: 1, direction: 1 },
+      { type: 'twirling-axis', id: 'b', speedPerTick: 1, direction: 1 },
+    ]);
+    runTicks(world, 4);
+    expect(new Set(world.ghostParticles.map((particle) => particle.emitterId))).toEqual(new Set(['a:x', 'a:y', 'b:x', 'b:y']));
+    world.removeObject('a');
+    expect(world.ghostParticles.every((particle) => particle.ownerId === 'b')).toBe(true);
+  });
+
+  it('honours emitGhost on twirling axes', () => {
+    const world = loadWorld([
+      { type: 'twirling-axis', id: 'quiet', speedPerTick: 1, direction: 1, emitGhost: false },
+    ]);
+    runTicks(world, 4);
+    expect(world.ghostParticles).toHaveLength(0);
+  });
+
+  it('traces both twirl8 lobe tips once per beat', () => {
+    const world = loadWorld([
+      { type: 'twirl8', id: 'K1', axis: 'z', radius: 32, color: 'white', size: 1, initialRotationDeg: 90, emitGhost: true },
+    ]);
+    runTicks(world, 4);
+    expect(world.ghostParticles.map((particle) => particle.emitterId)).toEqual(['K1:lobe+', 'K1:lobe-', 'K1:lobe+', 'K1:lobe-']);
+
+    // The tips sit opposite each other in the twirl8's plane, `size * pulse` out at radius 32 (norm 1).
+    const [plus, minus] = world.ghostParticles.slice(-2).map((particle) => Array.from(particle.position));
+    const pulse = getTwirl8Pulse(world.findObject('K1') as Twirl8Object);
+    expect(Math.hypot(plus[0], plus[1]) / pulse ** 2).toBeCloseTo(1, 4);
+    expect(plus[0]).toBeCloseTo(-minus[0], 5);
+    expect(plus[1]).toBeCloseTo(-minus[1], 5);
+    expect(plus[2]).toBeCloseTo(0, 5);
+  });
+
+  it('traces RGP ring poles on the ring rim and dexel centres at their position', () => {
+    const world = loadWorld([
+      { type: 'rgpXY', id: 'rgp-xy', size: 24, emitGhost: true },
+      { type: 'dexel', id: 'dexel', axis: 'x', sign: 1, size: 24, anchorId: 'rgp-xy', visible: true, emitGhost: true },
+    ]);
+    runTicks(world, 2);
+    const rgp = world.findObject('rgp-xy') as RgpXYObject;
+    const byEmitter = new Map(world.ghostParticles.map((particle) => [particle.emitterId, particle.position]));
+    expect([...byEmitter.keys()]).toEqual(['rgp-xy:primary', 'rgp-xy:secondary', 'dexel:center']);
+    expect(byEmitter.get('rgp-xy:primary')).toEqual(getRgpRingPole(rgp.size, rgp.primary));
+    expect(Math.hypot(...byEmitter.get('rgp-xy:secondary')!)).toBeCloseTo(getRgpRingRadius(rgp.size, rgp.secondary), 5);
+    expect(byEmitter.get('dexel:center')).toEqual((world.findObject('dexel') as DexelObject).position);
+  });
+
+  it('leaves objects without emitGhost untraced and drops trails with their owner', () => {
+    const world = loadWorld([
+      { type: 'sphere', id: 'plain', speedPerTick: 1, direction: 1, plane: 'YG', shellSize: 32, baseColor: 'azure' },
+      { type: 'sphere', id: 'traced', speedPerTick: 1, direction: 1, plane: 'YG', shellSize: 32, baseColor: 'azure', emitGhost: true },
+    ]);
+    runTicks(world, 6);
+    expect(new Set(world.ghostParticles.map((particle) => particle.emitterId))).toEqual(new Set(['traced:rim']));
+    world.removeObject('traced');
+    expect(world.ghostParticles).toHaveLength(0);
+  });
+});
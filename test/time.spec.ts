@@ -0,0 +1,76 @@
+// time.spec.ts — headless checks for the fixed-step clock: accumulator, frame clamp, pausing, rate, stepping
+import { describe, expect, it } from 'vitest';
+import { MAX_PLAYBACK_RATE, Time, type TimeStep } from '../src/engine/Time';
+
+// Quarter-second ticks keep every accumulator value exact in binary floating point.
+function createClock(): Time {
+  const time = new Time({ ticksPerSecond: 4, beatsPerSecond: 2, maxFrameSeconds: 1 });
+  time.start();
+  return time;
+}
+
+describe('Time', () => {
+  it('carries leftover frame time into the next tick and reports it as alpha', () => {
+    const time = createClock();
+    expect(time.advance(0.375)).toBe(1);
+    expect(time.getAlpha()).toBe(0.5);
+    expect(time.advance(0.125)).toBe(1);
+    expect(time.getAlpha()).toBe(0);
+    expect(time.getTick()).toBe(2);
+    expect(time.getBeat()).toBe(1);
+    expect(time.getSeconds()).toBe(0.5);
+  });
+
+  it('clamps a long frame to maxFrameSeconds', () => {
+    const time = createClock();
+    expect(time.advance(10)).toBe(4);
+    expect(time.getAlpha()).toBe(0);
+  });
+
+  it('ignores frames while paused and drops the partial tick on pause', () => {
+    const time = createClock();
+    time.advance(0.375);
+    time.pause();
+    expect(time.isRunning()).toBe(false);
+    expect(time.getAlpha()).toBe(0);
+    expect(time.advance(1)).toBe(0);
+    expect(time.getTick()).toBe(1);
+
+    time.start();
+    expect(time.advance(0.125)).toBe(0);
+    expect(time.advance(0.125)).toBe(1);
+  });
+
+  it('scales wall-clock time by the playback rate without changing the step size', () => {
+    const time = createClock();
+    time.setPlaybackRate(2);
+    expect(time.advance(0.25)).toBe(2);
+    expect(time.getBeatsPerTick()).toBe(0.5);
+
+    time.setPlaybackRate(10);
+    expect(time.getPlaybackRate()).toBe(MAX_PLAYBACK_RATE);
+    time.setPlaybackRate(Number.NaN);
+    expect(time.getPlaybackRate()).toBe(MAX_PLAYBACK_RATE);
+  });
+
+  it('steps whole ticks on request and resets to a beat', () => {
+    const time = new Time({ ticksPerSecond: 4, beatsPerSecond: 2 });
+    const steps: TimeStep[] = [];
+    time.onTick((step) => steps.push(step));
+
+    time.step(2.7);
+    expect(time.isRunning()).toBe(false);
+    expect(steps).toEqual([
+      { tick: 1, beat: 0.5, beats: 0.5, deltaSeconds: 0.25 },
+      { tick: 2, beat: 1, beats: 0.5, deltaSeconds: 0.25 },
+    ]);
+
+    time.reset(3);
+    expect(time.getTick()).toBe(0);
+    expect(time.getBeat()).toBe(3);
+    time.step();
+    expect(time.getBeat()).toBe(3.5);
+    time.reset(-1);
+    expect(time.getBeat()).toBe(0);
+  });
+});